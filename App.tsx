@@ -1,8 +1,23 @@
-import React, { useState } from 'react';
-import { Sparkles, Video, Mic, AlertCircle, Loader2, User, ImageIcon, Edit3, RefreshCw, Check, X, Trash2, Plus, Hand } from 'lucide-react';
-import { generateRehearsalScript, generateSpeech, regenerateShorterText, generateActionVideo, generateCharacterImage, base64ToDataUrl, GestureTypeValue, reviewVideoContent } from './services/geminiService';
-import { ScriptSegment, SegmentStatus, RehearsalState, GeminiScriptResponse, CharacterStatus, GestureType, VideoReviewContext, VideoReviewResult } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Sparkles, Video, Mic, AlertCircle, Loader2, User, ImageIcon, Edit3, RefreshCw, Check, X, Trash2, Plus, Hand, Download, Upload, FolderOpen, Users, MessageCircleQuestion, SlidersHorizontal, ChevronDown, Presentation, Languages } from 'lucide-react';
+import { generateRehearsalScript, extendRehearsalScript, annotateUserScript, translateRehearsal, generateAudienceQuestions, generateSpeech, generateTimedSpeech, getSpeechVoices, regenerateShorterText, generateActionVideo, generateCharacterImage, base64ToDataUrl, GestureTypeValue, reviewVideoContent, type ScriptItem } from './services/capabilities';
+import { ScriptSegment, SegmentStatus, RehearsalState, GeminiScriptResponse, CharacterStatus, GestureType, VideoReviewContext, VideoReviewResult, RehearsalProject, ScriptInputMode, CastMember, QaItem, ScriptOptions, Slide, LanguageCode, VoiceSettings, SegmentTimelineEntry } from './types';
+import { buildCast, findSpeaker, pickQuestionVoice, resolveVoice } from './services/cast';
 import Player from './components/Player';
+import ProjectLibrary from './components/ProjectLibrary';
+import VoicePicker from './components/VoicePicker';
+import { createProjectId, getLastProjectId, loadProject, saveProject, setLastProjectId, getProjectDisplayName } from './services/projectStore';
+import { downloadProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './services/projectBundle';
+import { getRecordMode, exportFixtures, importFixtures } from './services/geminiRecorder';
+import { getTextUnitCount, validateTextLength } from './services/textLimits';
+import { recordSpeechSample, withCalibratedLimits } from './services/speechCalibration';
+import { prioritizeSegment, subscribeJobs, type JobInfo, type JobSnapshot } from './services/jobScheduler';
+import { normalizeSlides, parseSlideOutline } from './services/slides';
+import { LANGUAGE_CODES, LANGUAGE_PROFILES } from './services/language';
+import { getAuditionText, normalizeVoiceSettings } from './services/voices';
+import { fitAudioToWindow } from './services/audioFit';
+import { resolveWordTimings } from './services/wordTiming';
+import { DEFAULT_SCRIPT_OPTIONS, AUDIENCE_OPTIONS, FORMALITY_OPTIONS, LANGUAGE_OPTIONS, GESTURE_DENSITY_OPTIONS, MIN_TARGET_SECONDS, MAX_TARGET_SECONDS, normalizeScriptOptions, planDurationAdjustment } from './services/scriptOptions';
 
 // Declare global for the key selection
 declare global {
@@ -28,102 +43,20 @@ const buildReviewFeedback = (review: VideoReviewResult): string => {
   return lines.join('\n');
 };
 
-// 文本长度限制配置
-// 基于 TTS 时长估算：4-7 秒的音频对应的文本长度
-const TEXT_LIMITS = {
-  // 中文：约 5 字/秒（TTS 语速，考虑标点停顿）
-  chinese: {
-    min: 20,  // 4s * 5 字/秒
-    max: 35,  // 7s * 5 字/秒
-    recommended: 28 // 推荐值（约 5-6 秒）
-  },
-  // 英文：约 2.8 词/秒（TTS 语速）
-  english: {
-    min: 12,  // 4s * 3 词/秒
-    max: 20,  // 7s * 2.8 词/秒
-    recommended: 16 // 推荐值（约 5-6 秒）
-  }
-};
-
-/**
- * 检测文本主要语言（简单的启发式方法）
- */
-const detectLanguage = (text: string): 'chinese' | 'english' => {
-  // 统计中文字符数量
-  const chineseChars = text.match(/[\u4e00-\u9fa5]/g)?.length || 0;
-  const totalChars = text.length;
-  
-  // 如果中文字符占比超过 30%，判定为中文
-  return (chineseChars / totalChars) > 0.3 ? 'chinese' : 'english';
-};
-
-/**
- * 获取文本的"单位"数量（中文按字符，英文按单词）
- */
-const getTextUnitCount = (text: string): { count: number; language: 'chinese' | 'english' } => {
-  const language = detectLanguage(text);
-  
-  if (language === 'chinese') {
-    // 中文：统计所有字符（包括中英文、数字、标点）
-    return { count: text.length, language };
-  } else {
-    // 英文：统计单词数
-    const words = text.trim().split(/\s+/).filter(w => w.length > 0);
-    return { count: words.length, language };
-  }
-};
-
-/**
- * 验证文本长度是否在合理范围内
- */
-const validateTextLength = (text: string): { 
-  valid: boolean; 
-  status: 'too-short' | 'ok' | 'warning' | 'too-long';
-  message: string;
-  count: number;
-  language: 'chinese' | 'english';
-} => {
-  const { count, language } = getTextUnitCount(text);
-  const limits = TEXT_LIMITS[language];
-  const unit = language === 'chinese' ? '字符' : '单词';
-  
-  if (count < limits.min) {
-    return {
-      valid: false,
-      status: 'too-short',
-      message: `文本过短（${count} ${unit}），建议至少 ${limits.min} ${unit}（约 4 秒）`,
-      count,
-      language
-    };
-  } else if (count > limits.max) {
-    return {
-      valid: false,
-      status: 'too-long',
-      message: `文本过长（${count} ${unit}），最多 ${limits.max} ${unit}（约 7 秒）`,
-      count,
-      language
-    };
-  } else if (count > limits.recommended) {
-    return {
-      valid: true,
-      status: 'warning',
-      message: `文本较长（${count} ${unit}），建议不超过 ${limits.recommended} ${unit}（约 5-6 秒）`,
-      count,
-      language
-    };
-  } else {
-    return {
-      valid: true,
-      status: 'ok',
-      message: `${count} ${unit}`,
-      count,
-      language
-    };
-  }
-};
+/** 编辑器段落转回脚本条目（补写段落、翻译时发给模型） */
+const toScriptItem = (seg: ScriptSegment): ScriptItem => ({
+  spoken_text: seg.spokenText,
+  gesture_type: seg.gestureType,
+  ...(seg.gestureDescription ? { gesture_description: seg.gestureDescription } : {}),
+  ...(seg.speakerId ? { speaker_id: seg.speakerId } : {}),
+  ...(seg.slideIndex ? { slide_index: seg.slideIndex } : {}),
+});
 
 export default function App() {
   const [prompt, setPrompt] = useState('');
+  const [inputMode, setInputMode] = useState<ScriptInputMode>('scenario'); // speech：用户自带完整演讲稿
+  const [scriptOptions, setScriptOptions] = useState<ScriptOptions>(DEFAULT_SCRIPT_OPTIONS);
+  const [showScriptOptions, setShowScriptOptions] = useState(false);
   const [state, setState] = useState<RehearsalState['status']>('input');
   const [segments, setSegments] = useState<ScriptSegment[]>([]);
   const [error, setError] = useState<string | null>(null);
@@ -133,114 +66,522 @@ export default function App() {
   const [characterDescription, setCharacterDescription] = useState<string | null>(null);
   const [characterPersonality, setCharacterPersonality] = useState<string | null>(null);
   const [characterStatus, setCharacterStatus] = useState<CharacterStatus>(CharacterStatus.IDLE);
+  const [scriptResponse, setScriptResponse] = useState<GeminiScriptResponse | null>(null);
+  const [scriptRepairs, setScriptRepairs] = useState<string[]>([]); // 脚本校验时自动修复的内容
+  const [cast, setCast] = useState<CastMember[]>([]); // 多人对话的角色表，单人排练为空
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>({}); // 单人排练的 TTS 音色与朗读风格
+  const [qaItems, setQaItems] = useState<QaItem[]>([]); // 观众问答排练
+  const [qaBusy, setQaBusy] = useState(false);
+  const [slides, setSlides] = useState<Slide[]>([]); // 导入的幻灯片大纲
+  const [translateLanguage, setTranslateLanguage] = useState<LanguageCode>('en');
+  const [reuseVideosOnTranslate, setReuseVideosOnTranslate] = useState(true); // 翻译时沿用已生成的手势视频
+  const [translateBusy, setTranslateBusy] = useState(false);
+  const [jobs, setJobs] = useState<JobSnapshot>({ active: [], completed: 0, failed: 0 }); // 生成任务队列的进度
+  const slideInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Project persistence (IndexedDB)
+  const [projectId, setProjectId] = useState<string>(() => getLastProjectId() || createProjectId());
+  const [projectName, setProjectName] = useState<string | undefined>(undefined);
+  const [isRestoring, setIsRestoring] = useState(true);
+  // 没有上次打开的项目时，先展示项目库
+  const [showLibrary, setShowLibrary] = useState<boolean>(() => !getLastProjectId());
+  const projectCreatedAtRef = useRef<number>(Date.now());
+  const [bundleBusy, setBundleBusy] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement | null>(null);
+  const fixtureInputRef = useRef<HTMLInputElement | null>(null);
+  const recordMode = getRecordMode();
+
+  // 将一个项目快照加载到编辑器 / 播放器状态
+  const applyProject = (project: RehearsalProject) => {
+    setProjectId(project.id);
+    setProjectName(project.name);
+    projectCreatedAtRef.current = project.createdAt;
+    setPrompt(project.scenario);
+    setInputMode(project.inputMode ?? 'scenario');
+    setScriptOptions(normalizeScriptOptions(project.scriptOptions));
+    setSegments(project.segments);
+    setCharacterImageBase64(project.characterImageBase64);
+    setCharacterDescription(project.characterDescription);
+    setCharacterPersonality(project.characterPersonality);
+    setCharacterStatus(project.characterStatus);
+    setScriptResponse(project.scriptResponse ?? null);
+    setCast(project.cast ?? []);
+    setVoiceSettings(normalizeVoiceSettings(project.voice) ?? {});
+    setQaItems(project.qa ?? []);
+    setSlides(normalizeSlides(project.slides));
+    setScriptRepairs([]);
+    setState(project.status);
+    setError(null);
+  };
+
+  const buildProjectSnapshot = (): RehearsalProject => ({
+    id: projectId,
+    name: projectName,
+    scenario: prompt,
+    inputMode,
+    scriptOptions,
+    status: state,
+    segments,
+    characterImageBase64,
+    characterDescription,
+    characterPersonality,
+    characterStatus,
+    scriptResponse,
+    cast: cast.length > 0 ? cast : undefined,
+    qa: qaItems.length > 0 ? qaItems : undefined,
+    slides: slides.length > 0 ? slides : undefined,
+    voice: normalizeVoiceSettings(voiceSettings),
+    createdAt: projectCreatedAtRef.current,
+    updatedAt: Date.now(),
+  });
+
+  // 启动时恢复上一次的项目（含音频/视频字节）
+  useEffect(() => {
+    const lastId = getLastProjectId();
+    if (!lastId) {
+      setIsRestoring(false);
+      return;
+    }
+
+    loadProject(lastId)
+      .then((project) => {
+        if (!project) {
+          setShowLibrary(true);
+          return;
+        }
+        console.log(`[ProjectStore] Restored project ${project.id} (${project.segments.length} segments)`);
+        applyProject(project);
+      })
+      .catch((e) => console.error('[ProjectStore] Failed to restore project:', e))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  // 订阅生成任务队列（TTS、定妆照、视频、审查）的进度
+  useEffect(() => subscribeJobs(setJobs), []);
+
+  // 生成任务的结果按段落 id 写回当前项目，仍有任务排队或运行时不能切换 / 导入项目
+  const canSwitchProject = (state === 'input' || state === 'ready' || state === 'editing') && jobs.active.length === 0;
+
+  // 每次状态变化后自动保存（防抖，避免输入时频繁写库）
+  useEffect(() => {
+    if (isRestoring) return;
+    if (!prompt.trim() && segments.length === 0) return;
+
+    const timer = setTimeout(() => {
+      saveProject(buildProjectSnapshot())
+        .then(() => setLastProjectId(projectId))
+        .catch((e) => console.error('[ProjectStore] Autosave failed:', e));
+    }, 800);
+
+    return () => clearTimeout(timer);
+  }, [isRestoring, projectId, projectName, prompt, inputMode, scriptOptions, state, segments, characterImageBase64, characterDescription, characterPersonality, characterStatus, scriptResponse, cast, qaItems, slides, voiceSettings]);
+
+  // 切换项目前立即保存当前项目（绕过自动保存的防抖）
+  const persistCurrentProject = async () => {
+    if (!prompt.trim() && segments.length === 0) return;
+    try {
+      await saveProject(buildProjectSnapshot());
+    } catch (e) {
+      console.error('[ProjectStore] Failed to save current project:', e);
+    }
+  };
+
+  const resetToNewProject = () => {
+    const now = Date.now();
+    applyProject({
+      id: createProjectId(),
+      scenario: '',
+      status: 'input',
+      segments: [],
+      characterImageBase64: null,
+      characterDescription: null,
+      characterPersonality: null,
+      characterStatus: CharacterStatus.IDLE,
+      scriptResponse: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  };
+
+  const handleOpenLibrary = async () => {
+    await persistCurrentProject();
+    setShowLibrary(true);
+  };
+
+  const handleCreateProject = () => {
+    resetToNewProject();
+    setShowLibrary(false);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    await persistCurrentProject();
+    try {
+      const project = await loadProject(id);
+      if (!project) throw new Error('Project not found');
+      applyProject(project);
+      setLastProjectId(project.id);
+      setShowLibrary(false);
+    } catch (e: any) {
+      console.error('[ProjectStore] Failed to open project:', e);
+      setError(`Failed to open project: ${e.message}`);
+    }
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id === projectId) resetToNewProject();
+  };
+
+  const handleProjectRenamed = (id: string, name: string) => {
+    if (id === projectId) setProjectName(name.trim() || undefined);
+  };
+
+  // 导出当前项目为单文件 bundle
+  const handleExportProject = async () => {
+    if (bundleBusy) return;
+    setBundleBusy(true);
+    try {
+      await downloadProjectBundle(buildProjectSnapshot());
+    } catch (e: any) {
+      console.error('[Bundle] Export failed:', e);
+      setError(`Failed to export project: ${e.message}`);
+    } finally {
+      setBundleBusy(false);
+    }
+  };
+
+  // 录制模式：导出 / 导入 Gemini 调用的录制结果，用于离线回放
+  const handleExportFixtures = async () => {
+    try {
+      const blob = await exportFixtures();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `gemini-fixtures-${Date.now()}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      console.error('[Record] Fixture export failed:', e);
+      setError(`Failed to export fixtures: ${e.message}`);
+    }
+  };
+
+  const handleImportFixtures = async (file: File) => {
+    try {
+      const count = await importFixtures(file);
+      console.log(`[Replay] Imported ${count} fixtures`);
+    } catch (e: any) {
+      console.error('[Replay] Fixture import failed:', e);
+      setError(`Failed to import fixtures: ${e.message}`);
+    }
+  };
+
+  // 从 bundle 文件导入项目（作为新项目打开）
+  const handleImportProject = async (file: File) => {
+    setBundleBusy(true);
+    await persistCurrentProject();
+    try {
+      const project = await importProjectBundle(file);
+      console.log(`[Bundle] Imported project with ${project.segments.length} segments`);
+      applyProject(project);
+    } catch (e: any) {
+      console.error('[Bundle] Import failed:', e);
+      setError(`Failed to import project: ${e.message}`);
+    } finally {
+      setBundleBusy(false);
+    }
+  };
+
+  /**
+   * TTS 时长验证（对用户隐藏）：为单个段落生成 TTS，检查时长是否超过 8 秒；
+   * 超过则让 LLM 自动缩短台词并重新检验，直到通过。
+   * 期间通过 setSegments 实时更新该段落的台词，返回验证后的段落（含音频结果）。
+   * 超时的音频先做保持音高的时间压缩（见 fitAudioToWindow），压不进 8 秒才缩短台词。
+   * @param allowShorten 为 false 时（用户自带演讲稿）只压缩音频、不改动台词；段落的 lockText 同理
+   * @param voice 该段说话人的音色与朗读风格（见 resolveVoice）
+   */
+  const validateSegmentTiming = async (
+    initial: ScriptSegment,
+    label: number,
+    allowShorten: boolean = true,
+    voice?: VoiceSettings
+  ): Promise<ScriptSegment> => {
+    const MAX_TTS_RETRIES = 3;
+    const MAX_DURATION = 8; // Veo API 使用参考图片时只支持 8 秒视频
+    const updateSegment = (next: ScriptSegment) =>
+      setSegments(prev => prev.map(seg => seg.id === next.id ? next : seg));
+
+    const canRewrite = allowShorten && !initial.lockText;
+    let segment = initial;
+    let retryCount = 0;
+    let passed = false;
+
+    while (!passed && retryCount <= MAX_TTS_RETRIES) {
+      try {
+        // 生成 TTS 并检查时长
+        let { audioUrl, wordTimings } = await generateTimedSpeech(segment.spokenText, voice, { segmentId: segment.id });
+        let audioDuration = await getAudioDuration(audioUrl);
+        let timeStretch: number | undefined;
+        recordSpeechSample(segment.spokenText, audioDuration, voice?.voice);
+
+        console.log(`[TTS Validate] Segment ${label}: "${segment.spokenText.substring(0, 30)}..." → ${audioDuration.toFixed(2)}s`);
+
+        // 超时先尝试时间压缩；不允许改写台词时按最大倍率压缩
+        if (audioDuration > MAX_DURATION) {
+          const fitted = await fitAudioToWindow(audioUrl, audioDuration, !canRewrite);
+          if (fitted) ({ audioUrl, audioDuration, timeStretch } = fitted);
+        }
+
+        if (audioDuration <= MAX_DURATION || !canRewrite) {
+          if (audioDuration > MAX_DURATION) {
+            console.warn(`[TTS Validate] Segment ${label} is ${audioDuration.toFixed(2)}s (>${MAX_DURATION}s), keeping the user's text unchanged`);
+          }
+          // 通过验证，保存音频结果（后续 media generation 可复用）
+          segment = {
+            ...segment,
+            audioStatus: SegmentStatus.COMPLETED,
+            audioUrl,
+            audioDuration,
+            timeStretch,
+            wordTimings: await resolveWordTimings(audioUrl, segment.spokenText, wordTimings, timeStretch),
+          };
+          passed = true;
+        } else {
+          // 释放不合格的音频 Blob URL
+          URL.revokeObjectURL(audioUrl);
+
+          if (retryCount < MAX_TTS_RETRIES) {
+            // 超过时长限制，让 LLM 自动缩短台词
+            console.log(`[TTS Validate] Segment ${label} is ${audioDuration.toFixed(2)}s (>${MAX_DURATION}s), auto-shortening... (attempt ${retryCount + 1}/${MAX_TTS_RETRIES})`);
+            const shorterText = await regenerateShorterText(segment.spokenText, audioDuration, prompt);
+            segment = { ...segment, spokenText: shorterText };
+            // 更新 UI 显示最新的台词
+            updateSegment(segment);
+          } else {
+            // 达到最大重试次数，使用最后一次的文本，保存音频
+            console.warn(`[TTS Validate] Segment ${label} still ${audioDuration.toFixed(2)}s after ${MAX_TTS_RETRIES} retries, proceeding anyway`);
+            // 重新生成一次 TTS 以获取最新文本的音频
+            const final = await generateTimedSpeech(segment.spokenText, voice, { segmentId: segment.id });
+            const finalDuration = await getAudioDuration(final.audioUrl);
+            recordSpeechSample(segment.spokenText, finalDuration, voice?.voice);
+            const fitted = await fitAudioToWindow(final.audioUrl, finalDuration, true);
+            const finalAudioUrl = fitted?.audioUrl ?? final.audioUrl;
+            segment = {
+              ...segment,
+              audioStatus: SegmentStatus.COMPLETED,
+              audioUrl: finalAudioUrl,
+              audioDuration: fitted?.audioDuration ?? finalDuration,
+              timeStretch: fitted?.timeStretch,
+              wordTimings: await resolveWordTimings(finalAudioUrl, segment.spokenText, final.wordTimings, fitted?.timeStretch),
+            };
+            passed = true;
+          }
+        }
+      } catch (ttsErr) {
+        console.error(`[TTS Validate] Failed for segment ${label}:`, ttsErr);
+        // TTS 生成失败时不阻塞流程，跳过验证
+        passed = true;
+      }
+      retryCount++;
+    }
+
+    updateSegment(segment);
+    return segment;
+  };
+
+  /**
+   * 按目标时长检查 TTS 验证后的总时长（各段 audioDuration 之和），超出容差时：
+   * 过短让模型在结尾段落前补写段落（补写的段落同样做 TTS 时长验证），过长则删减段落。
+   * @returns 调整后的段落，以及展示给用户的调整说明
+   */
+  const adjustScriptDuration = async (
+    initial: ScriptSegment[],
+    scriptCast: CastMember[],
+    createSegment: (item: ScriptItem) => ScriptSegment
+  ): Promise<{ segments: ScriptSegment[]; notes: string[] }> => {
+    const target = scriptOptions.targetDurationSeconds;
+    const notes: string[] = [];
+    let current = initial;
+    let plan = planDurationAdjustment(current, scriptOptions);
+    if (!target || plan.action === 'none') return { segments: current, notes };
+
+    console.log(`[Duration] Script is ${plan.totalSeconds.toFixed(1)}s, target ${target}s (±${Math.round(scriptOptions.durationTolerance * 100)}%): ${plan.action}`);
+
+    if (plan.action === 'extend') {
+      const before = plan.totalSeconds;
+      try {
+        const { items, repairs } = await extendRehearsalScript(
+          prompt,
+          current.map(toScriptItem),
+          plan.missingSeconds,
+          plan.segmentCount,
+          withCalibratedLimits(scriptOptions, voiceSettings.voice)
+        );
+        notes.push(...repairs);
+
+        // 新段落插入在结尾段落之前，逐个做 TTS 时长验证
+        const insertAt = Math.max(0, current.length - 1);
+        const added = items.map(createSegment);
+        current = [...current.slice(0, insertAt), ...added, ...current.slice(insertAt)];
+        setSegments(current);
+        for (const [i, segment] of added.entries()) {
+          const voice = resolveVoice(scriptCast, segment.speakerId, voiceSettings);
+          const checked = await validateSegmentTiming(segment, insertAt + i + 1, true, voice);
+          current = current.map(seg => seg.id === checked.id ? checked : seg);
+        }
+
+        plan = planDurationAdjustment(current, scriptOptions);
+        const after = current.reduce((sum, seg) => sum + (seg.audioDuration ?? 0), 0);
+        notes.push(`Added ${added.length} segment(s) to reach the ${target}s target (${before.toFixed(1)}s → ${after.toFixed(1)}s)`);
+      } catch (e) {
+        console.error('[Duration] Failed to extend script:', e);
+        notes.push(`Script is ${before.toFixed(1)}s, shorter than the ${target}s target (could not add segments)`);
+        return { segments: current, notes };
+      }
+    }
+
+    if (plan.action === 'trim') {
+      const { removeIds } = plan;
+      const removed = current.filter(seg => removeIds.includes(seg.id));
+      removed.forEach(seg => seg.audioUrl && URL.revokeObjectURL(seg.audioUrl));
+      current = current.filter(seg => !removed.includes(seg));
+      notes.push(`Removed ${removed.length} segment(s) to fit the ${target}s target (${plan.totalSeconds.toFixed(1)}s → ${(plan.totalSeconds - plan.trimmedSeconds).toFixed(1)}s)`);
+    }
+
+    const total = current.reduce((sum, seg) => sum + (seg.audioDuration ?? 0), 0);
+    if (Math.abs(total - target) > target * scriptOptions.durationTolerance) {
+      notes.push(`Total length ${total.toFixed(1)}s is still outside the ${target}s ±${Math.round(scriptOptions.durationTolerance * 100)}% target`);
+    }
+    return { segments: current, notes };
+  };
 
   const handleGenerateScript = async () => {
     if (!prompt.trim()) return;
     
     setState('scripting');
     setError(null);
+    setSegments([]);
     setCharacterImageBase64(null);
     setCharacterDescription(null);
     setCharacterPersonality(null);
     setCharacterStatus(CharacterStatus.IDLE);
+    setScriptResponse(null);
+    setScriptRepairs([]);
+    setCast([]);
+    setQaItems([]);
+
+    // 流式到达的段落先显示在 Scene Breakdown 中，并立即排队做 TTS 时长验证，
+    // 长场景不必等整份脚本生成完就能开始产出音频
+    const runId = Date.now();
+    let segmentCounter = 0;
+    const streamed: Array<{ segment: ScriptSegment; item: ScriptItem }> = [];
+    const validated = new Map<string, ScriptSegment>();
+    const discarded = new Set<string>();
+    const queued = new Set<string>();
+    let timingQueue: Promise<void> = Promise.resolve();
+    let scriptCast: CastMember[] = [];
+    const isSpeechMode = inputMode === 'speech';
+
+    const createSegment = (item: ScriptItem): ScriptSegment => ({
+      id: `seg-${segmentCounter++}-${runId}`,
+      spokenText: item.spoken_text,
+      gestureType: item.gesture_type as GestureType,
+      gestureDescription: item.gesture_description, // 仅对 deictic/iconic/metaphoric 有值
+      audioStatus: SegmentStatus.IDLE,
+      videoStatus: item.gesture_type === 'none' ? SegmentStatus.COMPLETED : SegmentStatus.IDLE, // 无手势的段落不需要生成视频
+      ...(item.speaker_id ? { speakerId: item.speaker_id } : {}),
+      ...(item.slide_index ? { slideIndex: item.slide_index } : {}),
+    });
+
+    // TTS 验证按到达顺序串行执行；多人对话的段落要等角色表（决定音色）确定后再验证
+    const queueTimingValidation = (segment: ScriptSegment, label: number) => {
+      queued.add(segment.id);
+      timingQueue = timingQueue.then(async () => {
+        if (discarded.has(segment.id)) return;
+        const voice = resolveVoice(scriptCast, segment.speakerId, voiceSettings);
+        validated.set(segment.id, await validateSegmentTiming(segment, label, !isSpeechMode, voice));
+      });
+    };
 
     try {
       // Step 1: Generate script with character description
-      const result: GeminiScriptResponse = await generateRehearsalScript(prompt);
-      
-      const newSegments: ScriptSegment[] = result.script.map((item, index) => ({
-        id: `seg-${index}-${Date.now()}`,
-        spokenText: item.spoken_text,
-        gestureType: item.gesture_type as GestureType,
-        gestureDescription: item.gesture_description, // 仅对 deictic/iconic/metaphoric 有值
-        audioStatus: SegmentStatus.IDLE,
-        videoStatus: item.gesture_type === 'none' ? SegmentStatus.COMPLETED : SegmentStatus.IDLE, // 无手势的段落不需要生成视频
-      }));
-
-      setSegments(newSegments);
+      // 返回的脚本已经过校验与修复（缺少描述的手势降级、超长台词拆分等）；
+      // 自带演讲稿时台词由本地切分，模型只标注手势与角色
+      const { response: result, report } = isSpeechMode
+        ? await annotateUserScript(prompt)
+        : await generateRehearsalScript(prompt, withCalibratedLimits(scriptOptions, voiceSettings.voice), slides, (item, index) => {
+            const segment = createSegment(item);
+            streamed.push({ segment, item });
+            setSegments(prev => [...prev, segment]);
+            if (!item.speaker_id) queueTimingValidation(segment, index + 1);
+          });
+      scriptCast = buildCast(result, getSpeechVoices());
+      setCast(scriptCast);
+      setScriptResponse(result);
+      setScriptRepairs(report.repairs);
       setCharacterDescription(result.character_description);
       setCharacterPersonality(result.character_personality);
 
-      // Step 2: 自动 TTS 时长验证（对用户隐藏）
-      // 对每个 segment 生成 TTS，检查时长是否超过 8 秒
-      // 如果超过，自动让 LLM 缩短台词，然后重新检验，直到通过
+      // 以校验后的最终脚本为准：与流式段落按内容对齐，复用已显示的段落和已生成的音频；
+      // 最终脚本中不存在的流式段落（例如被模型修正替换）丢弃
+      const unmatched = [...streamed];
+      const finalSegments = result.script.map((item, index) => {
+        const matchIndex = unmatched.findIndex(({ item: s }) =>
+          s.spoken_text === item.spoken_text &&
+          s.gesture_type === item.gesture_type &&
+          s.gesture_description === item.gesture_description &&
+          s.speaker_id === item.speaker_id
+        );
+        const segment = matchIndex >= 0 ? unmatched.splice(matchIndex, 1)[0].segment : createSegment(item);
+        if (!queued.has(segment.id)) queueTimingValidation(segment, index + 1);
+        return segment;
+      });
+      unmatched.forEach(({ segment }) => discarded.add(segment.id));
+      // 幻灯片以最终脚本为准（流式段落的 slide_index 可能在校验时被校正）
+      const withFinalSlide = (seg: ScriptSegment, index: number): ScriptSegment =>
+        seg.slideIndex === result.script[index].slide_index ? seg : { ...seg, slideIndex: result.script[index].slide_index };
+      setSegments(finalSegments.map((seg, index) => withFinalSlide(validated.get(seg.id) ?? seg, index)));
+
+      // Step 2: 等待剩余段落的 TTS 时长验证完成
       setState('validating_timing');
-      const MAX_TTS_RETRIES = 3;
-      const MAX_DURATION = 8; // Veo API 使用参考图片时只支持 8 秒视频
-
-      for (let i = 0; i < newSegments.length; i++) {
-        let segment = newSegments[i];
-        let retryCount = 0;
-        let passed = false;
-
-        while (!passed && retryCount <= MAX_TTS_RETRIES) {
-          try {
-            // 生成 TTS 并检查时长
-            const audioUrl = await generateSpeech(segment.spokenText);
-            const audioDuration = await getAudioDuration(audioUrl);
+      await timingQueue;
 
-            console.log(`[TTS Validate] Segment ${i + 1}: "${segment.spokenText.substring(0, 30)}..." → ${audioDuration.toFixed(2)}s`);
-
-            if (audioDuration <= MAX_DURATION) {
-              // 通过验证，保存音频结果（后续 media generation 可复用）
-              newSegments[i] = {
-                ...segment,
-                audioStatus: SegmentStatus.COMPLETED,
-                audioUrl,
-                audioDuration,
-              };
-              passed = true;
-            } else {
-              // 释放不合格的音频 Blob URL
-              URL.revokeObjectURL(audioUrl);
-
-              if (retryCount < MAX_TTS_RETRIES) {
-                // 超过时长限制，让 LLM 自动缩短台词
-                console.log(`[TTS Validate] Segment ${i + 1} is ${audioDuration.toFixed(2)}s (>${MAX_DURATION}s), auto-shortening... (attempt ${retryCount + 1}/${MAX_TTS_RETRIES})`);
-                const shorterText = await regenerateShorterText(segment.spokenText, audioDuration, prompt);
-                segment = { ...segment, spokenText: shorterText };
-                newSegments[i] = segment;
-                // 更新 UI 显示最新的台词
-                setSegments([...newSegments]);
-              } else {
-                // 达到最大重试次数，使用最后一次的文本，保存音频
-                console.warn(`[TTS Validate] Segment ${i + 1} still ${audioDuration.toFixed(2)}s after ${MAX_TTS_RETRIES} retries, proceeding anyway`);
-                // 重新生成一次 TTS 以获取最新文本的音频
-                const finalAudioUrl = await generateSpeech(segment.spokenText);
-                const finalDuration = await getAudioDuration(finalAudioUrl);
-                newSegments[i] = {
-                  ...segment,
-                  audioStatus: SegmentStatus.COMPLETED,
-                  audioUrl: finalAudioUrl,
-                  audioDuration: finalDuration,
-                };
-                passed = true;
-              }
-            }
-          } catch (ttsErr) {
-            console.error(`[TTS Validate] Failed for segment ${i + 1}:`, ttsErr);
-            // TTS 生成失败时不阻塞流程，跳过验证
-            passed = true;
-          }
-          retryCount++;
-        }
-      }
+      unmatched.forEach(({ segment }) => {
+        const audioUrl = validated.get(segment.id)?.audioUrl;
+        if (audioUrl) URL.revokeObjectURL(audioUrl);
+      });
 
       // 更新所有 segment（包含验证后的文本和音频信息）
-      setSegments([...newSegments]);
+      let scriptSegments = finalSegments.map((seg, index) => withFinalSlide(validated.get(seg.id) ?? seg, index));
+      setSegments(scriptSegments);
+
+      // Step 2.5: 按目标时长校验总时长，超出容差时自动补写或删减段落（自带演讲稿不改动）
+      if (!isSpeechMode) {
+        const { segments: adjusted, notes } = await adjustScriptDuration(scriptSegments, scriptCast, createSegment);
+        scriptSegments = adjusted;
+        setSegments(scriptSegments);
+        if (notes.length > 0) setScriptRepairs(prev => [...prev, ...notes]);
+      }
 
-      // Step 3: Generate character image (定妆照)
+      // Step 3: Generate character image (定妆照)；多人对话为每个角色各生成一张
       setState('generating_character');
       setCharacterStatus(CharacterStatus.GENERATING);
-      
-      try {
-        const imageBase64 = await generateCharacterImage(result.character_description);
-        setCharacterImageBase64(imageBase64);
-        setCharacterStatus(CharacterStatus.COMPLETED);
-      } catch (imgErr) {
-        console.error("Character image generation failed:", imgErr);
-        setCharacterStatus(CharacterStatus.ERROR);
-        // Continue without image - user can regenerate later
+
+      if (scriptCast.length > 0) {
+        for (const [index, member] of scriptCast.entries()) {
+          await regenerateCastImage(member, index === 0);
+        }
+      } else {
+        try {
+          const imageBase64 = await generateCharacterImage(result.character_description);
+          setCharacterImageBase64(imageBase64);
+          setCharacterStatus(CharacterStatus.COMPLETED);
+        } catch (imgErr) {
+          console.error("Character image generation failed:", imgErr);
+          setCharacterStatus(CharacterStatus.ERROR);
+          // Continue without image - user can regenerate later
+        }
       }
       
       // Step 3: Enter editing mode - wait for user confirmation before generating media
@@ -248,6 +589,9 @@ export default function App() {
 
     } catch (err: any) {
       console.error(err);
+      // 丢弃已流式显示的半份脚本，排队中的 TTS 验证不再执行
+      streamed.forEach(({ segment }) => discarded.add(segment.id));
+      setSegments([]);
       setError("Failed to generate script. Please try again.");
       setState('input');
     }
@@ -276,14 +620,46 @@ export default function App() {
     }
   };
 
+  const updateCastMember = (id: string, patch: Partial<CastMember>) =>
+    setCast(prev => prev.map(member => member.id === id ? { ...member, ...patch } : member));
+
+  /**
+   * 生成某个角色的定妆照。第一个角色同时写入 character* 状态，
+   * 项目缩略图、导出等沿用单一角色的流程不需要区分多人对话
+   */
+  const regenerateCastImage = async (member: CastMember, isPrimary: boolean) => {
+    updateCastMember(member.id, { imageStatus: CharacterStatus.GENERATING, imageBase64: null });
+    if (isPrimary) setCharacterStatus(CharacterStatus.GENERATING);
+
+    try {
+      const imageBase64 = await generateCharacterImage(member.description);
+      updateCastMember(member.id, { imageStatus: CharacterStatus.COMPLETED, imageBase64 });
+      if (isPrimary) {
+        setCharacterImageBase64(imageBase64);
+        setCharacterStatus(CharacterStatus.COMPLETED);
+      }
+    } catch (imgErr) {
+      console.error(`Character image generation failed for ${member.name}:`, imgErr);
+      updateCastMember(member.id, { imageStatus: CharacterStatus.ERROR });
+      if (isPrimary) setCharacterStatus(CharacterStatus.ERROR);
+    }
+  };
+
+  // 段落视频使用的参考图：多人对话取说话人的定妆照，否则为单一角色
+  const referenceImageFor = (segment: ScriptSegment): string | null => {
+    const speaker = findSpeaker(cast, segment.speakerId);
+    return speaker ? speaker.imageBase64 : characterImageBase64;
+  };
+
   // Update a specific segment's text
   const handleUpdateSegmentText = (id: string, field: 'spokenText' | 'gestureDescription', value: string) => {
     // 如果是修改 spokenText，检查长度限制
     if (field === 'spokenText') {
-      const validation = validateTextLength(value);
+      const current = segments.find(seg => seg.id === id);
+      const validation = validateTextLength(value, resolveVoice(cast, current?.speakerId, voiceSettings).voice);
       
-      // 如果超过最大长度，阻止输入
-      if (validation.status === 'too-long') {
+      // 如果超过最大长度，阻止输入；上限随语速校准变小时，已超长的台词仍可以删减
+      if (validation.status === 'too-long' && (!current || validation.count >= getTextUnitCount(current.spokenText).count)) {
         // 不更新 state，保持原值
         console.warn(`[Text Validation] Text too long: ${validation.message}`);
         return;
@@ -301,9 +677,12 @@ export default function App() {
           audioStatus: SegmentStatus.IDLE,
           audioUrl: undefined,
           audioDuration: undefined,
+          timeStretch: undefined,
+          wordTimings: undefined,
           videoStatus: seg.gestureType !== GestureType.NONE ? SegmentStatus.IDLE : SegmentStatus.COMPLETED,
           videoUrl: undefined,
-          videoDuration: undefined
+          videoDuration: undefined,
+          videoReview: undefined
         };
       }
       
@@ -320,6 +699,9 @@ export default function App() {
     
     const MAX_TTS_RETRIES = 3;
     const MAX_DURATION = 8;
+    const voice = resolveVoice(cast, segment.speakerId, voiceSettings);
+    // 与 validateSegmentTiming 相同：用户自带演讲稿或锁定台词时只压缩音频，不改写
+    const canRewrite = inputMode !== 'speech' && !segment.lockText;
     let currentText = segment.spokenText;
     let retryCount = 0;
     let passed = false;
@@ -327,14 +709,23 @@ export default function App() {
     try {
       while (!passed && retryCount <= MAX_TTS_RETRIES) {
         // 生成 TTS 并检查时长
-        const audioUrl = await generateSpeech(currentText);
-        const audioDuration = await getAudioDuration(audioUrl);
+        let { audioUrl, wordTimings } = await generateTimedSpeech(currentText, voice, { segmentId });
+        let audioDuration = await getAudioDuration(audioUrl);
+        let timeStretch: number | undefined;
+        recordSpeechSample(currentText, audioDuration, voice.voice);
         
         console.log(`[Regenerate Audio] ${segmentId}: "${currentText.substring(0, 30)}..." → ${audioDuration.toFixed(2)}s`);
         
-        if (audioDuration <= MAX_DURATION) {
+        // 超时先尝试时间压缩；不能改写时按最大倍率压缩，不再改写
+        if (audioDuration > MAX_DURATION) {
+          const fitted = await fitAudioToWindow(audioUrl, audioDuration, !canRewrite);
+          if (fitted) ({ audioUrl, audioDuration, timeStretch } = fitted);
+        }
+        
+        if (audioDuration <= MAX_DURATION || !canRewrite) {
           // 通过验证，保存音频结果
           console.log(`[Regenerate Audio] ${segmentId} passed validation at ${audioDuration.toFixed(2)}s`);
+          const alignedTimings = await resolveWordTimings(audioUrl, currentText, wordTimings, timeStretch);
           
           setSegments(prev => prev.map(s => 
             s.id === segmentId 
@@ -344,10 +735,13 @@ export default function App() {
                   audioStatus: SegmentStatus.COMPLETED, 
                   audioUrl, 
                   audioDuration,
+                  timeStretch,
+                  wordTimings: alignedTimings,
                   // 如果音频重新生成了，视频也需要重新生成
                   videoStatus: s.gestureType !== GestureType.NONE ? SegmentStatus.IDLE : SegmentStatus.COMPLETED,
                   videoUrl: undefined,
-                  videoDuration: undefined
+                  videoDuration: undefined,
+                  videoReview: undefined
                 } 
               : s
           ));
@@ -370,8 +764,12 @@ export default function App() {
             // 达到最大重试次数，使用最后一次的文本，保存音频
             console.warn(`[Regenerate Audio] ${segmentId} still ${audioDuration.toFixed(2)}s after ${MAX_TTS_RETRIES} retries, proceeding anyway`);
             // 重新生成一次 TTS 以获取最新文本的音频
-            const finalAudioUrl = await generateSpeech(currentText);
-            const finalDuration = await getAudioDuration(finalAudioUrl);
+            const final = await generateTimedSpeech(currentText, voice, { segmentId });
+            const finalDuration = await getAudioDuration(final.audioUrl);
+            recordSpeechSample(currentText, finalDuration, voice.voice);
+            const fitted = await fitAudioToWindow(final.audioUrl, finalDuration, true);
+            const finalAudioUrl = fitted?.audioUrl ?? final.audioUrl;
+            const finalTimings = await resolveWordTimings(finalAudioUrl, currentText, final.wordTimings, fitted?.timeStretch);
             
             setSegments(prev => prev.map(s => 
               s.id === segmentId 
@@ -380,10 +778,13 @@ export default function App() {
                     spokenText: currentText,
                     audioStatus: SegmentStatus.COMPLETED, 
                     audioUrl: finalAudioUrl, 
-                    audioDuration: finalDuration,
+                    audioDuration: fitted?.audioDuration ?? finalDuration,
+                    timeStretch: fitted?.timeStretch,
+                    wordTimings: finalTimings,
                     videoStatus: s.gestureType !== GestureType.NONE ? SegmentStatus.IDLE : SegmentStatus.COMPLETED,
                     videoUrl: undefined,
-                    videoDuration: undefined
+                    videoDuration: undefined,
+                    videoReview: undefined
                   } 
                 : s
             ));
@@ -421,6 +822,90 @@ export default function App() {
     }));
   };
 
+  // 更换段落的说话人：音色和参考图都变了，音频和视频需要重新生成
+  const handleUpdateSpeaker = (id: string, speakerId: string) => {
+    setSegments(prev => prev.map(seg => {
+      if (seg.id !== id || seg.speakerId === speakerId) return seg;
+      if (seg.audioUrl) URL.revokeObjectURL(seg.audioUrl);
+      return {
+        ...seg,
+        speakerId,
+        audioStatus: SegmentStatus.IDLE,
+        audioUrl: undefined,
+        audioDuration: undefined,
+        timeStretch: undefined,
+        wordTimings: undefined,
+        videoStatus: seg.gestureType !== GestureType.NONE ? SegmentStatus.IDLE : SegmentStatus.COMPLETED,
+        videoUrl: undefined,
+        videoDuration: undefined,
+        videoReview: undefined,
+      };
+    }));
+  };
+
+  /**
+   * 更换音色或朗读风格：该角色已生成的音频需要按新音色重新生成（手势视频不受影响）。
+   * memberId 为空时修改单人排练的音色
+   */
+  const handleUpdateVoice = (settings: VoiceSettings, memberId?: string) => {
+    if (memberId) {
+      updateCastMember(memberId, { voice: settings.voice, voiceStyle: settings.style });
+    } else {
+      setVoiceSettings(settings);
+    }
+    setSegments(prev => prev.map(seg => {
+      const speaker = findSpeaker(cast, seg.speakerId);
+      const affected = memberId ? speaker?.id === memberId : !speaker;
+      if (!affected || seg.audioStatus === SegmentStatus.IDLE) return seg;
+      if (seg.audioUrl) URL.revokeObjectURL(seg.audioUrl);
+      return { ...seg, audioStatus: SegmentStatus.IDLE, audioUrl: undefined, audioDuration: undefined, timeStretch: undefined, wordTimings: undefined };
+    }));
+    if (state === 'ready') setState('editing');
+  };
+
+  // 切换"不改动台词"：只影响之后的音频生成，已有音频保持不变
+  const handleToggleLockText = (id: string, lockText: boolean) => {
+    setSegments(prev => prev.map(seg => seg.id === id ? { ...seg, lockText: lockText || undefined } : seg));
+  };
+
+  // 导出音轨、字幕或视频后记录各段在总时间轴上的位置；未参与导出（没有音频）的段落清空
+  const handleSegmentTimeline = (timeline: SegmentTimelineEntry[]) => {
+    const byId = new Map(timeline.map(entry => [entry.id, entry]));
+    setSegments(prev => prev.map(seg => {
+      const entry = byId.get(seg.id);
+      return { ...seg, videoStartTime: entry?.start, videoEndTime: entry?.end };
+    }));
+  };
+
+  // 更换段落对应的幻灯片（不影响音频和视频）
+  const handleUpdateSlide = (id: string, slideIndex: number) => {
+    setSegments(prev => prev.map(seg => seg.id === id ? { ...seg, slideIndex } : seg));
+  };
+
+  /**
+   * 导入 Markdown / 纯文本幻灯片大纲；替换已有大纲时，指向已不存在页面的段落改为最后一页
+   */
+  const handleImportSlides = async (file: File) => {
+    try {
+      const parsed = parseSlideOutline(await file.text());
+      if (parsed.length === 0) throw new Error('no slides found in the outline');
+      console.log(`[Slides] Imported ${parsed.length} slides from ${file.name}`);
+      setSlides(parsed);
+      setSegments(prev => prev.map(seg =>
+        seg.slideIndex && seg.slideIndex > parsed.length ? { ...seg, slideIndex: parsed.length } : seg
+      ));
+      setError(null);
+    } catch (e: any) {
+      console.error('[Slides] Import failed:', e);
+      setError(`Failed to import slides: ${e.message}`);
+    }
+  };
+
+  const handleRemoveSlides = () => {
+    setSlides([]);
+    setSegments(prev => prev.map(({ slideIndex, ...seg }) => seg));
+  };
+
   // Delete a specific segment
   const handleDeleteSegment = (id: string) => {
     setSegments(prev => prev.filter(seg => seg.id !== id));
@@ -435,24 +920,81 @@ export default function App() {
       gestureDescription: undefined,
       audioStatus: SegmentStatus.IDLE,
       videoStatus: SegmentStatus.IDLE,
+      ...(cast.length > 0 ? { speakerId: cast[0].id } : {}),
+      ...(slides.length > 0 ? { slideIndex: segments[segments.length - 1]?.slideIndex ?? slides.length } : {}),
     };
     setSegments(prev => [...prev, newSegment]);
   };
 
 
-  const generateMediaForSegments = async (currentSegments: ScriptSegment[], referenceImage: string | null) => {
-    // 1. Generate Audio (Parallel) - 只为需要生成音频的段落生成
-    // 跳过已经成功生成音频的段落
-    const audioResults: Map<string, { audioUrl: string; audioDuration: number }> = new Map();
-    
-    // 先收集已有的音频信息
-    currentSegments.forEach(seg => {
-      if (seg.audioStatus === SegmentStatus.COMPLETED && seg.audioUrl && seg.audioDuration) {
-        audioResults.set(seg.id, { audioUrl: seg.audioUrl, audioDuration: seg.audioDuration });
+  /**
+   * 生成一段动作视频并交给审查模型检查，不通过时带着修正意见重试。
+   * 重试次数用完仍不通过则采用最后一次生成的视频。
+   */
+  const generateReviewedVideo = async (
+    segment: Pick<ScriptSegment, 'id' | 'spokenText' | 'gestureType' | 'gestureDescription'>,
+    referenceImage: string,
+    personality: string | undefined
+  ): Promise<{ videoUrl: string; videoDuration: number; review?: VideoReviewResult; accepted: boolean }> => {
+    const MAX_VIDEO_REVIEW_RETRIES = 2;
+    const reviewContext: VideoReviewContext = {
+      gestureType: segment.gestureType,
+      spokenText: segment.spokenText,
+      gestureDescription: segment.gestureDescription,
+      scenario: prompt || undefined,
+    };
+
+    let lastVideoUrl = '';
+    let lastVideoDuration = 0;
+    let lastReview: VideoReviewResult | undefined;
+    let pendingFeedback: string | undefined;
+
+    for (let attempt = 0; attempt <= MAX_VIDEO_REVIEW_RETRIES; attempt++) {
+      if (attempt > 0) {
+        console.log(`[App] Re-generating video for ${segment.id} (attempt ${attempt + 1}/${MAX_VIDEO_REVIEW_RETRIES + 1}) with review feedback...`);
       }
-    });
-    
-    // 过滤出需要生成音频的段落
+
+      const result = await generateActionVideo(
+        segment.gestureType as GestureTypeValue,
+        segment.spokenText,
+        segment.gestureDescription,
+        referenceImage,
+        prompt,
+        personality,
+        pendingFeedback,
+        { segmentId: segment.id }
+      );
+
+      console.log(`[App] Video generated for ${segment.id}, URL: ${result.videoUrl.substring(0, 80)}...`);
+      lastVideoUrl = result.videoUrl;
+      lastVideoDuration = await getVideoDuration(result.videoUrl);
+      console.log(`[App] Video duration for ${segment.id}: ${lastVideoDuration}s`);
+
+      try {
+        const review = await reviewVideoContent(result.videoUrl, reviewContext, { segmentId: segment.id });
+        lastReview = review;
+        if (review.passed) {
+          console.log(`[App] Video review PASSED for ${segment.id}`);
+          return { videoUrl: lastVideoUrl, videoDuration: lastVideoDuration, review, accepted: true };
+        }
+        console.warn(`[App] Video review FAILED for ${segment.id}: ${review.summary}`);
+        pendingFeedback = buildReviewFeedback(review);
+      } catch (reviewErr) {
+        console.warn(`[App] Video review error for ${segment.id}, accepting video:`, reviewErr);
+        return { videoUrl: lastVideoUrl, videoDuration: lastVideoDuration, review: lastReview, accepted: true };
+      }
+    }
+
+    console.warn(`[App] Max review retries reached for ${segment.id}, using last generated video`);
+    return { videoUrl: lastVideoUrl, videoDuration: lastVideoDuration, review: lastReview, accepted: false };
+  };
+
+  /**
+   * 为段落生成音频和手势视频。所有调用一次性交给 jobScheduler 排队：
+   * 并发数按能力限制（视频默认同时 1 个），瞬时错误自动重试，用户正在查看的段落优先
+   */
+  const generateMediaForSegments = async (currentSegments: ScriptSegment[], referenceImage: string | null) => {
+    // 1. Generate Audio - 只为需要生成音频的段落生成，跳过已经成功生成音频的段落
     const segmentsNeedingAudio = currentSegments.filter(
       seg => seg.audioStatus !== SegmentStatus.COMPLETED || !seg.audioUrl
     );
@@ -462,18 +1004,18 @@ export default function App() {
     const audioPromises = segmentsNeedingAudio.map(async (seg) => {
       try {
         updateSegmentStatus(seg.id, 'audioStatus', SegmentStatus.GENERATING);
-        const audioUrl = await generateSpeech(seg.spokenText);
+        const voice = resolveVoice(cast, seg.speakerId, voiceSettings);
+        const { audioUrl, wordTimings } = await generateTimedSpeech(seg.spokenText, voice, { segmentId: seg.id });
         
         // 获取音频时长
         const audioDuration = await getAudioDuration(audioUrl);
+        recordSpeechSample(seg.spokenText, audioDuration, voice.voice);
+        const alignedTimings = await resolveWordTimings(audioUrl, seg.spokenText, wordTimings);
         console.log(`[App] Audio for ${seg.id}: ${audioDuration.toFixed(2)}s`);
         
-        // 保存音频结果供视频生成使用
-        audioResults.set(seg.id, { audioUrl, audioDuration });
-        
         setSegments(prev => prev.map(s => 
           s.id === seg.id 
-            ? { ...s, audioStatus: SegmentStatus.COMPLETED, audioUrl, audioDuration } 
+            ? { ...s, audioStatus: SegmentStatus.COMPLETED, audioUrl, audioDuration, wordTimings: alignedTimings } 
             : s
         ));
       } catch (e) {
@@ -482,11 +1024,8 @@ export default function App() {
       }
     });
 
-    await Promise.all(audioPromises);
-
-    // 2. Generate Video (Sequential) - 仅对需要视频的段落生成
-    // 使用音频时长来指定视频时长，确保视频能覆盖整个音频
-    let canGenVideo = referenceImage !== null;
+    // 2. Generate Video - 仅对需要视频的段落生成（视频固定 8 秒，与音频并行排队）
+    let canGenVideo = referenceImage !== null || cast.some(member => member.imageBase64);
     
     // Also check API key
     if (canGenVideo) {
@@ -502,98 +1041,56 @@ export default function App() {
       }
     }
 
-    if (canGenVideo && referenceImage) {
-      // 过滤出需要生成视频的段落：
-      // 1. 非 none 手势类型
-      // 2. 视频状态不是 COMPLETED（跳过已成功生成的）
-      const segmentsNeedingVideo = currentSegments.filter(
-        seg => seg.gestureType !== GestureType.NONE && 
-               seg.videoStatus !== SegmentStatus.COMPLETED
-      );
-      
+    // 过滤出需要生成视频的段落：
+    // 1. 非 none 手势类型
+    // 2. 视频状态不是 COMPLETED（跳过已成功生成的）
+    const segmentsNeedingVideo = canGenVideo
+      ? currentSegments.filter(
+          seg => seg.gestureType !== GestureType.NONE && 
+                 seg.videoStatus !== SegmentStatus.COMPLETED
+        )
+      : [];
+    if (canGenVideo) {
       console.log(`[App] ${segmentsNeedingVideo.length} segments need video generation, ${currentSegments.filter(s => s.videoStatus === SegmentStatus.COMPLETED).length} already have video`);
-      
-      const MAX_VIDEO_REVIEW_RETRIES = 2;
+    }
+    
+    const videoPromises = segmentsNeedingVideo.map(async (seg) => {
+      // 多人对话：使用该段说话人的定妆照和性格
+      const speaker = findSpeaker(cast, seg.speakerId);
+      const segmentImage = speaker ? speaker.imageBase64 : referenceImage;
+      if (!segmentImage) {
+        console.warn(`[App] Skipping video for ${seg.id}: ${speaker?.name ?? 'character'} has no reference image`);
+        return;
+      }
 
-      for (const seg of segmentsNeedingVideo) {
-        try {
-          updateSegmentStatus(seg.id, 'videoStatus', SegmentStatus.GENERATING);
-          
-          const audioInfo = audioResults.get(seg.id);
-          const audioDuration = audioInfo?.audioDuration;
-          console.log(`[App] Segment ${seg.id} audio is ${audioDuration?.toFixed(2) || 'unknown'}s, video will be 8s`);
-
-          const reviewContext: VideoReviewContext = {
-            gestureType: seg.gestureType,
-            spokenText: seg.spokenText,
-            gestureDescription: seg.gestureDescription,
-            scenario: prompt || undefined,
-          };
-          
-          let accepted = false;
-          let lastVideoUrl: string | undefined;
-          let lastVideoDuration: number | undefined;
-          let pendingFeedback: string | undefined;
-
-          for (let attempt = 0; attempt <= MAX_VIDEO_REVIEW_RETRIES; attempt++) {
-            if (attempt > 0) {
-              console.log(`[App] Re-generating video for ${seg.id} (attempt ${attempt + 1}/${MAX_VIDEO_REVIEW_RETRIES + 1}) with review feedback...`);
-            }
-
-            const result = await generateActionVideo(
-              seg.gestureType as GestureTypeValue,
-              seg.spokenText,
-              seg.gestureDescription,
-              referenceImage,
-              prompt,
-              characterPersonality || undefined,
-              pendingFeedback
-            );
-            
-            console.log(`[App] Video generated for ${seg.id}, URL: ${result.videoUrl.substring(0, 80)}...`);
-            lastVideoUrl = result.videoUrl;
-            lastVideoDuration = await getVideoDuration(result.videoUrl);
-            console.log(`[App] Video duration for ${seg.id}: ${lastVideoDuration}s`);
-
-            try {
-              const review = await reviewVideoContent(result.videoUrl, reviewContext);
-              if (review.passed) {
-                console.log(`[App] Video review PASSED for ${seg.id}`);
-                accepted = true;
-                break;
-              } else {
-                console.warn(`[App] Video review FAILED for ${seg.id}: ${review.summary}`);
-                pendingFeedback = buildReviewFeedback(review);
-                if (attempt === MAX_VIDEO_REVIEW_RETRIES) {
-                  console.warn(`[App] Max review retries reached for ${seg.id}, using last generated video`);
-                }
-              }
-            } catch (reviewErr) {
-              console.warn(`[App] Video review error for ${seg.id}, accepting video:`, reviewErr);
-              accepted = true;
-              break;
-            }
-          }
+      try {
+        updateSegmentStatus(seg.id, 'videoStatus', SegmentStatus.GENERATING);
 
-          if (lastVideoUrl) {
-            setSegments(prev => prev.map(s => 
-              s.id === seg.id 
-                ? { 
-                    ...s, 
-                    videoStatus: SegmentStatus.COMPLETED,
-                    videoUrl: lastVideoUrl,
-                    videoDuration: lastVideoDuration 
-                  } 
-                : s
-            ));
-            console.log(`[App] Segment ${seg.id} updated (review ${accepted ? 'passed' : 'used last attempt'})`);
-          }
-        } catch (e) {
-          console.error(`Video gen failed for ${seg.id}`, e);
-          updateSegmentStatus(seg.id, 'videoStatus', SegmentStatus.ERROR);
-        }
+        const video = await generateReviewedVideo(
+          seg,
+          segmentImage,
+          (speaker ? speaker.personality : characterPersonality) || undefined
+        );
+        setSegments(prev => prev.map(s => 
+          s.id === seg.id 
+            ? { 
+                ...s, 
+                videoStatus: SegmentStatus.COMPLETED,
+                videoUrl: video.videoUrl,
+                videoDuration: video.videoDuration,
+                videoReview: video.review,
+                dubbed: undefined
+              } 
+            : s
+        ));
+        console.log(`[App] Segment ${seg.id} updated (review ${video.accepted ? 'passed' : 'used last attempt'})`);
+      } catch (e) {
+        console.error(`Video gen failed for ${seg.id}`, e);
+        updateSegmentStatus(seg.id, 'videoStatus', SegmentStatus.ERROR);
       }
-    }
+    });
+
+    await Promise.all([...audioPromises, ...videoPromises]);
 
     setState('ready');
   };
@@ -652,7 +1149,10 @@ export default function App() {
   // Handle regenerating video for a specific segment
   const handleRegenerateVideo = async (segmentId: string) => {
     const segment = segments.find(s => s.id === segmentId);
-    if (!segment || !characterImageBase64) return;
+    if (!segment) return;
+    const speaker = findSpeaker(cast, segment.speakerId);
+    const referenceImage = referenceImageFor(segment);
+    if (!referenceImage) return;
 
     // 无手势类型不需要生成视频
     if (segment.gestureType === GestureType.NONE) {
@@ -675,74 +1175,202 @@ export default function App() {
     }
 
     updateSegmentStatus(segmentId, 'videoStatus', SegmentStatus.GENERATING);
-    
-    const MAX_VIDEO_REVIEW_RETRIES = 2;
-    const reviewContext: VideoReviewContext = {
-      gestureType: segment.gestureType,
-      spokenText: segment.spokenText,
-      gestureDescription: segment.gestureDescription,
-      scenario: prompt || undefined,
-    };
 
     try {
-      let accepted = false;
-      let lastVideoUrl: string | undefined;
-      let lastVideoDuration: number | undefined;
-      let pendingFeedback: string | undefined;
-
-      for (let attempt = 0; attempt <= MAX_VIDEO_REVIEW_RETRIES; attempt++) {
-        if (attempt > 0) {
-          console.log(`[App] Re-generating video for ${segmentId} (attempt ${attempt + 1}/${MAX_VIDEO_REVIEW_RETRIES + 1}) with review feedback...`);
-        }
+      const video = await generateReviewedVideo(
+        segment,
+        referenceImage,
+        (speaker ? speaker.personality : characterPersonality) || undefined
+      );
+      setSegments(prev => prev.map(s => 
+        s.id === segmentId 
+          ? { 
+              ...s, 
+              videoStatus: SegmentStatus.COMPLETED, 
+              videoUrl: video.videoUrl,
+              videoDuration: video.videoDuration,
+              videoReview: video.review,
+              dubbed: undefined
+            } 
+          : s
+      ));
+    } catch (e) {
+      console.error(`Video regeneration failed for ${segmentId}`, e);
+      updateSegmentStatus(segmentId, 'videoStatus', SegmentStatus.ERROR);
+    }
+  };
 
-        const result = await generateActionVideo(
-          segment.gestureType as GestureTypeValue,
-          segment.spokenText,
-          segment.gestureDescription,
-          characterImageBase64,
-          prompt,
-          characterPersonality || undefined,
-          pendingFeedback
-        );
-        
-        lastVideoUrl = result.videoUrl;
-        lastVideoDuration = await getVideoDuration(result.videoUrl);
+  const updateQaAnswer = (itemId: string, segmentId: string, patch: Partial<ScriptSegment>) => {
+    setQaItems(prev => prev.map(item => 
+      item.id === itemId
+        ? { ...item, answer: item.answer.map(seg => seg.id === segmentId ? { ...seg, ...patch } : seg) }
+        : item
+    ));
+  };
 
-        try {
-          const review = await reviewVideoContent(result.videoUrl, reviewContext);
-          if (review.passed) {
-            console.log(`[App] Video review PASSED for ${segmentId}`);
-            accepted = true;
-            break;
-          } else {
-            console.warn(`[App] Video review FAILED for ${segmentId}: ${review.summary}`);
-            pendingFeedback = buildReviewFeedback(review);
-            if (attempt === MAX_VIDEO_REVIEW_RETRIES) {
-              console.warn(`[App] Max review retries reached for ${segmentId}, using last generated video`);
-            }
+  /**
+   * 观众问答排练：根据场景和当前脚本生成可能的观众提问与参考回答。
+   * 提问用与演讲者不同的音色朗读；参考回答沿用段落 / 手势 / 视频审查流程，由主角色回答。
+   */
+  const handleGenerateQa = async () => {
+    if (qaBusy || segments.length === 0) return;
+    setQaBusy(true);
+    setError(null);
+
+    try {
+      const { response, repairs } = await generateAudienceQuestions(prompt, segments.map(s => s.spokenText));
+      if (repairs.length > 0) {
+        console.warn(`[App] Q&A auto-repaired (${repairs.length}):`, repairs);
+      }
+
+      const runId = Date.now();
+      const items: QaItem[] = response.questions.map((q, qIndex) => ({
+        id: `qa-${qIndex}-${runId}`,
+        question: q.question,
+        questionAudioStatus: SegmentStatus.IDLE,
+        answer: q.answer.map((item, aIndex) => ({
+          id: `qa-${qIndex}-seg-${aIndex}-${runId}`,
+          spokenText: item.spoken_text,
+          gestureType: item.gesture_type as GestureType,
+          gestureDescription: item.gesture_description,
+          audioStatus: SegmentStatus.IDLE,
+          videoStatus: item.gesture_type === 'none' ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+        })),
+      }));
+      setQaItems(items);
+      console.log(`[App] Generated ${items.length} audience questions`);
+
+      // 1. 提问与参考回答的 TTS（并行）
+      const questionVoice = pickQuestionVoice(getSpeechVoices(), cast, voiceSettings.voice);
+      const answerVoice = resolveVoice(cast, cast[0]?.id, voiceSettings);
+      const audioJobs = items.flatMap(item => [
+        (async () => {
+          setQaItems(prev => prev.map(q => q.id === item.id ? { ...q, questionAudioStatus: SegmentStatus.GENERATING } : q));
+          try {
+            const questionAudioUrl = await generateSpeech(item.question, { voice: questionVoice }, { label: 'Question speech' });
+            setQaItems(prev => prev.map(q => q.id === item.id ? { ...q, questionAudioStatus: SegmentStatus.COMPLETED, questionAudioUrl } : q));
+          } catch (e) {
+            console.error(`Question audio failed for ${item.id}`, e);
+            setQaItems(prev => prev.map(q => q.id === item.id ? { ...q, questionAudioStatus: SegmentStatus.ERROR } : q));
+          }
+        })(),
+        ...item.answer.map(async (seg) => {
+          updateQaAnswer(item.id, seg.id, { audioStatus: SegmentStatus.GENERATING });
+          try {
+            const { audioUrl, wordTimings } = await generateTimedSpeech(seg.spokenText, answerVoice, { segmentId: seg.id });
+            const audioDuration = await getAudioDuration(audioUrl);
+            recordSpeechSample(seg.spokenText, audioDuration, answerVoice.voice);
+            const alignedTimings = await resolveWordTimings(audioUrl, seg.spokenText, wordTimings);
+            updateQaAnswer(item.id, seg.id, { audioStatus: SegmentStatus.COMPLETED, audioUrl, audioDuration, wordTimings: alignedTimings });
+          } catch (e) {
+            console.error(`Answer audio failed for ${seg.id}`, e);
+            updateQaAnswer(item.id, seg.id, { audioStatus: SegmentStatus.ERROR });
+          }
+        }),
+      ]);
+      await Promise.all(audioJobs);
+
+      // 2. 参考回答的手势视频（串行），没有定妆照或未选择 API key 时只保留音频
+      const referenceImage = cast[0]?.imageBase64 ?? characterImageBase64;
+      if (!referenceImage) return;
+      try {
+        if (window.aistudio && !(await window.aistudio.hasSelectedApiKey())) return;
+      } catch (e) {
+        return;
+      }
+
+      const personality = (cast[0]?.personality ?? characterPersonality) || undefined;
+      for (const item of items) {
+        for (const seg of item.answer) {
+          if (seg.gestureType === GestureType.NONE) continue;
+          try {
+            updateQaAnswer(item.id, seg.id, { videoStatus: SegmentStatus.GENERATING });
+            const video = await generateReviewedVideo(seg, referenceImage, personality);
+            updateQaAnswer(item.id, seg.id, {
+              videoStatus: SegmentStatus.COMPLETED,
+              videoUrl: video.videoUrl,
+              videoDuration: video.videoDuration,
+              videoReview: video.review,
+            });
+          } catch (e) {
+            console.error(`Answer video failed for ${seg.id}`, e);
+            updateQaAnswer(item.id, seg.id, { videoStatus: SegmentStatus.ERROR });
           }
-        } catch (reviewErr) {
-          console.warn(`[App] Video review error for ${segmentId}, accepting video:`, reviewErr);
-          accepted = true;
-          break;
         }
       }
+    } catch (e: any) {
+      console.error('[App] Q&A generation failed:', e);
+      setError(e.message || 'Failed to generate audience questions.');
+    } finally {
+      setQaBusy(false);
+    }
+  };
 
-      if (lastVideoUrl) {
-        setSegments(prev => prev.map(s => 
-          s.id === segmentId 
-            ? { 
-                ...s, 
-                videoStatus: SegmentStatus.COMPLETED, 
-                videoUrl: lastVideoUrl,
-                videoDuration: lastVideoDuration 
-              } 
-            : s
-        ));
+  /**
+   * 翻译排练：把当前项目复制为目标语言的新项目。手势类型 / 描述、说话人、幻灯片与角色保持不变，
+   * 台词逐段翻译后重新做 TTS 时长验证；手势视频可以沿用（视频静音、播放译文配音）或清空后重新生成。
+   * 原项目保持不变。
+   */
+  const handleTranslateRehearsal = async () => {
+    if (translateBusy || segments.length === 0) return;
+    const { label } = LANGUAGE_PROFILES[translateLanguage];
+    setTranslateBusy(true);
+    setError(null);
+
+    try {
+      const { texts, repairs } = await translateRehearsal(prompt, segments.map(toScriptItem), translateLanguage);
+      await persistCurrentProject();
+
+      const runId = Date.now();
+      const translated: ScriptSegment[] = segments.map((seg, index) => {
+        const reuseVideo = reuseVideosOnTranslate && seg.gestureType !== GestureType.NONE &&
+          seg.videoStatus === SegmentStatus.COMPLETED && !!seg.videoUrl;
+        return {
+          id: `seg-${index}-${runId}`,
+          spokenText: texts[index],
+          gestureType: seg.gestureType,
+          gestureDescription: seg.gestureDescription,
+          audioStatus: SegmentStatus.IDLE,
+          videoStatus: seg.gestureType === GestureType.NONE || reuseVideo ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+          ...(reuseVideo ? { videoUrl: seg.videoUrl, videoDuration: seg.videoDuration, videoReview: seg.videoReview, dubbed: true } : {}),
+          ...(seg.speakerId ? { speakerId: seg.speakerId } : {}),
+          ...(seg.slideIndex ? { slideIndex: seg.slideIndex } : {}),
+        };
+      });
+
+      const now = Date.now();
+      applyProject({
+        ...buildProjectSnapshot(),
+        id: createProjectId(),
+        name: `${getProjectDisplayName({ name: projectName, scenario: prompt })} (${label})`,
+        scriptOptions: { ...scriptOptions, language: translateLanguage },
+        status: 'validating_timing',
+        segments: translated,
+        scriptResponse: scriptResponse && {
+          ...scriptResponse,
+          script: segments.map((seg, index) => ({ ...toScriptItem(seg), spoken_text: texts[index] })),
+        },
+        qa: undefined,
+        createdAt: now,
+        updatedAt: now,
+      });
+      setScriptRepairs(repairs);
+      console.log(`[App] Translated ${translated.length} segments to ${translateLanguage}`);
+
+      // 译文逐段做 TTS 时长验证（超时自动缩短，保持目标语言）
+      let current = translated;
+      for (const [index, segment] of translated.entries()) {
+        const checked = await validateSegmentTiming(segment, index + 1, true, resolveVoice(cast, segment.speakerId, voiceSettings));
+        current = current.map(seg => seg.id === checked.id ? checked : seg);
       }
-    } catch (e) {
-      console.error(`Video regeneration failed for ${segmentId}`, e);
-      updateSegmentStatus(segmentId, 'videoStatus', SegmentStatus.ERROR);
+
+      const complete = current.every(seg => seg.audioStatus === SegmentStatus.COMPLETED && seg.videoStatus === SegmentStatus.COMPLETED);
+      setState(complete ? 'ready' : 'editing');
+    } catch (e: any) {
+      console.error('[App] Translation failed:', e);
+      setError(e.message || 'Failed to translate the rehearsal.');
+    } finally {
+      setTranslateBusy(false);
     }
   };
 
@@ -768,10 +1396,60 @@ export default function App() {
           </h1>
         </div>
 
-        
+        {recordMode !== 'off' && (
+          <div className="flex items-center justify-center space-x-3 text-xs">
+            <span className={`px-2 py-0.5 rounded-full font-bold ${recordMode === 'record' ? 'bg-red-900/50 text-red-400' : 'bg-cyan-900/50 text-cyan-400'}`}>
+              {recordMode === 'record' ? '● RECORDING GEMINI CALLS' : '▶ REPLAY (OFFLINE)'}
+            </span>
+            <button onClick={handleExportFixtures} className="text-gray-400 hover:text-white underline">
+              Export fixtures
+            </button>
+            <button onClick={() => fixtureInputRef.current?.click()} className="text-gray-400 hover:text-white underline">
+              Import fixtures
+            </button>
+            <input
+              ref={fixtureInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImportFixtures(file);
+              }}
+            />
+          </div>
+        )}
+
+        {!showLibrary && (
+          <div className="flex items-center justify-center space-x-3 text-sm">
+            <button
+              onClick={handleOpenLibrary}
+              disabled={!canSwitchProject}
+              title={jobs.active.length > 0 ? 'Wait for running generation jobs to finish' : undefined}
+              className="flex items-center text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <FolderOpen className="w-4 h-4 mr-1" />
+              Projects
+            </button>
+            <span className="text-gray-600">/</span>
+            <span className="text-gray-300 font-medium truncate max-w-md">
+              {getProjectDisplayName({ name: projectName, scenario: prompt })}
+            </span>
+          </div>
+        )}
       </header>
 
-      {/* Main Content Area */}
+      {showLibrary ? (
+        <ProjectLibrary
+          currentProjectId={isRestoring ? null : projectId}
+          onOpen={handleOpenProject}
+          onCreate={handleCreateProject}
+          onDeleted={handleProjectDeleted}
+          onRenamed={handleProjectRenamed}
+        />
+      ) : (
+      /* Main Content Area */
       <main className="w-full grid grid-cols-1 lg:grid-cols-12 gap-8">
         
         {/* Left Column: Input & Script List */}
@@ -779,16 +1457,145 @@ export default function App() {
           
           {/* Input Box */}
           <div className="bg-gray-800 p-6 rounded-2xl border border-gray-700 shadow-xl">
+            <div className="flex bg-gray-900 rounded-lg p-1 mb-3 text-xs font-medium">
+              {([['scenario', 'Describe a scenario'], ['speech', 'Use my own speech']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setInputMode(mode)}
+                  disabled={state !== 'input' && state !== 'ready' && state !== 'editing'}
+                  className={`flex-1 py-1.5 rounded-md transition-colors disabled:cursor-not-allowed ${
+                    inputMode === mode ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-gray-200'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <label className="block text-sm font-medium text-gray-300 mb-2">
-              What do you want to rehearse?
+              {inputMode === 'speech' ? 'Paste the speech you will deliver' : 'What do you want to rehearse?'}
             </label>
             <textarea
               value={prompt}
               onChange={(e) => setPrompt(e.target.value)}
               disabled={state !== 'input' && state !== 'ready' && state !== 'editing'}
-              placeholder="e.g., You are giving a toast at a best friend's wedding, 例如：你在好朋友的婚礼上致祝酒词..."
+              placeholder={inputMode === 'speech'
+                ? "Paste your full speech here. It will be split into segments without changing a word. 粘贴完整演讲稿，台词将原样切分..."
+                : "e.g., You are giving a toast at a best friend's wedding, 例如：你在好朋友的婚礼上致祝酒词..."}
               className="w-full h-32 bg-gray-900 border border-gray-700 rounded-xl p-4 text-white placeholder-gray-500 focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none transition-all disabled:opacity-50"
             />
+
+            {/* 生成选项：目标时长、听众、正式程度、语言、手势密度（自带演讲稿时不适用） */}
+            {inputMode === 'scenario' && (
+              <div className="mt-3">
+                <button
+                  onClick={() => setShowScriptOptions(v => !v)}
+                  className="w-full flex items-center justify-between text-xs text-gray-400 hover:text-gray-200 transition-colors"
+                >
+                  <span className="flex items-center">
+                    <SlidersHorizontal className="w-3 h-3 mr-1.5" />
+                    Generation options
+                    <span className="ml-2 text-gray-500">
+                      {scriptOptions.targetDurationSeconds ? `${scriptOptions.targetDurationSeconds}s` : 'auto length'}
+                      {' · '}{AUDIENCE_OPTIONS.find(([value]) => value === scriptOptions.audience)?.[1]}
+                    </span>
+                  </span>
+                  <ChevronDown className={`w-3 h-3 transition-transform ${showScriptOptions ? 'rotate-180' : ''}`} />
+                </button>
+
+                {showScriptOptions && (
+                  <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+                    <label className="text-gray-500">
+                      Target length (s)
+                      <input
+                        type="number"
+                        min={MIN_TARGET_SECONDS}
+                        max={MAX_TARGET_SECONDS}
+                        step={5}
+                        value={scriptOptions.targetDurationSeconds ?? ''}
+                        placeholder="Auto"
+                        onChange={(e) => setScriptOptions(prev => ({
+                          ...prev,
+                          targetDurationSeconds: e.target.value ? Math.min(MAX_TARGET_SECONDS, Math.max(1, Number(e.target.value))) : null,
+                        }))}
+                        onBlur={() => setScriptOptions(prev => normalizeScriptOptions(prev))}
+                        className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent placeholder-gray-600"
+                      />
+                    </label>
+                    <label className="text-gray-500">
+                      Tolerance (±%)
+                      <input
+                        type="number"
+                        min={5}
+                        max={50}
+                        step={5}
+                        value={Math.round(scriptOptions.durationTolerance * 100)}
+                        disabled={!scriptOptions.targetDurationSeconds}
+                        onChange={(e) => setScriptOptions(prev => normalizeScriptOptions({ ...prev, durationTolerance: Number(e.target.value) / 100 }))}
+                        className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                      />
+                    </label>
+                    {([
+                      ['Audience', 'audience', AUDIENCE_OPTIONS],
+                      ['Formality', 'formality', FORMALITY_OPTIONS],
+                      ['Language', 'language', LANGUAGE_OPTIONS],
+                      ['Gestures', 'gestureDensity', GESTURE_DENSITY_OPTIONS],
+                    ] as const).map(([label, key, options]) => (
+                      <label key={key} className="text-gray-500">
+                        {label}
+                        <select
+                          value={scriptOptions[key]}
+                          onChange={(e) => setScriptOptions(prev => normalizeScriptOptions({ ...prev, [key]: e.target.value }))}
+                          className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                        >
+                          {options.map(([value, optionLabel]) => (
+                            <option key={value} value={value}>{optionLabel}</option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* 幻灯片大纲：生成脚本时按页标注段落，播放和导出时显示在角色左侧 */}
+            <div className="mt-3 flex items-center justify-between text-xs">
+              <span className="flex items-center text-gray-400">
+                <Presentation className="w-3 h-3 mr-1.5" />
+                {slides.length > 0 ? `${slides.length} slides` : 'No slides'}
+                {slides.length > 0 && <span className="ml-2 text-gray-500 truncate max-w-[10rem]">{slides[0].title}</span>}
+              </span>
+              <span className="flex items-center space-x-3">
+                {slides.length > 0 && (
+                  <button
+                    onClick={handleRemoveSlides}
+                    disabled={state !== 'input' && state !== 'ready' && state !== 'editing'}
+                    className="text-gray-500 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Remove
+                  </button>
+                )}
+                <button
+                  onClick={() => slideInputRef.current?.click()}
+                  disabled={state !== 'input' && state !== 'ready' && state !== 'editing'}
+                  className="text-indigo-300 hover:text-indigo-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  title="Import a Markdown or plain-text slide outline"
+                >
+                  {slides.length > 0 ? 'Replace slides' : 'Import slides'}
+                </button>
+              </span>
+              <input
+                ref={slideInputRef}
+                type="file"
+                accept=".md,.markdown,.txt,text/markdown,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportSlides(file);
+                }}
+              />
+            </div>
             
             {error && (
               <div className="mt-3 flex items-center text-red-400 text-sm bg-red-400/10 p-2 rounded-lg">
@@ -797,6 +1604,23 @@ export default function App() {
               </div>
             )}
 
+            {scriptRepairs.length > 0 && (
+              <div className="mt-3 text-amber-300 text-xs bg-amber-400/10 p-2 rounded-lg">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center font-semibold">
+                    <AlertCircle className="w-4 h-4 mr-2" />
+                    Script auto-repaired ({scriptRepairs.length})
+                  </span>
+                  <button onClick={() => setScriptRepairs([])} className="text-amber-300/70 hover:text-amber-200">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <ul className="list-disc list-inside space-y-0.5 text-amber-200/80">
+                  {scriptRepairs.map((repair, i) => <li key={i}>{repair}</li>)}
+                </ul>
+              </div>
+            )}
+
             <button
               onClick={handleGenerateScript}
               disabled={!prompt.trim() || (state !== 'input' && state !== 'ready' && state !== 'editing')}
@@ -804,7 +1628,7 @@ export default function App() {
             >
               {state === 'scripting' ? (
                 <>
-                  <Loader2 className="animate-spin mr-2" /> Scripting...
+                  <Loader2 className="animate-spin mr-2" /> Scripting...{segments.length > 0 && ` (${segments.length} segments)`}
                 </>
               ) : state === 'validating_timing' ? (
                 <>
@@ -824,10 +1648,122 @@ export default function App() {
                 </>
               )}
             </button>
+
+            {/* Project bundle export / import */}
+            <div className="mt-3 grid grid-cols-2 gap-2">
+              <button
+                onClick={handleExportProject}
+                disabled={bundleBusy || segments.length === 0}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 py-2 rounded-lg text-sm font-medium flex items-center justify-center transition-all"
+                title="Export project as a single bundle file"
+              >
+                {bundleBusy ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Download className="w-4 h-4 mr-2" />}
+                Export project
+              </button>
+              <button
+                onClick={() => bundleInputRef.current?.click()}
+                disabled={bundleBusy || !canSwitchProject}
+                className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-gray-200 py-2 rounded-lg text-sm font-medium flex items-center justify-center transition-all"
+                title={jobs.active.length > 0 ? 'Wait for running generation jobs to finish' : 'Import a project bundle'}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import project
+              </button>
+              <input
+                ref={bundleInputRef}
+                type="file"
+                accept={`${BUNDLE_EXTENSION},.zip,application/zip`}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleImportProject(file);
+                }}
+              />
+            </div>
           </div>
 
+          {/* Cast Card (多人对话) - 每个角色的定妆照、外观、性格与音色 */}
+          {cast.length > 0 && (
+            <div className="bg-gray-800 rounded-2xl border border-gray-700 overflow-hidden shadow-xl">
+              <div className="p-4 bg-gray-800/50 border-b border-gray-700 flex items-center space-x-2">
+                <Users className="w-4 h-4 text-indigo-400" />
+                <h3 className="font-semibold text-gray-200">Cast ({cast.length})</h3>
+              </div>
+
+              <div className="p-4 space-y-4">
+                {cast.map((member, index) => (
+                  <div key={member.id} className="flex space-x-3">
+                    <div className="w-24 flex-shrink-0 aspect-[9/16] bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center">
+                      {member.imageStatus === CharacterStatus.GENERATING ? (
+                        <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+                      ) : member.imageBase64 ? (
+                        <img
+                          src={base64ToDataUrl(member.imageBase64)}
+                          alt={member.name}
+                          className="w-full h-full object-contain"
+                        />
+                      ) : member.imageStatus === CharacterStatus.ERROR ? (
+                        <AlertCircle className="w-5 h-5 text-red-400" />
+                      ) : (
+                        <ImageIcon className="w-5 h-5 text-gray-600" />
+                      )}
+                    </div>
+
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold text-gray-200">{member.name}</span>
+                        {member.voice && (
+                          <span className="text-xs text-gray-500 flex items-center">
+                            <Mic className="w-3 h-3 mr-1" />
+                            {member.voice}
+                          </span>
+                        )}
+                      </div>
+                      {state === 'editing' ? (
+                        <>
+                          <textarea
+                            value={member.description}
+                            onChange={(e) => updateCastMember(member.id, { description: e.target.value })}
+                            className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-xs text-gray-300 resize-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            rows={2}
+                          />
+                          <textarea
+                            value={member.personality}
+                            onChange={(e) => updateCastMember(member.id, { personality: e.target.value })}
+                            className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-xs text-gray-300 resize-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                            rows={2}
+                            placeholder="Personality & movement style"
+                          />
+                          <button
+                            onClick={() => regenerateCastImage(member, index === 0)}
+                            disabled={member.imageStatus === CharacterStatus.GENERATING}
+                            className="w-full bg-indigo-600/50 hover:bg-indigo-600 disabled:bg-gray-700 disabled:cursor-not-allowed text-white py-1.5 rounded-lg text-xs font-medium flex items-center justify-center transition-all"
+                          >
+                            <RefreshCw className="w-3 h-3 mr-1" />
+                            Regenerate Image
+                          </button>
+                        </>
+                      ) : (
+                        <p className="text-xs text-gray-400 italic">"{member.description}"</p>
+                      )}
+                      <VoicePicker
+                        value={{ voice: member.voice, style: member.voiceStyle }}
+                        onChange={(settings) => handleUpdateVoice(settings, member.id)}
+                        characterDescription={member.description}
+                        characterPersonality={member.personality}
+                        sampleText={getAuditionText(segments.find(seg => seg.speakerId === member.id)?.spokenText, prompt)}
+                        disabled={state !== 'editing' && state !== 'ready'}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Character Image Card (定妆照) - Editable in editing state */}
-          {(characterStatus !== CharacterStatus.IDLE || characterDescription) && (
+          {cast.length === 0 && (characterStatus !== CharacterStatus.IDLE || characterDescription) && (
             <div className="bg-gray-800 rounded-2xl border border-gray-700 overflow-hidden shadow-xl">
               <div className="p-4 bg-gray-800/50 border-b border-gray-700 flex items-center justify-between">
                 <div className="flex items-center space-x-2">
@@ -907,6 +1843,22 @@ export default function App() {
                   </div>
                 )}
                 
+                {/* Voice - TTS 音色与朗读风格，重新生成音频时沿用 */}
+                <div className="mb-4">
+                  <label className="text-xs text-gray-500 mb-1 block flex items-center">
+                    <Mic className="w-3 h-3 mr-1" />
+                    Voice & Speaking Style
+                  </label>
+                  <VoicePicker
+                    value={voiceSettings}
+                    onChange={(settings) => handleUpdateVoice(settings)}
+                    characterDescription={characterDescription ?? ''}
+                    characterPersonality={characterPersonality ?? ''}
+                    sampleText={getAuditionText(segments[0]?.spokenText, prompt)}
+                    disabled={state !== 'editing' && state !== 'ready'}
+                  />
+                </div>
+
                 {/* Character Image */}
                 <div className="aspect-[9/16] max-h-[400px] bg-gray-900 rounded-xl overflow-hidden flex items-center justify-center">
                   {characterStatus === CharacterStatus.GENERATING ? (
@@ -949,6 +1901,9 @@ export default function App() {
             <div className="bg-gray-800 rounded-2xl border border-gray-700 overflow-hidden shadow-xl">
               <div className="p-4 bg-gray-800/50 border-b border-gray-700 flex items-center justify-between">
                 <h3 className="font-semibold text-gray-200">Scene Breakdown</h3>
+                {jobs.active.length > 0 && (
+                  <JobProgress jobs={jobs} />
+                )}
                 {state === 'editing' && (
                   <span className="text-xs text-amber-400 flex items-center">
                     <Edit3 className="w-3 h-3 mr-1" />
@@ -958,11 +1913,54 @@ export default function App() {
               </div>
               <div className="max-h-[500px] overflow-y-auto p-4 space-y-3">
                 {segments.map((seg, idx) => (
-                  <div key={seg.id} className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50">
+                  <div
+                    key={seg.id}
+                    className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50"
+                    // 用户正在查看的段落的生成任务优先执行
+                    onMouseEnter={() => prioritizeSegment(seg.id)}
+                    onFocusCapture={() => prioritizeSegment(seg.id)}
+                  >
                     <div className="flex justify-between items-start mb-2">
-                      <span className="text-xs font-mono text-gray-500 uppercase">Segment {idx + 1}</span>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-xs font-mono text-gray-500 uppercase">Segment {idx + 1}</span>
+                        {/* 多人对话：说话人 */}
+                        {cast.length > 0 && (state === 'editing' ? (
+                          <select
+                            value={seg.speakerId ?? ''}
+                            onChange={(e) => handleUpdateSpeaker(seg.id, e.target.value)}
+                            className="bg-gray-800 border border-gray-600 rounded-md px-1.5 py-0.5 text-xs text-indigo-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                          >
+                            {cast.map(member => (
+                              <option key={member.id} value={member.id}>{member.name}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span className="text-xs text-indigo-300 bg-indigo-500/10 px-2 py-0.5 rounded-full">
+                            {findSpeaker(cast, seg.speakerId)?.name ?? '—'}
+                          </span>
+                        ))}
+                        {/* 幻灯片：该段落讲解时显示的页面 */}
+                        {slides.length > 0 && (state === 'editing' ? (
+                          <select
+                            value={seg.slideIndex ?? ''}
+                            onChange={(e) => handleUpdateSlide(seg.id, Number(e.target.value))}
+                            className="bg-gray-800 border border-gray-600 rounded-md px-1.5 py-0.5 text-xs text-emerald-300 focus:ring-2 focus:ring-indigo-500 focus:border-transparent max-w-[9rem]"
+                            title="Slide shown during this segment"
+                          >
+                            {seg.slideIndex == null && <option value="">Slide —</option>}
+                            {slides.map(slide => (
+                              <option key={slide.index} value={slide.index}>{slide.index}. {slide.title}</option>
+                            ))}
+                          </select>
+                        ) : seg.slideIndex != null && (
+                          <span className="text-xs text-emerald-300 bg-emerald-500/10 px-2 py-0.5 rounded-full" title={slides.find(slide => slide.index === seg.slideIndex)?.title}>
+                            Slide {seg.slideIndex}
+                          </span>
+                        ))}
+                      </div>
                       <div className="flex items-center space-x-2">
                         <div className="flex space-x-2">
+                          <SegmentJobsBadge jobs={jobs.active.filter(job => job.segmentId === seg.id)} />
                           <StatusBadge type="Audio" status={seg.audioStatus} />
                           <StatusBadge type="Video" status={seg.videoStatus} />
                         </div>
@@ -988,7 +1986,7 @@ export default function App() {
                           </span>
                           {/* 实时字符/单词计数 */}
                           {(() => {
-                            const validation = validateTextLength(seg.spokenText);
+                            const validation = validateTextLength(seg.spokenText, resolveVoice(cast, seg.speakerId, voiceSettings).voice);
                             const colorClass = 
                               validation.status === 'too-short' ? 'text-amber-400' :
                               validation.status === 'too-long' ? 'text-red-400' :
@@ -1006,7 +2004,7 @@ export default function App() {
                           onChange={(e) => handleUpdateSegmentText(seg.id, 'spokenText', e.target.value)}
                           className={`w-full bg-gray-800 border rounded-lg p-2 text-sm text-gray-200 resize-none focus:ring-2 focus:border-transparent ${
                             (() => {
-                              const validation = validateTextLength(seg.spokenText);
+                              const validation = validateTextLength(seg.spokenText, resolveVoice(cast, seg.speakerId, voiceSettings).voice);
                               return validation.status === 'too-long' ? 'border-red-500 focus:ring-red-500' :
                                      validation.status === 'warning' ? 'border-yellow-500 focus:ring-yellow-500' :
                                      validation.status === 'too-short' ? 'border-amber-500 focus:ring-amber-500' :
@@ -1017,7 +2015,7 @@ export default function App() {
                         />
                         {/* 长度提示信息 */}
                         {(() => {
-                          const validation = validateTextLength(seg.spokenText);
+                          const validation = validateTextLength(seg.spokenText, resolveVoice(cast, seg.speakerId, voiceSettings).voice);
                           if (validation.status === 'too-short') {
                             return (
                               <p className="text-xs text-amber-400 mt-1 flex items-center">
@@ -1093,8 +2091,18 @@ export default function App() {
                             {seg.audioDuration && (
                               <div className="text-xs text-gray-400">
                                 当前音频时长: {seg.audioDuration.toFixed(1)}s
+                                {seg.timeStretch && ` (time-stretched ${seg.timeStretch.toFixed(2)}x)`}
                               </div>
                             )}
+                            <label className="flex items-center text-xs text-gray-400 cursor-pointer select-none">
+                              <input
+                                type="checkbox"
+                                checked={!!seg.lockText}
+                                onChange={(e) => handleToggleLockText(seg.id, e.target.checked)}
+                                className="mr-2 accent-indigo-500"
+                              />
+                              Never change my words（超时只压缩语速，不缩短台词）
+                            </label>
                             
                             {/* 生成/重新生成音频按钮 - 始终显示，让用户可以修改文本后重新生成 */}
                             <button
@@ -1126,7 +2134,7 @@ export default function App() {
                              seg.videoStatus !== SegmentStatus.COMPLETED && (
                               <button
                                 onClick={() => handleRegenerateVideo(seg.id)}
-                                disabled={seg.videoStatus === SegmentStatus.GENERATING || !characterImageBase64}
+                                disabled={seg.videoStatus === SegmentStatus.GENERATING || !referenceImageFor(seg)}
                                 className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center transition-all"
                               >
                                 {seg.videoStatus === SegmentStatus.GENERATING ? (
@@ -1160,7 +2168,7 @@ export default function App() {
                          seg.gestureType !== GestureType.NONE && (
                           <button
                             onClick={() => handleRegenerateVideo(seg.id)}
-                            disabled={seg.videoStatus === SegmentStatus.GENERATING || !characterImageBase64}
+                            disabled={seg.videoStatus === SegmentStatus.GENERATING || !referenceImageFor(seg)}
                             className="mt-2 w-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center transition-all"
                           >
                             {seg.videoStatus === SegmentStatus.GENERATING ? (
@@ -1222,6 +2230,47 @@ export default function App() {
                       </p>
                     </div>
                   )}
+                  <button
+                    onClick={handleGenerateQa}
+                    disabled={qaBusy}
+                    className="w-full bg-cyan-700 hover:bg-cyan-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2.5 rounded-xl font-medium flex items-center justify-center transition-all"
+                  >
+                    {qaBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <MessageCircleQuestion className="w-4 h-4 mr-2" />}
+                    {qaBusy ? 'Preparing audience Q&A...' : qaItems.length > 0 ? 'Regenerate Audience Q&A' : 'Generate Audience Q&A'}
+                  </button>
+                  {/* 翻译排练：复制为另一种语言的新项目，保留手势 */}
+                  <div className="p-3 bg-gray-900/50 border border-gray-700 rounded-xl space-y-2">
+                    <div className="flex gap-2">
+                      <select
+                        value={translateLanguage}
+                        onChange={(e) => setTranslateLanguage(e.target.value as LanguageCode)}
+                        disabled={translateBusy}
+                        className="flex-1 bg-gray-800 border border-gray-600 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                      >
+                        {LANGUAGE_CODES.map(code => (
+                          <option key={code} value={code}>{LANGUAGE_PROFILES[code].label}</option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleTranslateRehearsal}
+                        disabled={translateBusy}
+                        className="flex-1 bg-violet-700 hover:bg-violet-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 rounded-lg text-sm font-medium flex items-center justify-center transition-all"
+                      >
+                        {translateBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Languages className="w-4 h-4 mr-2" />}
+                        {translateBusy ? 'Translating...' : 'Translate rehearsal'}
+                      </button>
+                    </div>
+                    <label className="flex items-center text-xs text-gray-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={reuseVideosOnTranslate}
+                        onChange={(e) => setReuseVideosOnTranslate(e.target.checked)}
+                        disabled={translateBusy}
+                        className="mr-2 accent-indigo-500"
+                      />
+                      Reuse gesture videos (muted, dubbed with the new audio)
+                    </label>
+                  </div>
                   <button
                     onClick={() => setState('editing')}
                     className="w-full bg-amber-600 hover:bg-amber-500 text-white py-2.5 rounded-xl font-medium flex items-center justify-center transition-all"
@@ -1239,7 +2288,7 @@ export default function App() {
         {/* Right Column: Player */}
         <div className="lg:col-span-8 flex flex-col">
           {segments.length > 0 ? (
-            <Player segments={segments} characterImage={characterImageBase64} />
+            <Player segments={segments} characterImage={characterImageBase64} cast={cast} qa={qaItems} slides={slides} onSegmentTimeline={handleSegmentTimeline} />
           ) : (
             <div className="flex-1 flex flex-col items-center justify-center bg-gray-800/30 rounded-2xl border-2 border-dashed border-gray-700 min-h-[400px]">
               <div className="bg-gray-800 p-4 rounded-full mb-4">
@@ -1283,6 +2332,7 @@ export default function App() {
         </div>
 
       </main>
+      )}
     </div>
   );
 }
@@ -1309,6 +2359,45 @@ const StatusBadge = ({ type, status }: { type: string, status: SegmentStatus })
   );
 };
 
+// 生成任务队列的整体进度（Scene Breakdown 标题栏）
+const JobProgress = ({ jobs }: { jobs: JobSnapshot }) => {
+  const total = jobs.active.length + jobs.completed + jobs.failed;
+  const running = jobs.active.filter(job => job.state === 'running').length;
+  const retrying = jobs.active.filter(job => job.state === 'retrying').length;
+
+  return (
+    <div className="flex items-center space-x-2 text-xs text-gray-400" title={`${running} running, ${jobs.active.length - running - retrying} queued`}>
+      <div className="w-24 h-1.5 bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${((jobs.completed + jobs.failed) / total) * 100}%` }} />
+      </div>
+      <span>{jobs.completed + jobs.failed}/{total} jobs</span>
+      {retrying > 0 && <span className="text-amber-400">· {retrying} retrying</span>}
+      {jobs.failed > 0 && <span className="text-red-400">· {jobs.failed} failed</span>}
+    </div>
+  );
+};
+
+// 段落在任务队列中的状态：排队中或等待重试（执行中的状态由 StatusBadge 显示）
+const SegmentJobsBadge = ({ jobs }: { jobs: JobInfo[] }) => {
+  const retrying = jobs.find(job => job.state === 'retrying');
+  if (retrying) {
+    return (
+      <span className="text-[10px] px-2 py-0.5 rounded-full flex items-center bg-amber-900/50 text-amber-400 border border-amber-700/50" title={retrying.error}>
+        <RefreshCw className="w-3 h-3 mr-1" />
+        Retry {retrying.attempt + 1}
+      </span>
+    );
+  }
+  if (jobs.length > 0 && jobs.every(job => job.state === 'queued')) {
+    return (
+      <span className="text-[10px] px-2 py-0.5 rounded-full flex items-center bg-gray-700 text-gray-400" title={jobs.map(job => job.label).join(', ')}>
+        Queued
+      </span>
+    );
+  }
+  return null;
+};
+
 const CharacterStatusBadge = ({ status }: { status: CharacterStatus }) => {
   let color = "bg-gray-700 text-gray-400";
   let text = "Pending";
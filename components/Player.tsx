@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ScriptSegment, SegmentStatus, GestureType } from '../types';
-import { Play, Pause, RotateCcw, User, Download, Loader2, Hand, Settings } from 'lucide-react';
-import { base64ToDataUrl } from '../services/geminiService';
+import { ScriptSegment, SegmentStatus, GestureType, CastMember, QaItem, Slide, SegmentTimelineEntry } from '../types';
+import { Play, Pause, RotateCcw, User, Download, Loader2, Hand, Settings, MessageCircleQuestion, Mic, Captions, FileAudio, Layers } from 'lucide-react';
+import { base64ToDataUrl } from '../services/mediaUtils';
+import { findSpeaker } from '../services/cast';
+import { findSlideAt } from '../services/slides';
 import { exportComposedVideo, canExportVideo } from '../services/videoExportService';
 import { getRvcOptionsFromEnv, type RvcOptions } from '../services/rvcService';
+import { findActiveWordIndex, getAudibleWordTimings } from '../services/wordTiming';
+import { downloadSubtitles, type SubtitleFormat } from '../services/subtitles';
+import { getAudioProcessingOptionsFromEnv, processAudioUrl } from '../services/audioProcessing';
+import { audioBufferToWavBlobUrl } from '../services/audioUtils';
+import { AUDIO_CODECS, AUDIO_SAMPLE_RATES, getAudioFileExtension, getAudioOutputFormatFromEnv, type AudioCodec, type AudioOutputFormat } from '../services/audioEncoding';
+import { downloadAudioStems, downloadRehearsalAudio } from '../services/audioExport';
+import SlideView from './SlideView';
 
 // 手势类型标签映射
 const getGestureLabel = (type: GestureType): string => {
@@ -20,6 +29,23 @@ const getGestureLabel = (type: GestureType): string => {
 interface PlayerProps {
   segments: ScriptSegment[];
   characterImage?: string | null; // Base64 character reference image
+  cast?: CastMember[]; // 多人对话的角色表：按段落的说话人切换画面
+  qa?: QaItem[]; // 观众问答：提问 → 用户作答 → 参考回答
+  slides?: Slide[]; // 导入的幻灯片：按段落显示在角色左侧
+  onSegmentTimeline?: (timeline: SegmentTimelineEntry[]) => void; // 导出音轨、字幕或视频后各段在总时间轴上的位置
+}
+
+/** 问答排练的阶段：播放提问 → 等待用户作答 → 播放参考回答 */
+type QaPhase = 'question' | 'your_turn' | 'answer';
+
+const formatElapsed = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/** 响度统一（及静音裁剪）后用于播放的音频 */
+interface PlaybackAudio {
+  url: string;
+  /** 开头裁掉的秒数 */
+  trimStart: number;
 }
 
 interface ExportState {
@@ -28,16 +54,71 @@ interface ExportState {
   progress: number;
 }
 
-const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
+const selectClassName = 'w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+/** 音频输出格式：编码、采样率、声道（"Original" 表示保持原样） */
+const AudioFormatFields: React.FC<{ value: AudioOutputFormat; onChange: (format: AudioOutputFormat) => void }> = ({ value, onChange }) => (
+  <div className="grid grid-cols-3 gap-2">
+    <div>
+      <label className="text-xs text-gray-500 block mb-1">Codec</label>
+      <select
+        value={value.codec}
+        onChange={(e) => onChange({ ...value, codec: e.target.value as AudioCodec })}
+        className={selectClassName}
+      >
+        {AUDIO_CODECS.map(codec => (
+          <option key={codec.value} value={codec.value}>{codec.label}</option>
+        ))}
+      </select>
+    </div>
+    <div>
+      <label className="text-xs text-gray-500 block mb-1">Sample Rate</label>
+      <select
+        value={value.sampleRate ?? ''}
+        onChange={(e) => onChange({ ...value, sampleRate: e.target.value ? Number(e.target.value) : undefined })}
+        className={selectClassName}
+      >
+        <option value="">Original</option>
+        {AUDIO_SAMPLE_RATES.map(rate => (
+          <option key={rate} value={rate}>{rate / 1000} kHz</option>
+        ))}
+      </select>
+    </div>
+    <div>
+      <label className="text-xs text-gray-500 block mb-1">Channels</label>
+      <select
+        value={value.channels ?? ''}
+        onChange={(e) => onChange({ ...value, channels: e.target.value ? (Number(e.target.value) as 1 | 2) : undefined })}
+        className={selectClassName}
+      >
+        <option value="">Original</option>
+        <option value="1">Mono</option>
+        <option value="2">Stereo</option>
+      </select>
+    </div>
+  </div>
+);
+
+const Player: React.FC<PlayerProps> = ({ segments, characterImage, cast = [], qa = [], slides = [], onSegmentTimeline }) => {
   const [currentIndex, setCurrentIndex] = useState<number>(-1);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [mode, setMode] = useState<'script' | 'qa'>('script');
+  const [qaIndex, setQaIndex] = useState(0);
+  const [qaPhase, setQaPhase] = useState<QaPhase | null>(null);
+  const [turnSeconds, setTurnSeconds] = useState(0);
   const [exportState, setExportState] = useState<ExportState>({
     isExporting: false,
     stage: '',
     progress: 0
   });
+  const [segmentTime, setSegmentTime] = useState(0);
+  const [trimOffset, setTrimOffset] = useState(0);
+  const [burnSubtitles, setBurnSubtitles] = useState(false);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  // 处理后的音频按源地址缓存，卸载时释放
+  const playbackAudioRef = useRef(new Map<string, Promise<PlaybackAudio | null>>());
+  const [audioProcessing] = useState(getAudioProcessingOptionsFromEnv);
 
   // RVC configuration state
   const [rvcEnabled, setRvcEnabled] = useState(false);
@@ -46,6 +127,11 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
   const [rvcF0Method, setRvcF0Method] = useState('rmvpe');
   const [rvcIndexRate, setRvcIndexRate] = useState('0.66');
   const [showRvcSettings, setShowRvcSettings] = useState(false);
+  const [rvcInputFormat, setRvcInputFormat] = useState(() => getAudioOutputFormatFromEnv('rvc'));
+
+  // 音轨导出的输出格式
+  const [audioFormat, setAudioFormat] = useState(() => getAudioOutputFormatFromEnv('export'));
+  const [isExportingAudio, setIsExportingAudio] = useState(false);
 
   // Initialize RVC settings from environment variables
   useEffect(() => {
@@ -59,13 +145,23 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
     }
   }, []);
 
+  // 问答模式：只排练提问音频和参考回答音频都已就绪的问题
+  const readyQa = qa.filter(
+    (item) => item.questionAudioStatus === SegmentStatus.COMPLETED &&
+              item.answer.some((s) => s.audioStatus === SegmentStatus.COMPLETED)
+  );
+  const currentQa = mode === 'qa' && qaPhase ? readyQa[qaIndex] ?? null : null;
+
   // Filter only ready segments to avoid errors during playback
-  // 只需要音频完成即可播放，视频可选
-  const readySegments = segments.filter(
+  // 只需要音频完成即可播放，视频可选；问答模式下播放当前问题的参考回答
+  const activeSegments = mode === 'qa' ? (qaPhase === 'answer' && currentQa ? currentQa.answer : []) : segments;
+  const readySegments = activeSegments.filter(
     (s) => s.audioStatus === SegmentStatus.COMPLETED
   );
 
   const currentSegment = currentIndex >= 0 ? readySegments[currentIndex] : null;
+  const karaokeWords = currentSegment ? getAudibleWordTimings(currentSegment) : undefined;
+  const activeWord = karaokeWords ? findActiveWordIndex(karaokeWords, segmentTime + trimOffset) : -1;
 
   // 判断当前段落是否需要视频（非 none 手势类型且视频已完成）
   const hasVideoForSegment = (seg: ScriptSegment | null): boolean => {
@@ -75,10 +171,47 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
            !!seg.videoUrl;
   };
 
+  useEffect(() => {
+    const cache = playbackAudioRef.current;
+    return () => {
+      cache.forEach(entry => entry.then(audio => audio && URL.revokeObjectURL(audio.url)));
+      cache.clear();
+    };
+  }, []);
+
+  /**
+   * 统一响度（TTS 同时裁剪首尾静音）后的播放音频；videoUrl 不为空时处理视频自带的音轨（不裁剪）。
+   * 未开启处理或处理失败时为 null，按原音频播放
+   */
+  const getPlaybackAudio = (audioUrl: string, videoUrl?: string): Promise<PlaybackAudio | null> => {
+    if (!audioProcessing) return Promise.resolve(null);
+    const source = videoUrl ?? audioUrl;
+    let entry = playbackAudioRef.current.get(source);
+    if (!entry) {
+      entry = processAudioUrl(source, audioProcessing, !videoUrl)
+        .then(processed => ({ url: audioBufferToWavBlobUrl(processed.buffer), trimStart: processed.trimStart }))
+        .catch(e => {
+          console.warn('[Player] Audio processing failed, playing original audio:', e);
+          return null;
+        });
+      playbackAudioRef.current.set(source, entry);
+    }
+    return entry;
+  };
+
+  const getSegmentPlaybackAudio = (seg: ScriptSegment): Promise<PlaybackAudio | null> =>
+    getPlaybackAudio(seg.audioUrl!, hasVideoForSegment(seg) && !seg.dubbed ? seg.videoUrl : undefined);
+
+  // 开始播放时预先处理所有段落的音频
+  useEffect(() => {
+    if (isPlaying && audioProcessing) readySegments.forEach(getSegmentPlaybackAudio);
+  }, [isPlaying, mode, qaPhase]);
+
   useEffect(() => {
     if (!isPlaying || !currentSegment) return;
 
     const hasVideo = hasVideoForSegment(currentSegment);
+    let cancelled = false;
     
     // 追踪 TTS 和视频是否都已结束
     let ttsEnded = false;
@@ -91,62 +224,122 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
       }
     };
 
-    // 设置 TTS Audio
-    if (audioRef.current) {
-      audioRef.current.src = currentSegment.audioUrl || '';
+    getSegmentPlaybackAudio(currentSegment).then(processed => {
+      if (cancelled) return;
+      setTrimOffset(processed?.trimStart ?? 0);
+
+      // 设置 TTS Audio：有处理后的音频（TTS 或视频音轨）时播放它，视频静音
+      if (audioRef.current) {
+        audioRef.current.src = processed?.url ?? currentSegment.audioUrl ?? '';
       
-      if (hasVideo) {
-        // 有视频时：TTS静音，但仍然播放用于时间同步
-        audioRef.current.muted = true;
-      } else {
-        // 无视频时：播放TTS声音
-        audioRef.current.muted = false;
-      }
+        if (hasVideo && !currentSegment.dubbed && !processed) {
+          // 有视频时：TTS静音，但仍然播放用于时间同步
+          audioRef.current.muted = true;
+        } else {
+          // 无视频或翻译沿用的视频（音轨是原语言）：播放TTS声音
+          audioRef.current.muted = false;
+        }
       
-      audioRef.current.play().catch(e => console.error("Audio play failed", e));
+        audioRef.current.play().catch(e => console.error("Audio play failed", e));
       
-      // TTS 结束时检查是否可以进入下一段
-      audioRef.current.onended = () => {
-        ttsEnded = true;
-        checkAndProceed();
-      };
-    }
-
-    // Set up Video - 仅对有视频的段落播放
-    if (videoRef.current) {
-      if (hasVideo) {
-        videoRef.current.src = currentSegment.videoUrl!;
-        // 有视频时：使用视频中的声音（更匹配手势动作）
-        videoRef.current.muted = false;
-        videoRef.current.loop = false;
-        videoRef.current.play().catch(e => console.error("Video play failed", e));
-        
-        // 视频结束时检查是否可以进入下一段
-        videoRef.current.onended = () => {
-          videoEnded = true;
+        // TTS 结束时检查是否可以进入下一段
+        audioRef.current.onended = () => {
+          ttsEnded = true;
           checkAndProceed();
         };
-      } else {
-        videoRef.current.src = "";
-        videoRef.current.muted = true;
-        videoRef.current.pause();
-        videoRef.current.onended = null;
       }
-    }
 
+      // Set up Video - 仅对有视频的段落播放
+      if (videoRef.current) {
+        if (hasVideo) {
+          videoRef.current.src = currentSegment.videoUrl!;
+          // 有视频时：使用视频中的声音（更匹配手势动作）；翻译沿用的视频或已单独播放处理后的音轨时静音
+          videoRef.current.muted = !!currentSegment.dubbed || !!processed;
+          videoRef.current.loop = false;
+          videoRef.current.play().catch(e => console.error("Video play failed", e));
+        
+          // 视频结束时检查是否可以进入下一段
+          videoRef.current.onended = () => {
+            videoEnded = true;
+            checkAndProceed();
+          };
+        } else {
+          videoRef.current.src = "";
+          videoRef.current.muted = true;
+          videoRef.current.pause();
+          videoRef.current.onended = null;
+        }
+      }
+    });
+
+    return () => { cancelled = true; };
   }, [currentIndex, isPlaying, currentSegment]);
 
+  // 卡拉 OK 字幕：播放时逐帧读取 TTS 音频进度（有视频时 TTS 静音但仍同步播放）
+  useEffect(() => {
+    if (!isPlaying || !karaokeWords?.length) return;
+    let frame = 0;
+    const tick = () => {
+      setSegmentTime(audioRef.current?.currentTime ?? 0);
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, currentIndex, karaokeWords]);
+
+  // 提问阶段：用提问音色播放问题，结束后轮到用户作答
+  useEffect(() => {
+    if (!isPlaying || qaPhase !== 'question' || !currentQa) return;
+
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.onended = null;
+    }
+    let cancelled = false;
+    const questionAudioUrl = currentQa.questionAudioUrl || '';
+    (questionAudioUrl ? getPlaybackAudio(questionAudioUrl) : Promise.resolve(null)).then(processed => {
+      if (cancelled || !audioRef.current) return;
+      audioRef.current.src = processed?.url ?? questionAudioUrl;
+      audioRef.current.muted = false;
+      audioRef.current.onended = () => setQaPhase('your_turn');
+      audioRef.current.play().catch(e => {
+        console.error("Question audio play failed", e);
+        setQaPhase('your_turn');
+      });
+    });
+    return () => { cancelled = true; };
+  }, [isPlaying, qaPhase, qaIndex, currentQa?.questionAudioUrl]);
+
+  // 用户作答阶段：计时，直到用户点击收听参考回答
+  useEffect(() => {
+    if (!isPlaying || qaPhase !== 'your_turn') return;
+    setTurnSeconds(0);
+    const timer = setInterval(() => setTurnSeconds(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [isPlaying, qaPhase, qaIndex]);
+
+  const handleHearAnswer = () => {
+    setQaPhase('answer');
+    setCurrentIndex(0);
+  };
+
   const handleNext = () => {
     if (currentIndex < readySegments.length - 1) {
       setCurrentIndex(prev => prev + 1);
+    } else if (mode === 'qa' && qaIndex < readyQa.length - 1) {
+      // 参考回答结束，进入下一个问题
+      setCurrentIndex(-1);
+      setQaIndex(prev => prev + 1);
+      setQaPhase('question');
     } else {
       setIsPlaying(false);
       setCurrentIndex(-1); // Reset
+      setQaPhase(null);
     }
   };
 
   const togglePlay = () => {
-    if (readySegments.length === 0) return;
+    if (mode === 'qa' ? readyQa.length === 0 : readySegments.length === 0) return;
 
     if (isPlaying) {
       setIsPlaying(false);
@@ -154,7 +347,12 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
       videoRef.current?.pause();
     } else {
       setIsPlaying(true);
-      if (currentIndex === -1) setCurrentIndex(0);
+      if (mode === 'qa' && !qaPhase) {
+        setQaIndex(0);
+        setQaPhase('question');
+      } else if (mode === 'qa' && qaPhase !== 'answer') {
+        return; // 提问 / 作答阶段由对应的 effect 重新开始
+      } else if (currentIndex === -1) setCurrentIndex(0);
       else audioRef.current?.play();
     }
   };
@@ -162,6 +360,8 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
   const handleReset = () => {
     setIsPlaying(false);
     setCurrentIndex(-1);
+    setQaPhase(null);
+    setQaIndex(0);
     if(audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
@@ -182,6 +382,7 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
       modelName: rvcModelName.trim(),
       f0method: rvcF0Method || 'rmvpe',
       indexRate: rvcIndexRate ? Number(rvcIndexRate) : 0.66,
+      inputFormat: rvcInputFormat,
     };
   };
 
@@ -195,11 +396,12 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
       const rvcOptions = buildRvcOptions();
       console.log('[Export] RVC enabled:', !!rvcOptions, rvcOptions ? `(${rvcOptions.apiUrl}, model=${rvcOptions.modelName})` : '');
 
-      await exportComposedVideo(segments, characterImage, (progress) => {
+      const timeline = await exportComposedVideo(segments, characterImage, (progress) => {
         const stageLabels: Record<string, string> = {
           'preparing': 'Preparing...',
           'loading': `Loading media (${progress.currentSegment}/${progress.totalSegments})...`,
           'rvc': `Unifying voice / RVC (${progress.currentSegment}/${progress.totalSegments})...`,
+          'normalizing': `Normalizing loudness (${progress.currentSegment}/${progress.totalSegments})...`,
           'rendering': `Rendering (${progress.currentSegment}/${progress.totalSegments})...`,
           'encoding': 'Encoding video...',
           'complete': 'Complete!'
@@ -210,7 +412,8 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
           stage: stageLabels[progress.stage] || progress.stage,
           progress: progress.progress
         });
-      }, { rvcOptions });
+      }, { rvcOptions, cast, slides, subtitles: burnSubtitles });
+      onSegmentTimeline?.(timeline);
       
       // Reset after a short delay
       setTimeout(() => {
@@ -223,18 +426,64 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
     }
   };
 
-  const showExportButton = canExportVideo(segments) && characterImage;
+  const handleDownloadSubtitles = async (format: SubtitleFormat) => {
+    try {
+      onSegmentTimeline?.(await downloadSubtitles(segments, format, cast));
+    } catch (error: any) {
+      console.error('Subtitle export failed:', error);
+      alert(`Subtitle export failed: ${error.message}`);
+    }
+  };
+
+  // 整条音轨或分段音轨（stems + manifest）：与导出视频相同的 RVC 和响度处理
+  const handleDownloadAudio = async (kind: 'mix' | 'stems') => {
+    if (isExportingAudio) return;
+    setIsExportingAudio(true);
+    try {
+      const download = kind === 'stems' ? downloadAudioStems : downloadRehearsalAudio;
+      const tracks = await download(segments, audioFormat, { processing: audioProcessing, rvcOptions: buildRvcOptions(), cast });
+      onSegmentTimeline?.(tracks.map(track => ({ id: track.segment.id, start: track.start, end: track.end })));
+    } catch (error: any) {
+      console.error('Audio export failed:', error);
+      alert(`Audio export failed: ${error.message}`);
+    } finally {
+      setIsExportingAudio(false);
+    }
+  };
+
+  const switchMode = (next: 'script' | 'qa') => {
+    if (next === mode) return;
+    handleReset();
+    setMode(next);
+  };
+
+  const audioFormatLabel = [
+    getAudioFileExtension(audioFormat).toUpperCase(),
+    audioFormat.sampleRate && `${audioFormat.sampleRate / 1000} kHz`,
+    audioFormat.channels && (audioFormat.channels === 1 ? 'mono' : 'stereo'),
+  ].filter(Boolean).join(', ');
+
+  const showExportButton = mode === 'script' && canExportVideo(segments) && characterImage;
 
   // Determine what to show in the stage area
   // 对于有视频的段落显示视频，对于无手势段落显示静态图片
   const hasVideo = hasVideoForSegment(currentSegment);
+  // 多人对话时切换到当前说话人的定妆照
+  const currentSpeaker = currentSegment ? findSpeaker(cast, currentSegment.speakerId) : undefined;
+  const stageImage = currentSpeaker?.imageBase64 || characterImage;
   // 无手势或视频未完成时，显示静态角色图片
-  const showStaticImage = !hasVideo && characterImage && isPlaying;
+  const showStaticImage = !hasVideo && stageImage && isPlaying;
+  // 未播放时并排展示所有角色
+  const posterImages = cast.filter(member => member.imageBase64).map(member => member.imageBase64!);
+  // 导入了幻灯片时（问答模式除外）在角色左侧显示当前段落的幻灯片，未播放时显示第一页
+  const currentSlide = mode === 'script' ? findSlideAt(slides, readySegments, Math.max(0, currentIndex)) : undefined;
 
   return (
     <div className="bg-gray-800 rounded-xl overflow-hidden shadow-2xl border border-gray-700">
+      <div className={currentSlide ? 'flex bg-black' : ''}>
+      {currentSlide && <SlideView slide={currentSlide} slideCount={slides.length} />}
       {/* Stage Area - Updated to 9:16 aspect ratio to match character image */}
-      <div className="relative aspect-[9/16] max-h-[600px] bg-black flex items-center justify-center mx-auto">
+      <div className={`relative aspect-[9/16] bg-black flex items-center justify-center ${currentSlide ? 'h-[480px] flex-shrink-0' : 'max-h-[600px] mx-auto'}`}>
         {hasVideo ? (
           // 有视频的段落：播放视频（视频静音，使用TTS音频）
           <video 
@@ -247,11 +496,12 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
           // 无手势或视频未完成的段落：显示静态角色图片
           <div className="relative w-full h-full">
             <img 
-              src={base64ToDataUrl(characterImage)} 
-              alt="Character"
+              src={base64ToDataUrl(stageImage)} 
+              alt={currentSpeaker?.name ?? 'Character'}
               className="w-full h-full object-contain"
             />
             {/* 显示当前段落的手势类型状态 */}
+            {currentSegment && (
             <div className="absolute top-4 left-4 bg-gray-900/80 text-gray-300 text-xs px-3 py-1 rounded-full flex items-center">
               <Hand className="w-3 h-3 mr-1" />
               {currentSegment?.gestureType === GestureType.NONE ? (
@@ -265,21 +515,30 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
                 <span>Audio Only</span>
               )}
             </div>
+            )}
           </div>
         ) : characterImage && !isPlaying ? (
           // Show character image as poster when not playing
           <div className="relative w-full h-full">
-            <img 
-              src={base64ToDataUrl(characterImage)} 
-              alt="Character"
-              className="w-full h-full object-contain opacity-60"
-            />
+            {posterImages.length > 1 ? (
+              <div className="flex w-full h-full opacity-60">
+                {posterImages.map((image, i) => (
+                  <img key={i} src={base64ToDataUrl(image)} alt="Cast member" className="flex-1 min-w-0 object-contain" />
+                ))}
+              </div>
+            ) : (
+              <img 
+                src={base64ToDataUrl(characterImage)} 
+                alt="Character"
+                className="w-full h-full object-contain opacity-60"
+              />
+            )}
             <div className="absolute inset-0 flex items-center justify-center">
               <div className="text-center">
                 <div className="bg-indigo-600/80 p-4 rounded-full mb-3 inline-block">
                   <Play className="w-8 h-8 text-white" />
                 </div>
-                <p className="text-white font-semibold">Press Play to Start Rehearsal</p>
+                <p className="text-white font-semibold">{mode === 'qa' ? 'Press Play to Start Q&A' : 'Press Play to Start Rehearsal'}</p>
               </div>
             </div>
           </div>
@@ -296,12 +555,48 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
           </div>
         )}
 
+        {/* 问答排练：提问与用户作答阶段的字幕 */}
+        {currentQa && qaPhase !== 'answer' && (
+          <div className="absolute bottom-8 left-0 right-0 text-center px-4">
+            <div className="inline-block bg-black/70 backdrop-blur-sm px-6 py-3 rounded-lg border border-cyan-400/30 max-w-full">
+              <p className="text-xs text-cyan-300 font-bold mb-1 flex items-center justify-center">
+                <MessageCircleQuestion className="w-3 h-3 mr-1" />
+                Audience question {qaIndex + 1} / {readyQa.length}
+              </p>
+              <p className="text-lg md:text-xl font-semibold text-white mb-1">
+                "{currentQa.question}"
+              </p>
+              {qaPhase === 'your_turn' && (
+                <div className="mt-3 flex items-center justify-center space-x-3">
+                  <span className="text-amber-300 text-sm font-bold flex items-center">
+                    <Mic className="w-4 h-4 mr-1" />
+                    Your turn · {formatElapsed(turnSeconds)}
+                  </span>
+                  <button
+                    onClick={handleHearAnswer}
+                    className="bg-cyan-600 hover:bg-cyan-500 text-white text-sm px-4 py-1.5 rounded-full font-semibold transition-colors"
+                  >
+                    Hear model answer
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Overlay Text - Subtitles style */}
         {currentSegment && (
           <div className="absolute bottom-8 left-0 right-0 text-center px-4">
             <div className="inline-block bg-black/70 backdrop-blur-sm px-6 py-3 rounded-lg border border-white/10 max-w-full">
+              {currentSpeaker && (
+                <p className="text-xs text-amber-300 font-bold mb-1">{currentSpeaker.name}</p>
+              )}
               <p className="text-lg md:text-xl font-semibold text-white mb-1">
-                "{currentSegment.spokenText}"
+                "{karaokeWords?.length ? karaokeWords.map((word, i) => (
+                  <span key={i} className={i < activeWord ? 'text-white' : i === activeWord ? 'text-amber-300' : 'text-gray-400'}>
+                    {word.text}
+                  </span>
+                )) : currentSegment.spokenText}"
               </p>
               <p className="text-xs text-indigo-300 uppercase tracking-wider font-bold">
                 {getGestureLabel(currentSegment.gestureType)}
@@ -311,6 +606,7 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
           </div>
         )}
       </div>
+      </div>
 
       {/* Hidden Audio Element */}
       <audio ref={audioRef} className="hidden" />
@@ -320,11 +616,11 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
         <div className="flex items-center space-x-4">
           <button 
             onClick={togglePlay}
-            disabled={readySegments.length === 0}
+            disabled={mode === 'qa' ? readyQa.length === 0 : readySegments.length === 0}
             className="flex items-center space-x-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-2 rounded-full font-semibold transition-colors"
           >
             {isPlaying ? <Pause size={20} /> : <Play size={20} />}
-            <span>{isPlaying ? 'Pause' : 'Start Rehearsal'}</span>
+            <span>{isPlaying ? 'Pause' : mode === 'qa' ? 'Start Q&A' : 'Start Rehearsal'}</span>
           </button>
           <button 
             onClick={handleReset}
@@ -341,7 +637,7 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
                 onClick={handleExport}
                 disabled={exportState.isExporting}
                 className="flex items-center space-x-2 bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-800 disabled:cursor-not-allowed text-white px-4 py-2 rounded-full font-semibold transition-colors"
-                title={rvcEnabled && rvcApiUrl && rvcModelName ? 'Export video with RVC voice unification' : 'Export video (no subtitles)'}
+                title={`Export video${rvcEnabled && rvcApiUrl && rvcModelName ? ' with RVC voice unification' : ''}${burnSubtitles ? ' and burned-in subtitles' : ' (no subtitles)'}`}
               >
                 {exportState.isExporting ? (
                   <>
@@ -359,10 +655,50 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
               <button
                 onClick={() => setShowRvcSettings(v => !v)}
                 className={`p-2 rounded-full transition-colors ${showRvcSettings ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
-                title="RVC Voice Conversion Settings"
+                title="RVC & Audio Output Settings"
               >
                 <Settings size={18} />
               </button>
+              {/* 字幕：烧录到导出视频，或下载 SRT / WebVTT */}
+              <button
+                onClick={() => setBurnSubtitles(v => !v)}
+                disabled={exportState.isExporting}
+                className={`p-2 rounded-full transition-colors ${burnSubtitles ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white hover:bg-gray-700'}`}
+                title={burnSubtitles ? 'Burn subtitles into export: ON' : 'Burn subtitles into export: OFF'}
+              >
+                <Captions size={18} />
+              </button>
+              {(['srt', 'vtt'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleDownloadSubtitles(format)}
+                  className="text-xs font-semibold text-gray-400 hover:text-white hover:bg-gray-700 px-2 py-1 rounded-full transition-colors uppercase"
+                  title={`Download ${format.toUpperCase()} subtitles`}
+                >
+                  {format}
+                </button>
+              ))}
+              {/* 音轨：按 Audio Output 设置的格式下载整条音轨，或每段一个文件 + 时间轴 manifest */}
+              {isExportingAudio ? (
+                <Loader2 size={18} className="animate-spin text-gray-400 mx-2" />
+              ) : (
+                <>
+                  <button
+                    onClick={() => handleDownloadAudio('mix')}
+                    className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                    title={`Download audio track (${audioFormatLabel})`}
+                  >
+                    <FileAudio size={18} />
+                  </button>
+                  <button
+                    onClick={() => handleDownloadAudio('stems')}
+                    className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                    title={`Download per-segment audio stems with timing manifest (${audioFormatLabel}, ZIP)`}
+                  >
+                    <Layers size={18} />
+                  </button>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -379,8 +715,23 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
               <span className="text-xs text-gray-400">{Math.round(exportState.progress)}%</span>
             </div>
           )}
+          {qa.length > 0 && (
+            <div className="flex bg-gray-900 rounded-full p-0.5 text-xs">
+              {(['script', 'qa'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => switchMode(option)}
+                  className={`px-3 py-1 rounded-full font-semibold transition-colors ${mode === option ? 'bg-indigo-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                >
+                  {option === 'script' ? 'Script' : `Q&A (${readyQa.length})`}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="text-gray-400 text-sm">
-            {currentIndex >= 0 ? `Segment ${currentIndex + 1} / ${readySegments.length}` : 'Ready'}
+            {mode === 'qa' && qaPhase
+              ? `Question ${qaIndex + 1} / ${readyQa.length}`
+              : currentIndex >= 0 ? `Segment ${currentIndex + 1} / ${readySegments.length}` : 'Ready'}
           </div>
         </div>
       </div>
@@ -456,6 +807,10 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
                   />
                 </div>
               </div>
+              <div>
+                <span className="text-xs text-gray-400 block mb-1">Input Format (sent to RVC)</span>
+                <AudioFormatFields value={rvcInputFormat} onChange={setRvcInputFormat} />
+              </div>
               {rvcEnabled && (!rvcApiUrl.trim() || !rvcModelName.trim()) && (
                 <p className="text-xs text-amber-400">Please fill in both API URL and Model Name to enable RVC during export.</p>
               )}
@@ -464,6 +819,17 @@ const Player: React.FC<PlayerProps> = ({ segments, characterImage }) => {
               )}
             </div>
           )}
+
+          <div className="pt-3 border-t border-gray-700 space-y-2">
+            <div className="flex items-center space-x-2">
+              <FileAudio className="w-4 h-4 text-indigo-400" />
+              <span className="text-sm font-semibold text-gray-200">Audio Output</span>
+            </div>
+            <AudioFormatFields value={audioFormat} onChange={setAudioFormat} />
+            {audioFormat.codec === 'opus' && (
+              <p className="text-xs text-gray-500">Opus is encoded at 48 kHz in an Ogg container and needs a browser with WebCodecs.</p>
+            )}
+          </div>
         </div>
       )}
     </div>
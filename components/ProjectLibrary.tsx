@@ -0,0 +1,243 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Search, Copy, Trash2, Edit3, Check, X, User, Loader2, FolderOpen, Mic, Video, Users } from 'lucide-react';
+import { ProjectSummary } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  /** 删除了当前打开的项目时通知上层重置编辑器 */
+  onDeleted: (id: string) => void;
+  /** 重命名后通知上层同步当前项目名称，避免自动保存覆盖 */
+  onRenamed: (id: string, name: string) => void;
+}
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ currentProjectId, onOpen, onCreate, onDeleted, onRenamed }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error('[Library] Failed to list projects:', e);
+      setError('Failed to load projects.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (e: any) {
+      console.error('[Library] Action failed:', e);
+      setError(e.message || 'Action failed.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRename = (id: string) =>
+    runAction(id, async () => {
+      await renameProject(id, renameValue);
+      onRenamed(id, renameValue);
+      setRenamingId(null);
+    });
+
+  const handleDuplicate = (id: string, keepCharacter: boolean) =>
+    runAction(id, async () => {
+      await duplicateProject(id, { keepCharacter });
+    });
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    runAction(project.id, async () => {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    });
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const filtered = normalizedQuery
+    ? projects.filter(
+        (p) => p.name.toLowerCase().includes(normalizedQuery) || p.scenario.toLowerCase().includes(normalizedQuery)
+      )
+    : projects;
+
+  return (
+    <div className="w-full bg-gray-800 rounded-2xl border border-gray-700 shadow-xl overflow-hidden">
+      <div className="p-4 bg-gray-800/50 border-b border-gray-700 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <FolderOpen className="w-5 h-5 text-indigo-400" />
+          <h2 className="font-semibold text-gray-200 text-lg">Project Library</h2>
+          <span className="text-xs text-gray-500">({projects.length})</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search projects..."
+              className="bg-gray-900 border border-gray-600 rounded-lg pl-9 pr-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-indigo-500 focus:border-transparent placeholder-gray-600"
+            />
+          </div>
+          <button
+            onClick={onCreate}
+            className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded-lg text-sm font-semibold flex items-center transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New Project
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-4 text-red-400 text-sm bg-red-400/10 p-2 rounded-lg">{error}</div>
+      )}
+
+      <div className="p-4">
+        {loading ? (
+          <div className="text-center text-gray-500 py-12">
+            <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2" />
+            <p className="text-sm">Loading projects...</p>
+          </div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center text-gray-500 py-12">
+            <p className="font-medium">{projects.length === 0 ? 'No rehearsals yet.' : 'No projects match your search.'}</p>
+            {projects.length === 0 && <p className="text-sm mt-1 text-gray-600">Create a new project to get started.</p>}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {filtered.map((project) => (
+              <div
+                key={project.id}
+                className={`bg-gray-900/50 rounded-xl border overflow-hidden flex ${
+                  project.id === currentProjectId ? 'border-indigo-500' : 'border-gray-700/50'
+                }`}
+              >
+                {/* Thumbnail */}
+                <button
+                  onClick={() => onOpen(project.id)}
+                  className="w-24 shrink-0 bg-gray-900 flex items-center justify-center hover:opacity-80 transition-opacity"
+                  title="Open project"
+                >
+                  {project.thumbnail ? (
+                    <img src={project.thumbnail} alt="Character" className="w-full h-full object-cover" />
+                  ) : (
+                    <User className="w-8 h-8 text-gray-700" />
+                  )}
+                </button>
+
+                <div className="flex-1 min-w-0 p-3 flex flex-col">
+                  {renamingId === project.id ? (
+                    <div className="flex items-center space-x-1 mb-1">
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(project.id);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded px-2 py-1 text-sm text-gray-200"
+                      />
+                      <button onClick={() => handleRename(project.id)} className="p-1 text-green-400 hover:text-green-300">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setRenamingId(null)} className="p-1 text-gray-400 hover:text-white">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => onOpen(project.id)}
+                      className="text-left font-semibold text-gray-200 hover:text-indigo-300 truncate mb-1"
+                      title={project.scenario}
+                    >
+                      {project.name}
+                    </button>
+                  )}
+
+                  <p className="text-xs text-gray-500 mb-2">
+                    {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+
+                  {/* Completion summary */}
+                  <div className="flex items-center space-x-3 text-xs text-gray-400 mb-2">
+                    <span>{project.segmentCount} segments</span>
+                    <span className="flex items-center">
+                      <Mic className="w-3 h-3 mr-1" />
+                      {project.audioCompleted}/{project.segmentCount}
+                    </span>
+                    <span className="flex items-center">
+                      <Video className="w-3 h-3 mr-1" />
+                      {project.videoCompleted}/{project.videoRequired}
+                    </span>
+                  </div>
+
+                  <div className="mt-auto flex items-center space-x-1">
+                    {busyId === project.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => {
+                            setRenamingId(project.id);
+                            setRenameValue(project.name);
+                          }}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-all"
+                          title="Rename"
+                        >
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDuplicate(project.id, true)}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-all"
+                          title="Duplicate"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDuplicate(project.id, false)}
+                          className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-lg transition-all"
+                          title="Duplicate with a new character (same script)"
+                        >
+                          <Users className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(project)}
+                          className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-900/20 rounded-lg transition-all"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Slide } from '../types';
+
+interface SlideViewProps {
+  slide: Slide;
+  slideCount: number;
+}
+
+/**
+ * 播放器舞台左侧的幻灯片：16:9 卡片，显示标题、要点和页码（与导出画面的布局一致）
+ */
+const SlideView: React.FC<SlideViewProps> = ({ slide, slideCount }) => (
+  <div className="flex-1 min-w-0 flex items-center justify-center p-4 bg-gray-900">
+    <div className="relative w-full aspect-video bg-gray-50 rounded-md shadow-lg overflow-hidden border-t-4 border-indigo-600 p-[6%]">
+      <h4 className="text-gray-900 font-bold text-lg md:text-2xl leading-tight line-clamp-2">{slide.title}</h4>
+      <ul className="mt-3 space-y-1.5 text-gray-700 text-xs md:text-sm overflow-hidden">
+        {slide.bullets.map((bullet, i) => (
+          <li key={i} className="flex">
+            <span className="mr-2">•</span>
+            <span>{bullet}</span>
+          </li>
+        ))}
+      </ul>
+      <span className="absolute bottom-2 right-3 text-[10px] text-gray-400">
+        {slide.index} / {slideCount}
+      </span>
+    </div>
+  </div>
+);
+
+export default SlideView;
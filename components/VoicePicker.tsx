@@ -0,0 +1,146 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { Loader2, Mic, Play, Sparkles, Square } from 'lucide-react';
+import { VoiceSettings } from '../types';
+import { generateSpeech, getSpeechVoices, getSpeechVoiceTraits, suggestCharacterVoice } from '../services/capabilities';
+import { VOICE_STYLE_PRESETS } from '../services/voices';
+
+interface VoicePickerProps {
+  value: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  /** 音色推荐依据的角色外观与性格 */
+  characterDescription: string;
+  characterPersonality: string;
+  /** 试听时朗读的台词 */
+  sampleText: string;
+  disabled?: boolean;
+}
+
+/**
+ * 角色音色选择：音色下拉（附音色特点）、朗读风格、试听，以及根据角色描述推荐音色
+ */
+const VoicePicker: React.FC<VoicePickerProps> = ({ value, onChange, characterDescription, characterPersonality, sampleText, disabled }) => {
+  const voices = getSpeechVoices();
+  const traits = getSpeechVoiceTraits();
+  const styleListId = useId();
+  const [auditioning, setAuditioning] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [suggesting, setSuggesting] = useState(false);
+  const [note, setNote] = useState<{ text: string; error: boolean } | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const stopAudition = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.pause();
+    URL.revokeObjectURL(audio.src);
+    audioRef.current = null;
+    setPlaying(false);
+  };
+
+  useEffect(() => stopAudition, []);
+
+  const handleAudition = async () => {
+    if (playing) {
+      stopAudition();
+      return;
+    }
+    setAuditioning(true);
+    setNote(null);
+    try {
+      // 用户在等待试听，排在批量生成的任务之前
+      const url = await generateSpeech(sampleText, value, { label: 'Voice audition', priority: 10 });
+      const audio = new Audio(url);
+      audioRef.current = audio;
+      audio.onended = stopAudition;
+      setPlaying(true);
+      await audio.play();
+    } catch (e: any) {
+      console.error('[Voice] Audition failed:', e);
+      stopAudition();
+      setNote({ text: e.message || 'Audition failed', error: true });
+    } finally {
+      setAuditioning(false);
+    }
+  };
+
+  const handleSuggest = async () => {
+    setSuggesting(true);
+    setNote(null);
+    try {
+      const { settings, reason } = await suggestCharacterVoice(characterDescription, characterPersonality);
+      onChange(settings);
+      setNote(reason ? { text: reason, error: false } : null);
+    } catch (e: any) {
+      console.error('[Voice] Suggestion failed:', e);
+      setNote({ text: e.message || 'Voice suggestion failed', error: true });
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const busy = disabled || suggesting;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {voices.length > 0 && (
+          <select
+            value={value.voice ?? voices[0]}
+            onChange={(e) => onChange({ ...value, voice: e.target.value })}
+            disabled={busy}
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+            title="Voice"
+          >
+            {voices.map(voice => (
+              <option key={voice} value={voice}>
+                {traits[voice] ? `${voice} — ${traits[voice]}` : voice}
+              </option>
+            ))}
+          </select>
+        )}
+        <input
+          list={styleListId}
+          value={value.style ?? ''}
+          onChange={(e) => onChange({ ...value, style: e.target.value || undefined })}
+          disabled={busy}
+          placeholder="Style, e.g. calmly"
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-600 rounded-lg px-2 py-1.5 text-xs text-gray-300 focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+          title="Speaking style"
+        />
+        <datalist id={styleListId}>
+          {VOICE_STYLE_PRESETS.filter(([style]) => style).map(([style, label]) => (
+            <option key={style} value={style}>{label}</option>
+          ))}
+        </datalist>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={handleAudition}
+          disabled={auditioning || !sampleText.trim()}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1.5 rounded-lg text-xs font-medium flex items-center justify-center transition-all"
+        >
+          {auditioning ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : playing ? <Square className="w-3 h-3 mr-1" /> : <Play className="w-3 h-3 mr-1" />}
+          {playing ? 'Stop' : 'Audition'}
+        </button>
+        {voices.length > 0 && (
+          <button
+            onClick={handleSuggest}
+            disabled={busy || !characterDescription.trim()}
+            className="flex-1 bg-indigo-600/50 hover:bg-indigo-600 disabled:opacity-50 disabled:cursor-not-allowed text-white py-1.5 rounded-lg text-xs font-medium flex items-center justify-center transition-all"
+          >
+            {suggesting ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Sparkles className="w-3 h-3 mr-1" />}
+            Suggest voice
+          </button>
+        )}
+      </div>
+      {note && (
+        <p className={`text-xs flex items-start ${note.error ? 'text-red-400' : 'text-gray-500'}`}>
+          <Mic className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+          {note.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VoicePicker;
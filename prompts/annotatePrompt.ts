@@ -0,0 +1,40 @@
+/**
+ * 演讲稿标注 Prompt
+ * 用于 annotateRehearsalScript 函数
+ *
+ * "使用自己的演讲稿" 模式：台词已经由用户提供并切分好，
+ * 模型只为每个段落分配手势类型 / 手势描述，并给出角色外观与性格，不改动任何台词
+ */
+
+/**
+ * 生成演讲稿标注的 prompt
+ * @param segments - 已切分好的台词段落
+ * @returns 完整的 prompt 字符串
+ */
+export const getAnnotatePrompt = (segments: string[]): string => `
+You are an expert presentation coach and director specializing in gesture analysis.
+The user will deliver the following speech word for word. It has already been split into numbered segments:
+
+${segments.map((text, index) => `[${index}] ${text}`).join('\n')}
+
+**DO NOT rewrite, translate, merge or split the segments.** The spoken text is fixed.
+Your only job is to annotate each segment (by its index) with the most appropriate gesture:
+
+**Gesture Categories:**
+- "none": No gesture needed - speaker maintains neutral posture (use sparingly, only for pauses or transitions)
+- "beat": Beat gesture - natural rhythmic movements that accompany speech using full body (most common, use for general speaking)
+- "deictic": Deictic/Pointing gesture - directing attention to something specific through body orientation and spatial reference (use when referring to directions, locations, or specific items)
+- "iconic": Iconic gesture - physically embodying or representing the essence of something concrete (use when describing physical objects, sizes, movements, actions)
+- "metaphoric": Metaphoric gesture - physically manifesting abstract concepts through expressive full-body language (use when emphasizing key concepts, abstract ideas, emotions)
+
+**Important Guidelines:**
+- Most segments should use "beat" (natural speaking rhythm)
+- Provide 'gesture_description' ONLY for "deictic", "iconic" and "metaphoric" segments, describing the full-body action
+- Return exactly one annotation per segment, with 'index' matching the segment number
+
+Additionally, infer from the speech:
+- 'character_description': Describes the speaker's appearance suited to this occasion (brief, e.g., "A confident woman in a navy blazer with shoulder-length dark hair")
+- 'character_personality': Describes the character's personality, movement style, energy level, and behavioral traits that should guide VIVID and EXPRESSIVE full-body movements
+
+Return a JSON object with 'annotations' array, 'character_description' string, and 'character_personality' string.
+`;
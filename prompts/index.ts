@@ -4,8 +4,15 @@
  * 导出所有 prompt 生成函数，方便统一导入
  */
 
-export { getScriptPrompt } from './scriptPrompt';
+export { getScriptPrompt, getScriptStyleGuidance, getSlideGuidance, getSegmentLengthRules, formatLengthRange } from './scriptPrompt';
+export { getScriptFixPrompt } from './scriptFixPrompt';
+export { getScriptExtendPrompt } from './scriptExtendPrompt';
+export { getAnnotatePrompt } from './annotatePrompt';
+export { getTranslatePrompt } from './translatePrompt';
+export { getQaPrompt } from './qaPrompt';
 export { getImagePrompt } from './imagePrompt';
+export { getShortenPrompt } from './shortenPrompt';
+export { getVoiceSuggestionPrompt } from './voicePrompt';
 export { getVideoPrompt, type VideoPromptParams, type GestureTypeValue } from './videoPrompt';
 export { getVideoReviewPrompt } from './videoReviewPrompt';
 
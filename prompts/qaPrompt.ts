@@ -0,0 +1,37 @@
+/**
+ * 观众问答 Prompt
+ * 用于 generateAudienceQuestions 函数
+ *
+ * 根据排练场景和已生成的台词，预测观众最可能提出的问题，
+ * 并为每个问题写一段分段、带手势标注的参考回答
+ */
+
+import { formatLengthRange } from './scriptPrompt';
+import { detectLanguage } from '../services/language';
+
+/**
+ * 生成观众问答的 prompt
+ * @param scenario - 用户描述的排练场景
+ * @param scriptLines - 已生成的台词（按段落顺序）
+ * @param count - 问题数量
+ * @returns 完整的 prompt 字符串
+ */
+export const getQaPrompt = (scenario: string, scriptLines: string[], count: number): string => `
+You are an expert presentation coach preparing a speaker for the audience Q&A after their talk.
+The scenario is: "${scenario}".
+
+The speaker just delivered this script:
+${scriptLines.map((line, index) => `${index + 1}. ${line}`).join('\n')}
+
+Predict the ${count} questions the audience is most likely to ask — include at least one challenging or skeptical question.
+Write each question in the same language as the script, as a real audience member would phrase it (one or two sentences).
+
+For each question, write a strong model answer the speaker could give, broken into 1-3 segments in the same format as the script:
+- 'spoken_text': ONE short sentence that can be spoken in 4-7 seconds (${formatLengthRange(detectLanguage(scriptLines.join(' ')))})
+- 'gesture_type': One of "none", "beat", "deictic", "iconic", "metaphoric" (mostly "beat")
+- 'gesture_description': ONLY for "deictic", "iconic" and "metaphoric" — a HIGH-LEVEL description of the desired effect or feeling, not specific limb movements
+
+Answers should be concise, confident and consistent with the script.
+
+Return a JSON object with a 'questions' array; each item has a 'question' string and an 'answer' array of segments.
+`;
@@ -0,0 +1,53 @@
+/**
+ * 脚本补写 Prompt
+ * 用于 extendRehearsalScript 函数
+ *
+ * 生成并完成 TTS 时长验证后总时长明显短于目标时，
+ * 让模型补写若干段落，插入在结尾段落之前
+ */
+
+import type { GeminiScriptResponse, ScriptOptions } from '../types';
+import { formatLengthRange, getScriptStyleGuidance } from './scriptPrompt';
+import { detectLanguage } from '../services/language';
+
+const formatItem = (item: GeminiScriptResponse['script'][number], index: number): string =>
+  `${index + 1}.${item.slide_index ? ` [slide ${item.slide_index}]` : ''}${item.speaker_id ? ` [${item.speaker_id}]` : ''} ${item.spoken_text}`;
+
+/**
+ * 生成补写段落的 prompt
+ * @param scenario - 用户描述的排练场景
+ * @param script - 当前脚本段落（按顺序）
+ * @param missingSeconds - 距离目标总时长还差的秒数
+ * @param count - 需要补写的段落数
+ * @param options - 生成选项
+ * @returns 完整的 prompt 字符串
+ */
+export const getScriptExtendPrompt = (
+  scenario: string,
+  script: GeminiScriptResponse['script'],
+  missingSeconds: number,
+  count: number,
+  options: ScriptOptions
+): string => {
+  const language = options.language === 'auto' ? detectLanguage(script.map((item) => item.spoken_text).join(' ')) : options.language;
+  return `
+You previously wrote a rehearsal script for the scenario: "${scenario}".
+
+Current script (in order):
+${script.map(formatItem).join('\n')}
+
+When spoken, it runs about ${Math.round(missingSeconds)} seconds shorter than the ${options.targetDurationSeconds}-second target.
+Write exactly ${count} NEW segments that will be inserted just before the final segment. They must continue naturally
+from segment ${Math.max(1, script.length - 1)} and lead into the final segment, adding substance (an example, a detail, a supporting point) rather than repeating earlier lines.
+
+**Style Requirements:**
+${getScriptStyleGuidance(options)}
+
+Each new segment has:
+- 'spoken_text': ONE short sentence that can be spoken in 4-7 seconds (${formatLengthRange(language, options.segmentLimits?.[language])})
+- 'gesture_type': One of "none", "beat", "deictic", "iconic", "metaphoric"
+- 'gesture_description': ONLY for "deictic", "iconic" and "metaphoric" — a HIGH-LEVEL description of the desired effect or feeling, not specific limb movements
+${script.some((item) => item.speaker_id) ? "- 'speaker_id': one of the speaker ids shown in brackets above, continuing the turn-taking naturally\n" : ''}${script.some((item) => item.slide_index) ? "- 'slide_index': the slide number shown in brackets above that the new segment talks about (usually the same slide as the segment before it)\n" : ''}
+Return a JSON object with a 'script' array containing ONLY the new segments.
+`;
+};
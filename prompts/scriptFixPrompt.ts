@@ -0,0 +1,32 @@
+/**
+ * 脚本定向修正 Prompt
+ * 用于 fixRehearsalScript 函数
+ *
+ * 脚本校验发现本地无法自动修复的问题（缺少角色描述、台词为空等）时，
+ * 把原始 JSON 和问题列表交给模型，只修正指出的问题
+ */
+
+import type { ScriptViolation } from '../types';
+
+/**
+ * 生成脚本修正的 prompt
+ * @param scenario - 用户描述的排练场景
+ * @param previous - 模型上一次返回的脚本 JSON
+ * @param violations - 需要修正的问题
+ * @returns 完整的 prompt 字符串
+ */
+export const getScriptFixPrompt = (scenario: string, previous: unknown, violations: ScriptViolation[]): string => `
+You previously wrote a rehearsal script for the scenario: "${scenario}".
+
+Your response has the following problems:
+${violations.map((v) => `- ${v.message}`).join('\n')}
+
+Previous response:
+${JSON.stringify(previous, null, 2)}
+
+Return the complete corrected JSON object with 'script' array, 'character_description' string, and 'character_personality' string.
+Fix ONLY the problems listed above and keep every other segment exactly as it was.
+If the previous response has a 'cast' array, keep it and keep each segment's 'speaker_id'.
+Keep each segment's 'slide_index' if present.
+Each 'spoken_text' must be a non-empty sentence that can be spoken in 4-7 seconds.
+`.trim();
@@ -4,15 +4,110 @@
  * 
  * 使用 Gemini 3 Pro 模型生成排练脚本
  * 将用户的场景描述转换为分段的表演脚本，包含台词和手势建议
+ * 输入面板上的生成选项（目标时长、听众、正式程度、语言、手势密度）也写入这里
+ * 导入幻灯片大纲时附上各页内容，要求每个段落标注 slide_index
  */
 
+import type { AudienceType, Formality, GestureDensity, LanguageCode, ScriptOptions, SegmentLengthLimits, Slide } from '../types';
+import { estimateSegmentCount } from '../services/scriptOptions';
+import { LANGUAGE_CODES, LANGUAGE_PROFILES } from '../services/language';
+
+// 不同听众对应的教练角色
+const COACH_PERSONAS: Record<AudienceType, string> = {
+  general: 'You are an expert presentation coach and director specializing in gesture analysis.',
+  executives: 'You are an executive communication coach who prepares leaders for board rooms, and a director specializing in gesture analysis.',
+  investors: 'You are a startup pitch coach who has prepared hundreds of founders for investor meetings, and a director specializing in gesture analysis.',
+  technical: 'You are a technical presentation coach who helps engineers explain complex ideas to their peers, and a director specializing in gesture analysis.',
+  students: 'You are a teaching coach who helps educators engage students, and a director specializing in gesture analysis.',
+  customers: 'You are a sales and customer presentation coach, and a director specializing in gesture analysis.',
+};
+
+const AUDIENCE_GUIDANCE: Record<AudienceType, string> = {
+  general: 'a general audience — avoid jargon and keep ideas concrete',
+  executives: 'busy executives — lead with the conclusion, keep it strategic and outcome-focused',
+  investors: 'investors — emphasize the problem, traction, market size and the ask',
+  technical: 'technical peers — precise terminology is welcome, back claims with specifics',
+  students: 'students — explain step by step, use relatable examples and check understanding',
+  customers: 'customers — focus on their needs and the benefits to them, not on features',
+};
+
+const FORMALITY_GUIDANCE: Record<Formality, string> = {
+  casual: 'Casual and conversational: contractions, relaxed phrasing, light humor is fine',
+  neutral: 'Professional but friendly',
+  formal: 'Formal and polished: no slang or contractions, measured and respectful phrasing',
+};
+
+const LANGUAGE_GUIDANCE: Record<LanguageCode, string> = {
+  en: 'English',
+  zh: 'Simplified Chinese (简体中文)',
+  ja: 'Japanese (日本語)',
+  ko: 'Korean (한국어)',
+  es: 'Spanish (Español)',
+  fr: 'French (Français)',
+  de: 'German (Deutsch)',
+};
+
+/**
+ * 一种语言的单段台词长度，例如 "12-20 English words"（与 TEXT_LIMITS 一致）
+ * @param limits 可选：按实测语速校准的长度（见 ScriptOptions.segmentLimits）
+ */
+export const formatLengthRange = (language: LanguageCode, limits: SegmentLengthLimits = LANGUAGE_PROFILES[language].limits): string => {
+  const { name, unitName } = LANGUAGE_PROFILES[language];
+  return `${limits.min}-${limits.max} ${name} ${unitName}`;
+};
+
+/**
+ * 单段台词长度规则；指定语言时只列出该语言，否则列出所有支持的语言
+ * @param segmentLimits 可选：按实测语速校准的长度，缺省的语言使用 TEXT_LIMITS
+ */
+export const getSegmentLengthRules = (language?: LanguageCode, segmentLimits?: ScriptOptions['segmentLimits']): string =>
+  (language ? [language] : LANGUAGE_CODES)
+    .map((code) => {
+      const { name, unitName } = LANGUAGE_PROFILES[code];
+      const limits = segmentLimits?.[code] ?? LANGUAGE_PROFILES[code].limits;
+      return `- ${name}: approximately ${limits.min}-${limits.max} ${unitName} per segment (shorter is better)`;
+    })
+    .join('\n');
+
+const GESTURE_DENSITY_GUIDANCE: Record<GestureDensity, string> = {
+  minimal: 'Minimal: mostly "beat"; use "deictic", "iconic" or "metaphoric" for at most one key moment',
+  balanced: 'Balanced: mostly "beat", with "deictic", "iconic" or "metaphoric" for the highly visual or emphatic moments',
+  expressive: 'Expressive: use "deictic", "iconic" or "metaphoric" for roughly half of the segments; reserve "beat" for connecting lines',
+};
+
+/**
+ * 生成选项对应的风格要求（脚本生成与补写段落共用）
+ */
+export const getScriptStyleGuidance = (options: ScriptOptions): string => [
+  `- Audience: ${AUDIENCE_GUIDANCE[options.audience]}`,
+  `- Tone: ${FORMALITY_GUIDANCE[options.formality]}`,
+  options.language === 'auto'
+    ? '- Language: write the spoken text in the same language as the scenario description'
+    : `- Language: write ALL spoken text in ${LANGUAGE_GUIDANCE[options.language]}, even if the scenario is described in another language`,
+  `- Gesture density: ${GESTURE_DENSITY_GUIDANCE[options.gestureDensity]}`,
+].join('\n');
+
+/**
+ * 幻灯片内容与 slide_index 要求（脚本生成与补写段落共用）
+ */
+export const getSlideGuidance = (slides: Slide[]): string => `**Slides:**
+The speaker presents with this slide deck. During the performance the current slide is shown on a screen to the speaker's LEFT (as seen by the audience):
+${slides.map((slide) => `Slide ${slide.index}: ${slide.title}${slide.bullets.map((bullet) => `\n  - ${bullet}`).join('')}`).join('\n')}
+
+- Walk through the slides in order and cover every slide with at least one segment
+- Every segment must include 'slide_index': the number of the slide on screen while it is spoken
+- When a segment refers to something on the slide (a chart, a number, a list), use a "deictic" gesture whose 'gesture_description' directs the audience's attention to the slide on the left
+- Do not read the slides word for word: explain, connect and add the story behind them`;
+
 /**
  * 生成排练脚本的 prompt
  * @param scenario - 用户描述的排练场景
+ * @param options - 可选：生成选项；缺省时由模型决定长度与风格
+ * @param slides - 可选：导入的幻灯片大纲
  * @returns 完整的 prompt 字符串
  */
-export const getScriptPrompt = (scenario: string): string => `
-You are an expert presentation coach and director specializing in gesture analysis.
+export const getScriptPrompt = (scenario: string, options?: ScriptOptions, slides?: Slide[]): string => `
+${COACH_PERSONAS[options?.audience ?? 'general']}
 The user wants to rehearse for the following scenario: "${scenario}".
 
 Create a rehearsal script. Break the performance down into **fine-grained segments**.
@@ -20,13 +115,21 @@ Create a rehearsal script. Break the performance down into **fine-grained segmen
 **CRITICAL SEGMENT LENGTH RULES:**
 - Each video segment is FIXED at 8 seconds (Veo API limitation with reference images)
 - Each 'spoken_text' should be 1 short sentence or phrase that can be spoken in 4-7 seconds
-- English: approximately 12-20 words per segment (shorter is better)
-- Chinese: approximately 20-35 characters per segment (shorter is better)
+${getSegmentLengthRules(options && options.language !== 'auto' ? options.language : undefined, options?.segmentLimits)}
 - If content is longer, split it into multiple segments
-- Aim for 3-5 segments total for a typical presentation
+${options?.targetDurationSeconds
+  ? `- The whole performance should last about ${options.targetDurationSeconds} seconds: write about ${estimateSegmentCount(options.targetDurationSeconds)} segments (this overrides any other segment count below)`
+  : slides?.length
+    ? `- Aim for ${slides.length + 1}-${slides.length * 2 + 1} segments total: one or two per slide, plus an opening line`
+    : '- Aim for 3-5 segments total for a typical presentation'}
 - Leave ~1 second buffer at the end for the character to return to neutral pose
 
-For each segment, analyze what gesture category is most appropriate:
+${options ? `**Style Requirements:**
+${getScriptStyleGuidance(options)}
+
+` : ''}${slides?.length ? `${getSlideGuidance(slides)}
+
+` : ''}For each segment, analyze what gesture category is most appropriate:
 
 **Gesture Categories:**
 - "none": No gesture needed - speaker maintains neutral posture (use sparingly, only for pauses or transitions)
@@ -36,7 +139,7 @@ For each segment, analyze what gesture category is most appropriate:
 - "metaphoric": Metaphoric gesture - physically manifesting abstract concepts through expressive full-body language (use when emphasizing key concepts, abstract ideas, emotions)
 
 **Important Guidelines:**
-- Most segments should use "beat" (natural speaking rhythm)
+- Unless the gesture density above says otherwise, most segments should use "beat" (natural speaking rhythm)
 - Use "none" only for pauses or transitions between major topics
 - Use "deictic", "iconic", or "metaphoric" when the content is highly visual or emphatic
 - For "deictic", "iconic", or "metaphoric" gestures, you MUST provide a detailed 'gesture_description'
@@ -50,7 +153,7 @@ For each segment, analyze what gesture category is most appropriate:
 - Use emotional language: "radiating confidence", "shrinking from fear", "expanding with joy"
 
 For each segment, provide:
-1. 'spoken_text': What the speaker should say. **Keep it to ONE short sentence or phrase (10-15 words max for English, 15-25 characters max for Chinese)**.
+1. 'spoken_text': What the speaker should say. **Keep it to ONE short sentence or phrase, within the length rules above for its language**.
 2. 'gesture_type': One of "none", "beat", "deictic", "iconic", "metaphoric"
 3. 'gesture_description': (ONLY for deictic/iconic/metaphoric) A HIGH-LEVEL description of the DESIRED EFFECT or FEELING, NOT specific limb movements
    - Describe WHAT THE GESTURE COMMUNICATES or the EMOTIONAL/VISUAL EFFECT it creates
@@ -83,6 +186,14 @@ Additionally, provide:
   * "Intensely focused and urgent, leans forward frequently, arms punch forward and pull back with tension, quick weight shifts convey drive. Every gesture shows determination."
   * "Warmly inviting and open, arms sweep outward welcoming, torso opens toward audience, gentle forward steps, movements are rounded and embracing. Physically generous and inclusive."
 
-Return a JSON object with 'script' array, 'character_description' string, and 'character_personality' string.
+**Multiple Speakers (interviews, debates, panels, dialogues):**
+- Only if the scenario clearly involves two or more on-camera speakers, also return a 'cast' array of 2-4 members
+- Each cast member has 'id' (short and unique, e.g. "host", "guest"), 'name' (role label shown to the user), 'description' (appearance, in the same style as 'character_description') and 'personality' (in the same style as 'character_personality')
+- Every segment must then include 'speaker_id' matching one cast member; speakers take turns as in a real conversation (up to 8 segments in total)
+- Set 'character_description' and 'character_personality' to those of the first cast member
+- Make the cast members visually distinct from each other (clothing colors, hair, age) so they are easy to tell apart
+- For a single-speaker scenario, omit 'cast' and 'speaker_id' entirely
+
+Return a JSON object with 'script' array, 'character_description' string, and 'character_personality' string (plus 'cast' for multi-speaker scenarios${slides?.length ? ", and 'slide_index' in every segment" : ''}).
 `;
 
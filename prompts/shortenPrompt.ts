@@ -0,0 +1,34 @@
+/**
+ * 台词缩短 Prompt
+ * 用于 regenerateShorterText 函数
+ *
+ * 当某段 TTS 时长超过 7 秒时，让模型在保持语言和核心含义的前提下精简台词
+ */
+
+import { detectLanguage, LANGUAGE_PROFILES } from '../services/language';
+
+/**
+ * 生成缩短台词的 prompt
+ * @param originalText - 当前台词
+ * @param currentDuration - 当前 TTS 时长（秒）
+ * @param scenario - 用户描述的排练场景
+ * @returns 完整的 prompt 字符串
+ */
+export const getShortenPrompt = (originalText: string, currentDuration: number, scenario: string): string => {
+  const targetRatio = Math.round((7 / currentDuration) * 100);
+  const { name, unitName, limits } = LANGUAGE_PROFILES[detectLanguage(originalText)];
+  return `You are helping shorten a presentation segment's spoken text.
+Context: This is for a rehearsal of: "${scenario}"
+
+The current text takes ${currentDuration.toFixed(1)} seconds when spoken via TTS, but must fit within 7 seconds (for an 8-second video with buffer time).
+
+Current text: "${originalText}"
+
+Rewrite this text to be approximately ${targetRatio}% of its current length while preserving the core meaning.
+Rules:
+- Keep the same language: the text is in ${name}, so reply in ${name} only (do not translate)
+- Use at most ${limits.max} ${unitName}
+- Preserve the key message
+- Make it natural and speakable
+- Be concise — fewer words, same impact`;
+};
@@ -0,0 +1,40 @@
+/**
+ * 排练翻译 Prompt
+ * 用于 translateRehearsalScript 函数
+ *
+ * 同一场演讲面向不同市场排练：逐段翻译台词，段落数量、顺序和手势保持不变，
+ * 译文遵守目标语言的单段长度限制
+ */
+
+import type { GeminiScriptResponse, LanguageCode } from '../types';
+import { formatLengthRange } from './scriptPrompt';
+import { LANGUAGE_PROFILES } from '../services/language';
+
+/**
+ * 生成排练翻译的 prompt
+ * @param scenario - 用户描述的排练场景
+ * @param script - 当前脚本段落（含手势，供译文与动作对齐）
+ * @param language - 目标语言
+ * @returns 完整的 prompt 字符串
+ */
+export const getTranslatePrompt = (
+  scenario: string,
+  script: GeminiScriptResponse['script'],
+  language: LanguageCode
+): string => `
+You are a professional speech translator and presentation coach.
+The speaker rehearsed this talk for the scenario: "${scenario}".
+Now they will give the same talk in ${LANGUAGE_PROFILES[language].name}.
+
+The talk is split into numbered segments. Each segment is performed with the gesture shown in brackets:
+${script.map((item, index) => `[${index}] (${item.gesture_type}${item.gesture_description ? `: ${item.gesture_description}` : ''}) ${item.spoken_text}`).join('\n')}
+
+Translate every segment into ${LANGUAGE_PROFILES[language].name}:
+- Return exactly one translation per segment, with the same index. **Do not merge, split, reorder or skip segments**
+- The same gesture will be performed while the translation is spoken, so keep the words the gesture refers to (pointing, sizes, directions, emphasis) in the same segment
+- Each translation must be speakable in 4-7 seconds: ${formatLengthRange(language)}. Condense rather than exceed the limit
+- Translate meaning and tone, not word for word: use natural phrasing a native speaker would say on stage for this audience
+- Keep names, product names and numbers accurate
+
+Return a JSON object with a 'translations' array; each item has 'index' (integer) and 'spoken_text' (the translation).
+`;
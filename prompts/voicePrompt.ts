@@ -0,0 +1,36 @@
+/**
+ * 音色推荐 Prompt
+ * 用于 suggestCharacterVoice 函数
+ *
+ * 根据角色外观与性格，从当前语音后端的候选音色中挑一个最贴合的，并给出朗读风格指令
+ */
+
+/**
+ * 生成音色推荐的 prompt
+ * @param characterDescription - 角色外观描述
+ * @param characterPersonality - 角色性格与动作风格
+ * @param voices - 候选音色（名称与音色特点）
+ * @returns 完整的 prompt 字符串
+ */
+export const getVoiceSuggestionPrompt = (
+  characterDescription: string,
+  characterPersonality: string,
+  voices: Array<{ name: string; traits?: string }>
+): string => `
+You are casting a voice actor for a presentation rehearsal character.
+
+Character appearance: "${characterDescription}"
+Personality & delivery: "${characterPersonality}"
+
+Available text-to-speech voices:
+${voices.map((v) => `- ${v.name}${v.traits ? `: ${v.traits}` : ''}`).join('\n')}
+
+Pick the ONE voice that best fits the character's apparent age, gender, energy and role (e.g. a child, a robot, an elderly man, a confident executive).
+Then write a short speaking style instruction that completes the sentence "Say ... :", e.g. "calmly", "excitedly", "in a warm, reassuring tone", "in a whisper", "like a friendly robot".
+Use an empty string if a natural delivery fits best. Keep it under 10 words and in English.
+
+Return a JSON object with:
+- 'voice': exactly one of the voice names listed above
+- 'style': the speaking style instruction (or "")
+- 'reason': one short sentence explaining the choice
+`;
@@ -0,0 +1,458 @@
+/**
+ * AI Rehearsal Coach API proxy
+ *
+ * 持有 GEMINI_API_KEY 的小型 Node 服务，浏览器只与这里通信，key 不会进入前端 bundle：
+ * - POST /api/script            生成排练脚本
+ * - POST /api/script/stream     流式生成排练脚本（text/plain 分块返回）
+ * - POST /api/script/fix        按校验问题定向修正脚本
+ * - POST /api/script/extend     总时长不足时补写段落
+ * - POST /api/script/annotate   为用户演讲稿标注手势
+ * - POST /api/script/translate  把脚本翻译成另一种语言（保留手势）
+ * - POST /api/script/questions  预测观众问题与参考回答
+ * - POST /api/script/shorten    缩短超时台词
+ * - POST /api/image             生成定妆照
+ * - POST /api/voice/suggest     根据角色推荐 TTS 音色与朗读风格
+ * - POST /api/speech            TTS（返回 24kHz PCM base64）
+ * - POST /api/video             启动 Veo 视频生成任务
+ * - GET  /api/video/jobs/:id    查询视频任务状态
+ * - GET  /api/media/:id         下载已缓存的视频（支持 Range）
+ * - POST /api/review            审查视频内容
+ *
+ * 与前端共用 services/geminiCore.ts 中的请求构造与响应解析。
+ * 启动：npm run server（配置读取 .env / .env.local）
+ */
+
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+import { loadEnv } from 'vite';
+import {
+  TTS_SAMPLE_RATE,
+  buildScriptRequest,
+  buildScriptFixRequest,
+  parseScriptResponse,
+  buildScriptExtendRequest,
+  parseScriptExtensionResponse,
+  buildAnnotateRequest,
+  parseAnnotateResponse,
+  buildTranslateRequest,
+  parseTranslateResponse,
+  buildQaRequest,
+  parseQaResponse,
+  buildImageRequest,
+  extractImageData,
+  buildShortenRequest,
+  parseShortenResponse,
+  buildVoiceSuggestRequest,
+  parseVoiceSuggestResponse,
+  buildSpeechRequest,
+  extractAudioData,
+  buildVideoParams,
+  runVideoOperation,
+  withApiKey,
+  buildReviewRequest,
+  parseReviewResponse,
+} from '../services/geminiCore';
+import type { VideoGenerationRequest } from '../services/providers/types';
+import { normalizeScriptOptions } from '../services/scriptOptions';
+import { LANGUAGE_CODES } from '../services/language';
+import { normalizeSlides } from '../services/slides';
+import type { GeminiScriptResponse, LanguageCode, ScriptViolation, VideoReviewContext } from '../types';
+import { createMediaCache } from './mediaCache';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const env = { ...loadEnv(process.env.NODE_ENV || 'development', ROOT_DIR, ''), ...process.env };
+
+const API_KEY = env.GEMINI_API_KEY || env.API_KEY;
+const PORT = Number(env.API_SERVER_PORT) || 8787;
+// 服务没有鉴权，默认只监听本机；需要从其他机器访问时显式设置（如 0.0.0.0）
+const HOST = env.API_SERVER_HOST || '127.0.0.1';
+const CACHE_DIR = path.resolve(ROOT_DIR, env.API_CACHE_DIR || '.cache/media');
+const CORS_ORIGIN = env.API_CORS_ORIGIN || '';
+const MAX_BODY_BYTES = 64 * 1024 * 1024; // 审查请求会携带整段视频
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+if (!API_KEY) {
+  console.error('[Server] GEMINI_API_KEY is not set (checked .env, .env.local and the process environment)');
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+const mediaCache = createMediaCache(CACHE_DIR);
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// ============================================
+// 视频任务
+// ============================================
+
+interface VideoJob {
+  status: 'pending' | 'done' | 'error';
+  mediaId?: string;
+  error?: string;
+  updatedAt: number;
+}
+
+const videoJobs = new Map<string, VideoJob>();
+
+const startVideoJob = (request: VideoGenerationRequest): string => {
+  const jobId = randomUUID();
+  videoJobs.set(jobId, { status: 'pending', updatedAt: Date.now() });
+
+  const params = buildVideoParams(request);
+  console.log(`[Veo] Job ${jobId}: starting ${request.gestureType} gesture video`);
+
+  runVideoOperation(ai, params)
+    .then((downloadLink) => mediaCache.store(withApiKey(downloadLink, API_KEY), downloadLink))
+    .then((mediaId) => {
+      videoJobs.set(jobId, { status: 'done', mediaId, updatedAt: Date.now() });
+      console.log(`[Veo] Job ${jobId}: done → media ${mediaId}`);
+    })
+    .catch((e: any) => {
+      videoJobs.set(jobId, { status: 'error', error: e?.message || String(e), updatedAt: Date.now() });
+      console.error(`[Veo] Job ${jobId} failed:`, e);
+    });
+
+  return jobId;
+};
+
+// 清理过期任务（结果已缓存到磁盘，任务记录只用于轮询）
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, job] of videoJobs) {
+    if (job.status !== 'pending' && now - job.updatedAt > JOB_TTL_MS) videoJobs.delete(id);
+  }
+}, JOB_TTL_MS).unref();
+
+// ============================================
+// HTTP 工具
+// ============================================
+
+const readJsonBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `Missing "${field}"`);
+  return value;
+};
+
+// ============================================
+// 路由
+// ============================================
+
+type Handler = (req: IncomingMessage, res: ServerResponse, params: string[]) => Promise<void>;
+
+const routes: Array<{ method: string; pattern: RegExp; handler: Handler }> = [
+  {
+    method: 'GET',
+    pattern: /^\/api\/health$/,
+    handler: async (_req, res) => sendJson(res, 200, { ok: true }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script$/,
+    handler: async (req, res) => {
+      const { scenario, options, slides } = await readJsonBody<{ scenario?: string; options?: unknown; slides?: unknown }>(req);
+      const response = await ai.models.generateContent(
+        buildScriptRequest(
+          requireString(scenario, 'scenario'),
+          options == null ? undefined : normalizeScriptOptions(options),
+          normalizeSlides(slides)
+        )
+      );
+      sendJson(res, 200, parseScriptResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/stream$/,
+    handler: async (req, res) => {
+      const { scenario, options, slides } = await readJsonBody<{ scenario?: string; options?: unknown; slides?: unknown }>(req);
+      const stream = await ai.models.generateContentStream(
+        buildScriptRequest(
+          requireString(scenario, 'scenario'),
+          options == null ? undefined : normalizeScriptOptions(options),
+          normalizeSlides(slides)
+        )
+      );
+      res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+      // 响应头发出后出错只能直接断开，客户端会因 JSON 不完整而报错
+      for await (const chunk of stream) {
+        const text = chunk.text;
+        if (text) res.write(text);
+      }
+      res.end();
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/fix$/,
+    handler: async (req, res) => {
+      const body = await readJsonBody<{ scenario?: string; previous?: unknown; violations?: ScriptViolation[] }>(req);
+      if (!Array.isArray(body.violations) || body.violations.length === 0) {
+        throw new HttpError(400, 'Missing "violations"');
+      }
+      const response = await ai.models.generateContent(
+        buildScriptFixRequest(body.scenario || '', body.previous, body.violations)
+      );
+      sendJson(res, 200, parseScriptResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/extend$/,
+    handler: async (req, res) => {
+      const body = await readJsonBody<{
+        scenario?: string;
+        script?: GeminiScriptResponse['script'];
+        missingSeconds?: number;
+        count?: number;
+        options?: unknown;
+      }>(req);
+      if (!Array.isArray(body.script) || body.script.length === 0) {
+        throw new HttpError(400, 'Missing "script"');
+      }
+      const options = normalizeScriptOptions(body.options);
+      if (!options.targetDurationSeconds) {
+        throw new HttpError(400, 'Missing "options.targetDurationSeconds"');
+      }
+      const response = await ai.models.generateContent(
+        buildScriptExtendRequest(
+          requireString(body.scenario, 'scenario'),
+          body.script,
+          Number(body.missingSeconds) || 0,
+          Math.max(1, Math.min(20, Number(body.count) || 1)),
+          options
+        )
+      );
+      sendJson(res, 200, parseScriptExtensionResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/annotate$/,
+    handler: async (req, res) => {
+      const { segments } = await readJsonBody<{ segments?: string[] }>(req);
+      if (!Array.isArray(segments) || segments.length === 0 || segments.some((t) => typeof t !== 'string')) {
+        throw new HttpError(400, 'Missing "segments"');
+      }
+      const response = await ai.models.generateContent(buildAnnotateRequest(segments));
+      sendJson(res, 200, parseAnnotateResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/translate$/,
+    handler: async (req, res) => {
+      const body = await readJsonBody<{ scenario?: string; script?: GeminiScriptResponse['script']; language?: LanguageCode }>(req);
+      if (!Array.isArray(body.script) || body.script.length === 0) {
+        throw new HttpError(400, 'Missing "script"');
+      }
+      if (!body.language || !LANGUAGE_CODES.includes(body.language)) {
+        throw new HttpError(400, `"language" must be one of ${LANGUAGE_CODES.join(', ')}`);
+      }
+      const response = await ai.models.generateContent(
+        buildTranslateRequest(body.scenario || '', body.script, body.language)
+      );
+      sendJson(res, 200, parseTranslateResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/questions$/,
+    handler: async (req, res) => {
+      const { scenario, scriptLines, count } = await readJsonBody<{ scenario?: string; scriptLines?: string[]; count?: number }>(req);
+      if (!Array.isArray(scriptLines) || scriptLines.some((t) => typeof t !== 'string')) {
+        throw new HttpError(400, 'Missing "scriptLines"');
+      }
+      const response = await ai.models.generateContent(
+        buildQaRequest(requireString(scenario, 'scenario'), scriptLines, Number(count) || 4)
+      );
+      sendJson(res, 200, parseQaResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/script\/shorten$/,
+    handler: async (req, res) => {
+      const body = await readJsonBody<{ originalText?: string; currentDuration?: number; scenario?: string }>(req);
+      const originalText = requireString(body.originalText, 'originalText');
+      if (typeof body.currentDuration !== 'number' || !(body.currentDuration > 0)) {
+        throw new HttpError(400, 'Missing "currentDuration"');
+      }
+      const response = await ai.models.generateContent(
+        buildShortenRequest(originalText, body.currentDuration, body.scenario || '')
+      );
+      sendJson(res, 200, { text: parseShortenResponse(response.text, originalText) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/image$/,
+    handler: async (req, res) => {
+      const { characterDescription } = await readJsonBody<{ characterDescription?: string }>(req);
+      const response = await ai.models.generateContent(
+        buildImageRequest(requireString(characterDescription, 'characterDescription'))
+      );
+      sendJson(res, 200, { imageBase64: extractImageData(response.candidates) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/voice\/suggest$/,
+    handler: async (req, res) => {
+      const body = await readJsonBody<{
+        characterDescription?: string;
+        characterPersonality?: string;
+        voices?: Array<{ name: string; traits?: string }>;
+      }>(req);
+      if (!Array.isArray(body.voices) || body.voices.length === 0 || body.voices.some((v) => typeof v?.name !== 'string')) {
+        throw new HttpError(400, 'Missing "voices"');
+      }
+      const response = await ai.models.generateContent(
+        buildVoiceSuggestRequest(
+          requireString(body.characterDescription, 'characterDescription'),
+          body.characterPersonality || '',
+          body.voices
+        )
+      );
+      sendJson(res, 200, parseVoiceSuggestResponse(response.text));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/speech$/,
+    handler: async (req, res) => {
+      const { text, voice, style } = await readJsonBody<{ text?: string; voice?: string; style?: string }>(req);
+      const response = await ai.models.generateContent(
+        buildSpeechRequest(
+          requireString(text, 'text'),
+          typeof voice === 'string' && voice ? voice : undefined,
+          typeof style === 'string' && style.trim() ? style.trim() : undefined
+        )
+      );
+      sendJson(res, 200, { audioBase64: extractAudioData(response.candidates), sampleRate: TTS_SAMPLE_RATE });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/video$/,
+    handler: async (req, res) => {
+      const request = await readJsonBody<VideoGenerationRequest>(req);
+      requireString(request.gestureType, 'gestureType');
+      requireString(request.spokenText, 'spokenText');
+      requireString(request.referenceImageBase64, 'referenceImageBase64');
+      sendJson(res, 202, { jobId: startVideoJob(request) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/video\/jobs\/([\w-]+)$/,
+    handler: async (_req, res, [jobId]) => {
+      const job = videoJobs.get(jobId);
+      if (!job) throw new HttpError(404, 'Unknown video job');
+      sendJson(res, 200, { status: job.status, mediaId: job.mediaId, error: job.error });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/media\/(\w+)$/,
+    handler: async (req, res, [mediaId]) => {
+      if (!(await mediaCache.serve(mediaId, req, res))) throw new HttpError(404, 'Media not found');
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/review$/,
+    handler: async (req, res) => {
+      const body = await readJsonBody<{
+        context?: VideoReviewContext;
+        mediaId?: string;
+        videoBase64?: string;
+        mimeType?: string;
+      }>(req);
+      if (!body.context) throw new HttpError(400, 'Missing "context"');
+
+      // 已缓存的视频直接从磁盘读取，避免浏览器再上传一遍
+      let videoBase64 = body.videoBase64;
+      let mimeType = body.mimeType || 'video/mp4';
+      if (body.mediaId) {
+        const media = await mediaCache.read(body.mediaId);
+        if (!media) throw new HttpError(404, 'Media not found');
+        videoBase64 = media.data.toString('base64');
+        mimeType = media.mimeType;
+      }
+      if (!videoBase64) throw new HttpError(400, 'Missing "mediaId" or "videoBase64"');
+
+      const response = await ai.models.generateContent(buildReviewRequest(body.context, videoBase64, mimeType));
+      sendJson(res, 200, parseReviewResponse(response.text));
+    },
+  },
+];
+
+const server = createServer(async (req, res) => {
+  const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+  const method = req.method === 'HEAD' ? 'GET' : req.method || 'GET';
+
+  if (CORS_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Range');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+  }
+
+  try {
+    for (const route of routes) {
+      const match = route.method === method ? route.pattern.exec(pathname) : null;
+      if (match) {
+        await route.handler(req, res, match.slice(1));
+        return;
+      }
+    }
+    throw new HttpError(404, `No route for ${req.method} ${pathname}`);
+  } catch (e: any) {
+    // 浏览器端的任务调度按状态码决定是否重试（只重试 429 / 5xx），所以：
+    // 上游（Gemini）错误带 HTTP 状态码时原样转发；连不上上游时为 503；
+    // 其他失败（返回中没有图片 / 音频数据、被安全策略过滤、JSON 无效等）重试也不会成功，用 422
+    const upstreamStatus = Number(e?.status);
+    const status = e instanceof HttpError
+      ? e.status
+      : upstreamStatus >= 400 && upstreamStatus < 600
+        ? upstreamStatus
+        : e instanceof TypeError && /fetch failed/i.test(e.message) ? 503 : 422;
+    if (status >= 500) console.error(`[Server] ${req.method} ${pathname} failed:`, e);
+    if (!res.headersSent) sendJson(res, status, { error: e?.message || 'Internal server error' });
+    else res.end();
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`[Server] API proxy listening on http://${HOST}:${PORT} (media cache: ${CACHE_DIR})`);
+});
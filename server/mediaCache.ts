@@ -0,0 +1,114 @@
+/**
+ * Veo 视频的本地磁盘缓存
+ *
+ * Veo 返回的下载地址需要附带 API key，不能交给浏览器。server 在生成完成后
+ * 用 key 下载一次并缓存到磁盘，浏览器只拿到 /api/media/<id> 形式的地址。
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { mkdir, readFile, rename, stat, writeFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import path from 'node:path';
+
+export interface MediaCache {
+  /** 下载远端视频并缓存，返回媒体 id（同一地址只下载一次） */
+  store(remoteUrl: string, cacheKey: string): Promise<string>;
+  /** 读取缓存的媒体字节，不存在时返回 null */
+  read(id: string): Promise<{ data: Buffer; mimeType: string } | null>;
+  /** 以 HTTP 响应返回缓存的媒体（支持 Range，便于 <video> 拖动进度） */
+  serve(id: string, req: IncomingMessage, res: ServerResponse): Promise<boolean>;
+}
+
+const MEDIA_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+export function createMediaCache(cacheDir: string): MediaCache {
+  const dataPath = (id: string) => path.join(cacheDir, `${id}.bin`);
+  const metaPath = (id: string) => path.join(cacheDir, `${id}.json`);
+
+  const readMimeType = async (id: string): Promise<string | null> => {
+    try {
+      const meta = JSON.parse(await readFile(metaPath(id), 'utf8'));
+      return typeof meta.mimeType === 'string' ? meta.mimeType : 'video/mp4';
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    async store(remoteUrl, cacheKey) {
+      const id = createHash('sha256').update(cacheKey).digest('hex').substring(0, 32);
+      if (await readMimeType(id)) {
+        console.log(`[MediaCache] Hit ${id}`);
+        return id;
+      }
+
+      const response = await fetch(remoteUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to download generated video: ${response.status} ${response.statusText}`);
+      }
+      const data = Buffer.from(await response.arrayBuffer());
+      const mimeType = response.headers.get('content-type')?.split(';')[0] || 'video/mp4';
+
+      await mkdir(cacheDir, { recursive: true });
+      // 先写临时文件再改名，避免并发请求读到半个文件
+      const tmpPath = `${dataPath(id)}.${process.pid}.tmp`;
+      await writeFile(tmpPath, data);
+      await rename(tmpPath, dataPath(id));
+      await writeFile(metaPath(id), JSON.stringify({ mimeType, size: data.length, createdAt: Date.now() }));
+
+      console.log(`[MediaCache] Stored ${id} (${(data.length / 1024 / 1024).toFixed(1)} MB)`);
+      return id;
+    },
+
+    async read(id) {
+      if (!MEDIA_ID_PATTERN.test(id)) return null;
+      const mimeType = await readMimeType(id);
+      if (!mimeType) return null;
+      try {
+        return { data: await readFile(dataPath(id)), mimeType };
+      } catch {
+        return null;
+      }
+    },
+
+    async serve(id, req, res) {
+      if (!MEDIA_ID_PATTERN.test(id)) return false;
+      const mimeType = await readMimeType(id);
+      if (!mimeType) return false;
+
+      let size: number;
+      try {
+        size = (await stat(dataPath(id))).size;
+      } catch {
+        return false;
+      }
+
+      const headers: Record<string, string | number> = {
+        'Content-Type': mimeType,
+        'Accept-Ranges': 'bytes',
+        // 媒体内容按 id 寻址，永不变化
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      };
+
+      const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range || '');
+      if (range && (range[1] || range[2])) {
+        const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+        const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+        if (start > end || start >= size) {
+          res.writeHead(416, { 'Content-Range': `bytes */${size}` });
+          res.end();
+          return true;
+        }
+        res.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${size}`, 'Content-Length': end - start + 1 });
+        createReadStream(dataPath(id), { start, end }).pipe(res);
+        return true;
+      }
+
+      res.writeHead(200, { ...headers, 'Content-Length': size });
+      if (req.method === 'HEAD') res.end();
+      else createReadStream(dataPath(id)).pipe(res);
+      return true;
+    },
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * 音频输出格式：采样率、声道与编码
+ *
+ * 导出音轨和发送给 RVC 的音频可以选择输出格式：
+ * - 采样率：带限重采样（resampleAudioBuffer），缺省时保持原采样率（TTS 为 24 kHz）
+ * - 声道：单声道复制到各声道 / 多声道平均为单声道（remixAudioBuffer），缺省时保持原声道
+ * - 编码：WAV（16 / 24 位 PCM 或 32 位浮点），或 Ogg Opus（浏览器 WebCodecs AudioEncoder 编码，
+ *   内部始终为 48 kHz；不支持 WebCodecs 的浏览器会报错）
+ *
+ * 配置（播放器设置中可以覆盖）：
+ * - VITE_AUDIO_EXPORT_CODEC / _SAMPLE_RATE / _CHANNELS / _BIT_DEPTH / _BITRATE：导出音轨的格式，默认 WAV
+ * - VITE_RVC_INPUT_CODEC / _SAMPLE_RATE / _CHANNELS / _BIT_DEPTH / _BITRATE：发送给 RVC 的格式，
+ *   默认原样发送
+ */
+
+import { audioBufferToWavBlob, decodeWavData, remixAudioBuffer, resampleAudioBuffer, type WavBitDepth } from './audioUtils';
+
+export type AudioCodec = 'wav' | 'opus';
+
+export interface AudioOutputFormat {
+  codec: AudioCodec;
+  /** 采样率（Hz），缺省时保持原采样率 */
+  sampleRate?: number;
+  /** 声道数，缺省时保持原声道数 */
+  channels?: 1 | 2;
+  /** WAV 位深，默认 16 */
+  bitDepth?: WavBitDepth;
+  /** Opus 码率（bit/s），默认 96000 */
+  bitrate?: number;
+}
+
+export const AUDIO_CODECS: { value: AudioCodec; label: string }[] = [
+  { value: 'wav', label: 'WAV (PCM)' },
+  { value: 'opus', label: 'Opus (Ogg)' },
+];
+
+export const AUDIO_SAMPLE_RATES = [16000, 22050, 24000, 32000, 44100, 48000];
+
+export const DEFAULT_AUDIO_OUTPUT_FORMAT: AudioOutputFormat = { codec: 'wav' };
+
+const OPUS_SAMPLE_RATE = 48000;
+const DEFAULT_OPUS_BITRATE = 96000;
+const DEFAULT_OPUS_PRE_SKIP = 312; // libopus 默认的编码器延迟（48 kHz 采样数）
+const ENCODE_CHUNK_FRAMES = OPUS_SAMPLE_RATE; // 每次送入编码器 1 秒
+const MAX_PAGE_SAMPLES = OPUS_SAMPLE_RATE; // 每个 Ogg 页最多约 1 秒音频
+
+const ENV_PREFIX = { export: 'VITE_AUDIO_EXPORT', rvc: 'VITE_RVC_INPUT' } as const;
+
+const readPositiveInt = (value: unknown): number | undefined => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * 校验并补全格式，无效字段丢弃（恢复为缺省）
+ */
+export function normalizeAudioOutputFormat(value: Partial<Record<keyof AudioOutputFormat, unknown>>): AudioOutputFormat {
+  const codec = String(value.codec ?? '').toLowerCase();
+  const channels = readPositiveInt(value.channels);
+  const bitDepth = readPositiveInt(value.bitDepth);
+  const sampleRate = readPositiveInt(value.sampleRate);
+  return {
+    codec: codec === 'opus' ? 'opus' : 'wav',
+    sampleRate: sampleRate && sampleRate >= 8000 && sampleRate <= 192000 ? sampleRate : undefined,
+    channels: channels === 1 || channels === 2 ? channels : undefined,
+    bitDepth: bitDepth === 16 || bitDepth === 24 || bitDepth === 32 ? bitDepth : undefined,
+    bitrate: readPositiveInt(value.bitrate),
+  };
+}
+
+/**
+ * 从环境变量读取导出音轨或 RVC 输入的格式
+ */
+export function getAudioOutputFormatFromEnv(target: keyof typeof ENV_PREFIX): AudioOutputFormat {
+  const env = import.meta.env;
+  const prefix = ENV_PREFIX[target];
+  return normalizeAudioOutputFormat({
+    codec: env?.[`${prefix}_CODEC`],
+    sampleRate: env?.[`${prefix}_SAMPLE_RATE`],
+    channels: env?.[`${prefix}_CHANNELS`],
+    bitDepth: env?.[`${prefix}_BIT_DEPTH`],
+    bitrate: env?.[`${prefix}_BITRATE`],
+  });
+}
+
+/** 原样输出（16 位 WAV，采样率与声道不变） */
+export const isPassthroughFormat = (format: AudioOutputFormat): boolean =>
+  format.codec === 'wav' && !format.sampleRate && !format.channels && (format.bitDepth ?? 16) === 16;
+
+export const getAudioFileExtension = (format: AudioOutputFormat): string => (format.codec === 'opus' ? 'opus' : 'wav');
+
+export const getAudioMimeType = (format: AudioOutputFormat): string =>
+  format.codec === 'opus' ? 'audio/ogg; codecs=opus' : 'audio/wav';
+
+/**
+ * 按格式转换采样率与声道（Opus 最多 2 个声道）
+ */
+export function conformAudioBuffer(buffer: AudioBuffer, format: AudioOutputFormat): AudioBuffer {
+  const channels = format.channels ?? (format.codec === 'opus' ? Math.min(2, buffer.numberOfChannels) : buffer.numberOfChannels);
+  const remixed = remixAudioBuffer(buffer, channels);
+  return format.sampleRate ? resampleAudioBuffer(remixed, format.sampleRate) : remixed;
+}
+
+/**
+ * 把音频编码为指定格式
+ */
+export async function encodeAudioBuffer(buffer: AudioBuffer, format: AudioOutputFormat): Promise<Blob> {
+  const conformed = conformAudioBuffer(buffer, format);
+  if (format.codec === 'wav') return audioBufferToWavBlob(conformed, format.bitDepth ?? 16);
+  return encodeOggOpus(conformed, format.bitrate ?? DEFAULT_OPUS_BITRATE);
+}
+
+/**
+ * 把一段音频（WAV 或浏览器能解码的音频 / 视频）转为指定格式；原样输出时直接返回
+ */
+export async function transcodeAudioBlob(blob: Blob, format: AudioOutputFormat): Promise<Blob> {
+  if (isPassthroughFormat(format)) return blob;
+  return encodeAudioBuffer(await decodeWavData(await blob.arrayBuffer()), format);
+}
+
+/**
+ * 用 WebCodecs 编码 Opus 并封装为 Ogg（RFC 7845）；输入先重采样到 48 kHz，
+ * OpusHead 中记录原采样率，供解码端还原
+ */
+async function encodeOggOpus(buffer: AudioBuffer, bitrate: number): Promise<Blob> {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') {
+    throw new Error('Opus encoding requires WebCodecs (AudioEncoder), which this browser does not support. Choose WAV instead.');
+  }
+  const source = resampleAudioBuffer(buffer, OPUS_SAMPLE_RATE);
+  const channels = source.numberOfChannels;
+  const config: AudioEncoderConfig = { codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels, bitrate };
+  const { supported } = await AudioEncoder.isConfigSupported(config);
+  if (!supported) throw new Error(`Opus encoding is not supported for ${channels} channel(s) at ${bitrate} bit/s`);
+
+  const packets: OggPacket[] = [];
+  let preSkip = DEFAULT_OPUS_PRE_SKIP;
+  let encodeError: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6) });
+      // 编码器给出的 OpusHead 里有实际的编码器延迟
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        const head = description instanceof ArrayBuffer
+          ? new Uint8Array(description)
+          : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+        if (head.length >= 12 && String.fromCharCode(...head.subarray(0, 8)) === 'OpusHead') {
+          preSkip = head[10] | (head[11] << 8);
+        }
+      }
+    },
+    error: (e) => {
+      encodeError = e;
+    },
+  });
+  encoder.configure(config);
+
+  for (let start = 0; start < source.length; start += ENCODE_CHUNK_FRAMES) {
+    const frames = Math.min(ENCODE_CHUNK_FRAMES, source.length - start);
+    const planar = new Float32Array(frames * channels);
+    for (let c = 0; c < channels; c++) {
+      planar.set(source.getChannelData(c).subarray(start, start + frames), c * frames);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: frames,
+      numberOfChannels: channels,
+      timestamp: Math.round((start * 1e6) / OPUS_SAMPLE_RATE),
+      data: planar,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) throw encodeError;
+
+  return new Blob(muxOggOpus(packets, channels, preSkip, buffer.sampleRate, source.length), { type: getAudioMimeType({ codec: 'opus' }) });
+}
+
+interface OggPacket {
+  data: Uint8Array;
+  /** 包含的 48 kHz 采样数 */
+  samples: number;
+}
+
+// Ogg 的 CRC-32：多项式 0x04c11db7，不反射，初值 0
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const OGG_BOS = 0x02;
+const OGG_EOS = 0x04;
+
+const buildOggPage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array<ArrayBuffer> => {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      lacing.push(255);
+      remaining -= 255;
+    }
+    lacing.push(remaining);
+  }
+  const headerLength = 27 + lacing.length;
+  const page = new Uint8Array(headerLength + packets.reduce((sum, p) => sum + p.length, 0));
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(4, 0); // version
+  view.setUint8(5, flags);
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = headerLength;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc32(page), true);
+  return page;
+};
+
+const ascii = (text: string): number[] => Array.from(text, (ch) => ch.charCodeAt(0));
+
+const muxOggOpus = (packets: OggPacket[], channels: number, preSkip: number, inputSampleRate: number, totalSamples: number): Uint8Array<ArrayBuffer>[] => {
+  const serial = (Math.random() * 0xffffffff) >>> 0;
+  const pages: Uint8Array<ArrayBuffer>[] = [];
+
+  const head = new Uint8Array(19);
+  const headView = new DataView(head.buffer);
+  head.set(ascii('OpusHead'));
+  head[8] = 1; // version
+  head[9] = channels;
+  headView.setUint16(10, preSkip, true);
+  headView.setUint32(12, inputSampleRate, true);
+  headView.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family 0：单声道 / 立体声
+  pages.push(buildOggPage([head], 0, serial, 0, OGG_BOS));
+
+  const vendor = ascii('rehearsal');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const tagsView = new DataView(tags.buffer);
+  tags.set(ascii('OpusTags'));
+  tagsView.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  tagsView.setUint32(12 + vendor.length, 0, true); // 无注释
+  pages.push(buildOggPage([tags], 0, serial, 1, 0));
+
+  // 音频包按约 1 秒一页；最后一页的 granule 为实际采样数，解码端据此截掉末尾的填充
+  let granule = preSkip;
+  let current: Uint8Array[] = [];
+  let currentSamples = 0;
+  let lacingCount = 0;
+  const flush = (last: boolean) => {
+    const endGranule = last ? preSkip + totalSamples : Math.min(granule, preSkip + totalSamples);
+    pages.push(buildOggPage(current, endGranule, serial, pages.length, last ? OGG_EOS : 0));
+    current = [];
+    currentSamples = 0;
+    lacingCount = 0;
+  };
+  packets.forEach((packet, i) => {
+    const lacing = Math.floor(packet.data.length / 255) + 1;
+    if (current.length > 0 && (lacingCount + lacing > 255 || currentSamples >= MAX_PAGE_SAMPLES)) flush(false);
+    current.push(packet.data);
+    currentSamples += packet.samples;
+    lacingCount += lacing;
+    granule += packet.samples;
+    if (i === packets.length - 1) flush(true);
+  });
+  if (packets.length === 0) flush(true);
+  return pages;
+};
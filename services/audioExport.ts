@@ -0,0 +1,256 @@
+/**
+ * 排练音轨导出
+ *
+ * 各段的最终音频与导出视频一致：TTS，或手势视频自带的音轨（翻译沿用的视频用 TTS）；
+ * 启用 RVC 时先统一音色，开启响度处理时再统一响度并裁剪 TTS 静音（见 audioProcessing.ts）。
+ * 段落依次排列，每段占最终音频与手势视频中较长者，与导出视频和字幕的时间轴一致。
+ *
+ * 两种导出：
+ * - 整条音轨：按时间轴混成一个文件
+ * - 分段音轨（stems）：每段一个文件 + manifest.json（段落 id、台词、手势、在总时间轴上的起止时间与时长），
+ *   打包为无压缩 ZIP，供机器人端播放器按时间轴播放
+ *
+ * 输出的采样率、声道与编码见 audioEncoding.ts。
+ */
+
+import { SegmentStatus, type GestureType, type ScriptSegment, type CastMember } from '../types';
+import { audioBufferToWavBlob, decodeWavData } from './audioUtils';
+import { getAudioProcessingOptionsFromEnv, processSegmentAudio, type AudioProcessingOptions } from './audioProcessing';
+import { conformAudioBuffer, encodeAudioBuffer, getAudioFileExtension, type AudioOutputFormat } from './audioEncoding';
+import { convertAudioWithRvc, type RvcOptions } from './rvcService';
+import { findSpeaker } from './cast';
+import { getSegmentTimelineDuration, hasSegmentVideo } from './subtitles';
+import { createZip, type ZipEntry } from './zipUtils';
+
+export const STEMS_FORMAT = 'ai-rehearsal-coach/stems';
+export const STEMS_VERSION = 1;
+
+const MIX_SAMPLE_RATE = 48000; // 未指定采样率时的混音采样率
+
+export interface AudioExportOptions {
+  /** 响度统一与静音裁剪；不传则使用环境变量 VITE_AUDIO_*；为 null 则禁用 */
+  processing?: AudioProcessingOptions | null;
+  /** 启用 RVC 时传入，各段音频先统一音色 */
+  rvcOptions?: RvcOptions | null;
+  /** 多人对话的角色表：写入 manifest 的说话人名称 */
+  cast?: CastMember[];
+  /** 每处理完一段调用一次 */
+  onProgress?: (done: number, total: number) => void;
+}
+
+/** 一段的最终音频及其在总时间轴上的位置（秒） */
+export interface SegmentAudioTrack {
+  segment: ScriptSegment;
+  buffer: AudioBuffer;
+  /** 音频来源：TTS 或手势视频的音轨 */
+  source: 'tts' | 'video';
+  /** 是否经过 RVC 统一音色 */
+  rvc: boolean;
+  /** 处理时开头裁掉的秒数 */
+  trimStart: number;
+  start: number;
+  end: number;
+}
+
+export interface StemManifestEntry {
+  /** ZIP 中的文件路径 */
+  file: string;
+  id: string;
+  spokenText: string;
+  gestureType: GestureType;
+  speaker?: string;
+  source: 'tts' | 'video';
+  rvc: boolean;
+  /** 在总时间轴上的开始 / 结束时间（秒）；段落占音频与手势视频中较长者 */
+  start: number;
+  end: number;
+  duration: number;
+  /** 音频文件本身的时长（秒），短于 duration 时其余为静音（手势视频更长） */
+  audioDuration: number;
+}
+
+export interface StemManifest {
+  format: typeof STEMS_FORMAT;
+  version: number;
+  exportedAt: string;
+  codec: AudioOutputFormat['codec'];
+  sampleRate: number;
+  channels: number;
+  duration: number;
+  segments: StemManifestEntry[];
+}
+
+const fetchAudioBuffer = async (url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+  return decodeWavData(await response.arrayBuffer());
+};
+
+/**
+ * 一段的最终音频：有手势视频且未配音的段落用视频音轨（不裁剪，保持口型同步），视频没有音轨时退回 TTS；
+ * RVC 或响度处理失败时沿用处理前的音频
+ */
+async function loadFinalSegmentAudio(
+  segment: ScriptSegment,
+  processing: AudioProcessingOptions | null,
+  rvcOptions: RvcOptions | null
+): Promise<Omit<SegmentAudioTrack, 'start' | 'end'>> {
+  let source: 'tts' | 'video' = 'tts';
+  let buffer: AudioBuffer | null = null;
+  if (hasSegmentVideo(segment) && !segment.dubbed) {
+    try {
+      buffer = await fetchAudioBuffer(segment.videoUrl!);
+      source = 'video';
+    } catch (e) {
+      console.warn(`[AudioExport] No usable audio track in video for ${segment.id}, using TTS:`, e);
+    }
+  }
+  buffer ??= await fetchAudioBuffer(segment.audioUrl!);
+
+  let rvc = false;
+  if (rvcOptions) {
+    try {
+      const converted = await convertAudioWithRvc(audioBufferToWavBlob(buffer), rvcOptions);
+      buffer = await decodeWavData(await converted.arrayBuffer());
+      rvc = true;
+    } catch (e) {
+      console.warn(`[AudioExport] RVC failed for ${segment.id}, using original audio:`, e);
+    }
+  }
+
+  let trimStart = 0;
+  if (processing) {
+    try {
+      const processed = processSegmentAudio(buffer, processing, source === 'tts');
+      buffer = processed.buffer;
+      trimStart = processed.trimStart;
+    } catch (e) {
+      console.warn(`[AudioExport] Audio processing failed for ${segment.id}, using original audio:`, e);
+    }
+  }
+  return { segment, buffer, source, rvc, trimStart };
+}
+
+/**
+ * 读取已有音频的段落的最终音频，并按时间轴排列
+ */
+export async function renderSegmentAudioTracks(segments: ScriptSegment[], options: AudioExportOptions = {}): Promise<SegmentAudioTrack[]> {
+  const processing = options.processing !== undefined ? options.processing : getAudioProcessingOptionsFromEnv();
+  const ready = segments.filter((s) => s.audioStatus === SegmentStatus.COMPLETED && s.audioUrl);
+  if (ready.length === 0) throw new Error('No segments with completed audio available for export');
+
+  const tracks: SegmentAudioTrack[] = [];
+  let offset = 0;
+  for (const segment of ready) {
+    const track = await loadFinalSegmentAudio(segment, processing, options.rvcOptions ?? null);
+    const duration = getSegmentTimelineDuration(segment, { start: 0, end: track.buffer.duration });
+    tracks.push({ ...track, start: offset, end: offset + duration });
+    offset += duration;
+    options.onProgress?.(tracks.length, ready.length);
+  }
+  return tracks;
+}
+
+/**
+ * 按时间轴混出整条排练音轨
+ * @param sampleRate 混音采样率
+ */
+export function mixSegmentAudioTracks(tracks: SegmentAudioTrack[], sampleRate: number = MIX_SAMPLE_RATE): AudioBuffer {
+  const total = tracks.length > 0 ? tracks[tracks.length - 1].end : 0;
+  const channels = tracks.some((t) => t.buffer.numberOfChannels > 1) ? 2 : 1;
+  const output = new AudioBuffer({ length: Math.max(1, Math.ceil(total * sampleRate)), numberOfChannels: channels, sampleRate });
+  for (const { buffer, start, end } of tracks) {
+    const conformed = conformAudioBuffer(buffer, { codec: 'wav', sampleRate, channels });
+    const startFrame = Math.min(output.length, Math.round(start * sampleRate));
+    // 超出段落时长的部分截掉，保持后续段落与字幕同步
+    const frames = Math.min(conformed.length, Math.round((end - start) * sampleRate), output.length - startFrame);
+    for (let c = 0; c < channels; c++) {
+      output.copyToChannel(conformed.getChannelData(c).subarray(0, frames), c, startFrame);
+    }
+  }
+  console.log(`[AudioExport] Mixed ${tracks.length} segments, ${total.toFixed(2)}s at ${sampleRate} Hz`);
+  return output;
+}
+
+const triggerDownload = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * 导出整条排练音轨并触发浏览器下载
+ * @returns 各段在时间轴上的位置
+ */
+export async function downloadRehearsalAudio(
+  segments: ScriptSegment[],
+  format: AudioOutputFormat,
+  options: AudioExportOptions = {}
+): Promise<SegmentAudioTrack[]> {
+  const tracks = await renderSegmentAudioTracks(segments, options);
+  const blob = await encodeAudioBuffer(mixSegmentAudioTracks(tracks, format.sampleRate ?? MIX_SAMPLE_RATE), format);
+  triggerDownload(blob, `rehearsal-audio-${Date.now()}.${getAudioFileExtension(format)}`);
+  return tracks;
+}
+
+/**
+ * 导出分段音轨：stems/<序号>-<段落 id>.<扩展名> + manifest.json，打包为 ZIP 并触发浏览器下载
+ * @returns 各段在时间轴上的位置
+ */
+export async function downloadAudioStems(
+  segments: ScriptSegment[],
+  format: AudioOutputFormat,
+  options: AudioExportOptions = {}
+): Promise<SegmentAudioTrack[]> {
+  const tracks = await renderSegmentAudioTracks(segments, options);
+  const extension = getAudioFileExtension(format);
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+  // 所有分段使用相同的采样率与声道（TTS 与视频音轨的原始格式不同）
+  const stemFormat: AudioOutputFormat = {
+    ...format,
+    sampleRate: format.sampleRate ?? Math.max(...tracks.map((t) => t.buffer.sampleRate)),
+    channels: format.channels ?? (tracks.some((t) => t.buffer.numberOfChannels > 1) ? 2 : 1),
+  };
+
+  const entries: ZipEntry[] = [];
+  const manifestSegments: StemManifestEntry[] = [];
+  for (const [i, track] of tracks.entries()) {
+    const { segment, buffer } = track;
+    const file = `stems/${String(i + 1).padStart(3, '0')}-${segment.id}.${extension}`;
+    entries.push({ name: file, data: new Uint8Array(await (await encodeAudioBuffer(buffer, stemFormat)).arrayBuffer()) });
+    manifestSegments.push({
+      file,
+      id: segment.id,
+      spokenText: segment.spokenText,
+      gestureType: segment.gestureType,
+      speaker: findSpeaker(options.cast, segment.speakerId)?.name,
+      source: track.source,
+      rvc: track.rvc,
+      start: round(track.start),
+      end: round(track.end),
+      duration: round(track.end - track.start),
+      audioDuration: round(buffer.duration),
+    });
+  }
+
+  const manifest: StemManifest = {
+    format: STEMS_FORMAT,
+    version: STEMS_VERSION,
+    exportedAt: new Date().toISOString(),
+    codec: format.codec,
+    sampleRate: stemFormat.sampleRate!,
+    channels: stemFormat.channels!,
+    duration: round(tracks[tracks.length - 1].end),
+    segments: manifestSegments,
+  };
+  entries.unshift({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+
+  triggerDownload(createZip(entries), `rehearsal-stems-${Date.now()}.zip`);
+  console.log(`[AudioExport] Exported ${tracks.length} stems (${manifest.duration}s)`);
+  return tracks;
+}
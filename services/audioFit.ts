@@ -0,0 +1,53 @@
+/**
+ * TTS 音频的时长窗口适配
+ *
+ * Veo 使用参考图片时只能生成 8 秒视频，超时的 TTS 音频先做保持音高的时间压缩
+ * （WSOLA，见 audioUtils.timeStretchAudioBuffer），压不进窗口时才由调用方让模型缩短台词。
+ *
+ * 配置：
+ * - VITE_MAX_TIME_STRETCH：允许的最大加速倍率，默认 1.25（时长最多缩短 20%），设为 1 关闭时间压缩
+ */
+
+import { audioBufferToWavBlobUrl, decodeWavData, timeStretchAudioBuffer } from './audioUtils';
+
+/** 单段音频的最大时长（秒） */
+export const MAX_AUDIO_SECONDS = 8;
+
+const DEFAULT_MAX_TIME_STRETCH = 1.25;
+const MAX_TIME_STRETCH_LIMIT = 1.5; // 再快的语速听感明显失真
+const FIT_MARGIN = 0.98; // 压缩到略短于窗口，避免解码后的时长误差
+
+export const getMaxTimeStretch = (): number => {
+  const configured = Number(import.meta.env?.VITE_MAX_TIME_STRETCH);
+  if (!Number.isFinite(configured) || configured <= 0) return DEFAULT_MAX_TIME_STRETCH;
+  return Math.min(MAX_TIME_STRETCH_LIMIT, Math.max(1, configured));
+};
+
+export interface FittedAudio {
+  audioUrl: string;
+  audioDuration: number;
+  /** 实际加速倍率 */
+  timeStretch: number;
+}
+
+/**
+ * 把超时的音频压缩进 MAX_AUDIO_SECONDS 窗口
+ * @param force 为 true 时（不允许改写台词）即使按最大倍率仍超时，也返回按最大倍率压缩的结果
+ * @returns 压缩后的音频（原 blob URL 已释放）；不需要压缩、未启用压缩或压不进窗口（且非 force）时为 null
+ */
+export async function fitAudioToWindow(audioUrl: string, audioDuration: number, force: boolean = false): Promise<FittedAudio | null> {
+  const maxStretch = getMaxTimeStretch();
+  if (audioDuration <= MAX_AUDIO_SECONDS || maxStretch <= 1) return null;
+
+  const needed = audioDuration / (MAX_AUDIO_SECONDS * FIT_MARGIN);
+  if (needed > maxStretch && !force) return null;
+  const speed = Math.min(needed, maxStretch);
+
+  const response = await fetch(audioUrl);
+  const buffer = await decodeWavData(await response.arrayBuffer());
+  const stretched = timeStretchAudioBuffer(buffer, speed);
+  URL.revokeObjectURL(audioUrl);
+
+  console.log(`[AudioFit] ${audioDuration.toFixed(2)}s → ${stretched.duration.toFixed(2)}s (${speed.toFixed(2)}x)`);
+  return { audioUrl: audioBufferToWavBlobUrl(stretched), audioDuration: stretched.duration, timeStretch: speed };
+}
@@ -0,0 +1,316 @@
+/**
+ * 段落音频的响度统一与静音裁剪
+ *
+ * TTS 与手势视频自带音轨的响度差异很大，TTS 前后的静音也长短不一。播放和导出前，每段音频：
+ * 1. 裁剪首尾静音（保留 paddingSeconds）；手势视频的音轨要与口型同步，不裁剪
+ * 2. 按 ITU-R BS.1770 / EBU R128 测量积分响度（K 计权、400ms 块、绝对 -70 LUFS 与相对 -10 LU 门限）
+ * 3. 增益到目标响度，再用前视限幅器把真峰值（4 倍过采样）压到上限以下
+ *
+ * 配置（环境变量，未设置时使用 DEFAULT_AUDIO_PROCESSING）：
+ * - VITE_AUDIO_NORMALIZE：设为 false 关闭处理
+ * - VITE_AUDIO_TARGET_LUFS：目标响度，默认 -16
+ * - VITE_AUDIO_TRUE_PEAK_DB：真峰值上限（dBTP），默认 -1
+ * - VITE_AUDIO_SILENCE_PADDING：裁剪静音后首尾保留的秒数，默认 0.15；设为负数不裁剪
+ */
+
+import { decodeWavData } from './audioUtils';
+
+export interface AudioProcessingOptions {
+  /** 目标积分响度（LUFS） */
+  targetLufs: number;
+  /** 真峰值上限（dBTP） */
+  truePeakDb: number;
+  /** 是否裁剪首尾静音 */
+  trimSilence: boolean;
+  /** 低于该电平（dBFS）的 10ms 帧视为静音 */
+  silenceThresholdDb: number;
+  /** 裁剪后首尾保留的静音（秒） */
+  paddingSeconds: number;
+}
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingOptions = {
+  targetLufs: -16,
+  truePeakDb: -1,
+  trimSilence: true,
+  silenceThresholdDb: -50,
+  paddingSeconds: 0.15,
+};
+
+/** 单段音频的处理结果 */
+export interface ProcessedAudio {
+  buffer: AudioBuffer;
+  /** 开头裁掉的秒数（逐词时间戳需要减去） */
+  trimStart: number;
+  /** 处理前的积分响度（LUFS），静音时为 -Infinity */
+  loudness: number;
+  /** 施加的增益（dB） */
+  gainDb: number;
+}
+
+const MAX_GAIN_DB = 20; // 几乎无声的音频不做过量提升，避免放大底噪
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.05;
+
+const readNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * 从环境变量读取处理选项；VITE_AUDIO_NORMALIZE=false 时返回 null（不处理）
+ */
+export function getAudioProcessingOptionsFromEnv(): AudioProcessingOptions | null {
+  const env = import.meta.env;
+  if (String(env?.VITE_AUDIO_NORMALIZE ?? '').toLowerCase() === 'false') return null;
+  const padding = readNumber(env?.VITE_AUDIO_SILENCE_PADDING);
+  return {
+    ...DEFAULT_AUDIO_PROCESSING,
+    targetLufs: readNumber(env?.VITE_AUDIO_TARGET_LUFS) ?? DEFAULT_AUDIO_PROCESSING.targetLufs,
+    truePeakDb: Math.min(0, readNumber(env?.VITE_AUDIO_TRUE_PEAK_DB) ?? DEFAULT_AUDIO_PROCESSING.truePeakDb),
+    trimSilence: padding === undefined || padding >= 0,
+    paddingSeconds: padding !== undefined && padding >= 0 ? padding : DEFAULT_AUDIO_PROCESSING.paddingSeconds,
+  };
+}
+
+const dbToGain = (db: number): number => Math.pow(10, db / 20);
+
+const channelsOf = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+/** 二阶 IIR 滤波（Direct Form I） */
+const biquad = (input: Float32Array, b: [number, number, number], a: [number, number]): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    output[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return output;
+};
+
+/**
+ * K 计权：高频搁架滤波 + RLB 高通（BS.1770 系数按采样率重新推导，同 libebur128）
+ */
+const kWeight = (input: Float32Array, sampleRate: number): Float32Array => {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelved = biquad(
+    input,
+    [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]
+  );
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  return biquad(shelved, [1, -2, 1], [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0]);
+};
+
+/**
+ * 积分响度（LUFS）：400ms 块、75% 重叠，先用 -70 LUFS 绝对门限，再用低于平均响度 10 LU 的相对门限。
+ * 不足 400ms 的音频按整段计算；完全静音时为 -Infinity
+ */
+export function measureIntegratedLoudness(buffer: AudioBuffer): number {
+  const weighted = channelsOf(buffer).map((data) => kWeight(data, buffer.sampleRate));
+  const blockSize = Math.min(buffer.length, Math.round(buffer.sampleRate * 0.4));
+  const step = Math.max(1, Math.round(blockSize / 4));
+  if (blockSize === 0) return -Infinity;
+
+  const blockPowers: number[] = [];
+  for (let start = 0; start + blockSize <= buffer.length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += data[i] * data[i];
+      power += sum / blockSize;
+    }
+    blockPowers.push(power);
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (powers: number[]) => powers.reduce((sum, p) => sum + p, 0) / powers.length;
+  const absolute = blockPowers.filter((p) => toLufs(p) > -70);
+  if (absolute.length === 0) return -Infinity;
+  const relativeGate = toLufs(mean(absolute)) - 10;
+  const gated = absolute.filter((p) => toLufs(p) > relativeGate);
+  return toLufs(mean(gated));
+}
+
+// 4 倍过采样的插值核：Hann 窗 sinc，每个相位 12 个抽头
+const OVERSAMPLE = 4;
+const INTERPOLATION_TAPS = 6;
+const INTERPOLATION_KERNEL: number[][] = Array.from({ length: OVERSAMPLE - 1 }, (_, p) => {
+  const fraction = (p + 1) / OVERSAMPLE;
+  return Array.from({ length: INTERPOLATION_TAPS * 2 }, (_, t) => {
+    const x = t - INTERPOLATION_TAPS + 1 - fraction; // 采样点相对插值位置的距离
+    const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / INTERPOLATION_TAPS);
+    return sinc * window;
+  });
+});
+
+/**
+ * 每个采样点到下一个采样点之间的真峰值（含 4 倍过采样的插值点）
+ */
+const truePeakEnvelope = (data: Float32Array): Float32Array => {
+  const envelope = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    let peak = Math.abs(data[i]);
+    for (const kernel of INTERPOLATION_KERNEL) {
+      let value = 0;
+      for (let t = 0; t < kernel.length; t++) {
+        const index = i + t - INTERPOLATION_TAPS + 1;
+        if (index >= 0 && index < data.length) value += data[index] * kernel[t];
+      }
+      peak = Math.max(peak, Math.abs(value));
+    }
+    envelope[i] = peak;
+  }
+  return envelope;
+};
+
+/** 真峰值（线性幅度，所有声道中的最大值） */
+export function measureTruePeak(buffer: AudioBuffer): number {
+  return channelsOf(buffer).reduce((max, data) => Math.max(max, truePeakEnvelope(data).reduce((m, v) => Math.max(m, v), 0)), 0);
+}
+
+/**
+ * 以 10ms 帧电平找出首尾非静音的位置，前后各保留 padding 秒
+ * @returns 保留区间（秒）；整段静音时返回整段
+ */
+export function findSilenceBounds(buffer: AudioBuffer, thresholdDb: number, padding: number): { start: number; end: number } {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * 0.01));
+  const frameCount = Math.ceil(buffer.length / frameSize);
+  const threshold = dbToGain(thresholdDb);
+  const channels = channelsOf(buffer);
+  const isLoud = (frame: number): boolean => {
+    const end = Math.min(buffer.length, (frame + 1) * frameSize);
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = frame * frameSize; i < end; i++) sum += data[i] * data[i];
+    }
+    return Math.sqrt(sum / ((end - frame * frameSize) * channels.length)) >= threshold;
+  };
+
+  let first = 0;
+  while (first < frameCount && !isLoud(first)) first++;
+  if (first === frameCount) return { start: 0, end: buffer.duration };
+  let last = frameCount - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  return {
+    start: Math.max(0, (first * frameSize) / buffer.sampleRate - padding),
+    end: Math.min(buffer.duration, ((last + 1) * frameSize) / buffer.sampleRate + padding),
+  };
+}
+
+/** 截取 [start, end) 秒的音频 */
+export function sliceAudioBuffer(buffer: AudioBuffer, start: number, end: number): AudioBuffer {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const output = new AudioBuffer({ length: Math.max(1, to - from), numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  channelsOf(buffer).forEach((data, c) => output.getChannelData(c).set(data.subarray(from, to)));
+  return output;
+}
+
+/**
+ * 施加增益并限幅：真峰值超过上限时，用前视窗口内的最小增益平滑压低峰值附近的音量，
+ * 之后按释放时间恢复。各声道使用同一条增益曲线
+ */
+export function applyGainWithLimiter(buffer: AudioBuffer, gainDb: number, truePeakDb: number): AudioBuffer {
+  const gain = dbToGain(gainDb);
+  const ceiling = dbToGain(truePeakDb);
+  const length = buffer.length;
+  const output = new AudioBuffer({ length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  const scaled = channelsOf(buffer).map((data) => data.map((v) => v * gain));
+
+  // 每个采样点需要的增益，使该点附近的真峰值不超过上限
+  const required = new Float32Array(length).fill(1);
+  for (const data of scaled) {
+    const envelope = truePeakEnvelope(data);
+    for (let i = 0; i < length; i++) {
+      if (envelope[i] > ceiling) required[i] = Math.min(required[i], ceiling / envelope[i]);
+    }
+  }
+
+  if (required.every((v) => v === 1)) {
+    scaled.forEach((data, c) => output.getChannelData(c).set(data));
+    return output;
+  }
+
+  // 宽度 2L+1 的最小值滤波再做同宽度的平均：平均窗口内每个值都不大于中心点的需求，限幅不会失效
+  const L = Math.max(1, Math.round(buffer.sampleRate * LIMITER_LOOKAHEAD_SECONDS));
+  const windowMin = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let min = 1;
+    for (let k = Math.max(0, i - L); k <= Math.min(length - 1, i + L); k++) min = Math.min(min, required[k]);
+    windowMin[i] = min;
+  }
+  const release = 1 - Math.exp(-1 / (buffer.sampleRate * LIMITER_RELEASE_SECONDS));
+  const curve = new Float32Array(length);
+  let sum = 0;
+  for (let i = -L; i < length; i++) {
+    // 滑动窗口 [i - L, i + L] 的和
+    if (i + L < length) sum += windowMin[i + L];
+    if (i - L - 1 >= 0) sum -= windowMin[i - L - 1];
+    if (i < 0) continue;
+    const count = Math.min(length - 1, i + L) - Math.max(0, i - L) + 1;
+    const smoothed = sum / count;
+    const previous = i > 0 ? curve[i - 1] : 1;
+    curve[i] = Math.min(smoothed, previous + (1 - previous) * release);
+  }
+
+  scaled.forEach((data, c) => {
+    const target = output.getChannelData(c);
+    for (let i = 0; i < length; i++) target[i] = Math.max(-ceiling, Math.min(ceiling, data[i] * curve[i]));
+  });
+  return output;
+}
+
+/**
+ * 处理一段音频：可选裁剪首尾静音，统一到目标响度并限制真峰值
+ * @param trim 为 false 时不裁剪（手势视频的音轨需要与画面同步）
+ */
+export function processSegmentAudio(buffer: AudioBuffer, options: AudioProcessingOptions, trim: boolean = true): ProcessedAudio {
+  let trimStart = 0;
+  let source = buffer;
+  if (trim && options.trimSilence) {
+    const bounds = findSilenceBounds(buffer, options.silenceThresholdDb, options.paddingSeconds);
+    if (bounds.start > 0 || bounds.end < buffer.duration) {
+      source = sliceAudioBuffer(buffer, bounds.start, bounds.end);
+      trimStart = bounds.start;
+    }
+  }
+
+  const loudness = measureIntegratedLoudness(source);
+  const gainDb = Number.isFinite(loudness) ? Math.min(MAX_GAIN_DB, options.targetLufs - loudness) : 0;
+  return { buffer: applyGainWithLimiter(source, gainDb, options.truePeakDb), trimStart, loudness, gainDb };
+}
+
+/**
+ * 下载并处理一段音频（WAV，或任何浏览器能解码的音频 / 视频文件）
+ */
+export async function processAudioUrl(url: string, options: AudioProcessingOptions, trim: boolean = true): Promise<ProcessedAudio> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+  return processSegmentAudio(await decodeWavData(await response.arrayBuffer()), options, trim);
+}
+
+/**
+ * 只计算一段 TTS 音频的静音裁剪区间（不处理音频），字幕时间轴据此与处理后的播放 / 导出保持一致
+ */
+export async function measureTrimBounds(url: string, options: AudioProcessingOptions): Promise<{ start: number; end: number }> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+  const buffer = await decodeWavData(await response.arrayBuffer());
+  return options.trimSilence
+    ? findSilenceBounds(buffer, options.silenceThresholdDb, options.paddingSeconds)
+    : { start: 0, end: buffer.duration };
+}
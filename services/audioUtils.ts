@@ -9,6 +9,16 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+// Encodes a byte array to base64 string (chunked to avoid call stack limits)
+export function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
 // Decodes raw PCM data into an AudioBuffer
 export async function decodeAudioData(
   data: Uint8Array,
@@ -29,16 +39,92 @@ export async function decodeAudioData(
   return buffer;
 }
 
+/**
+ * Decodes a WAV file into an AudioBuffer at its native sample rate.
+ * Supports PCM 8/16/24/32-bit and IEEE float 32-bit; other formats fall back to Web Audio decoding
+ * (which resamples to the context rate).
+ */
+export async function decodeWavData(data: ArrayBuffer): Promise<AudioBuffer> {
+  const view = new DataView(data);
+  const readTag = (offset: number) =>
+    String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+  const isWav = data.byteLength >= 12 && readTag(0) === 'RIFF' && readTag(8) === 'WAVE';
+  let format = 0;
+  let numChannels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the RIFF chunks looking for "fmt " and "data"
+  let pos = 12;
+  while (isWav && pos + 8 <= data.byteLength) {
+    const tag = readTag(pos);
+    const size = view.getUint32(pos + 4, true);
+    if (tag === 'fmt ') {
+      format = view.getUint16(pos + 8, true);
+      numChannels = view.getUint16(pos + 10, true);
+      sampleRate = view.getUint32(pos + 12, true);
+      bitsPerSample = view.getUint16(pos + 22, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real format code is the first 2 bytes of the sub-format GUID
+      if (format === 0xfffe && size >= 40) format = view.getUint16(pos + 32, true);
+    } else if (tag === 'data') {
+      dataOffset = pos + 8;
+      // Streaming servers may write 0 or 0xFFFFFFFF as the data size
+      dataLength = size === 0 || size > data.byteLength - dataOffset ? data.byteLength - dataOffset : size;
+      break;
+    }
+    pos += 8 + size + (size % 2);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const supported =
+    dataOffset >= 0 && numChannels > 0 && sampleRate > 0 &&
+    ((format === 1 && [1, 2, 3, 4].includes(bytesPerSample)) || (format === 3 && bytesPerSample === 4));
+
+  if (!supported) {
+    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+      return await ctx.decodeAudioData(data.slice(0));
+    } finally {
+      await ctx.close();
+    }
+  }
+
+  const frameCount = Math.floor(dataLength / (bytesPerSample * numChannels));
+  const buffer = new AudioBuffer({ length: Math.max(1, frameCount), numberOfChannels: numChannels, sampleRate });
+  const readSample = (offset: number): number => {
+    if (format === 3) return view.getFloat32(offset, true);
+    switch (bytesPerSample) {
+      case 1: return (view.getUint8(offset) - 128) / 128;
+      case 2: return view.getInt16(offset, true) / 32768;
+      case 3: return ((view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16))) / 8388608;
+      default: return view.getInt32(offset, true) / 2147483648;
+    }
+  };
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = readSample(dataOffset + (i * numChannels + channel) * bytesPerSample);
+    }
+  }
+  return buffer;
+}
+
+/** Bits per sample of WAV output: 16 / 24-bit integer PCM, or 32-bit IEEE float */
+export type WavBitDepth = 16 | 24 | 32;
+
 // Builds WAV ArrayBuffer from AudioBuffer (shared for Blob and Blob URL)
-function audioBufferToWavArrayBuffer(buffer: AudioBuffer): ArrayBuffer {
+function audioBufferToWavArrayBuffer(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): ArrayBuffer {
   const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2 + 44;
-  const bufferArray = new ArrayBuffer(length);
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numOfChan * bytesPerSample;
+  const dataLength = buffer.length * blockAlign;
+  const bufferArray = new ArrayBuffer(44 + dataLength);
   const view = new DataView(bufferArray);
   const channels: Float32Array[] = [];
-  let i: number;
-  let sample: number;
-  let offset = 0;
   let pos = 0;
 
   function setUint16(data: number) {
@@ -51,37 +137,190 @@ function audioBufferToWavArrayBuffer(buffer: AudioBuffer): ArrayBuffer {
   }
 
   setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
+  setUint32(36 + dataLength); // file length - 8
   setUint32(0x45564157); // "WAVE"
   setUint32(0x20746d66); // "fmt " chunk
   setUint32(16);
-  setUint16(1); // PCM
+  setUint16(bitDepth === 32 ? 3 : 1); // IEEE float / PCM
   setUint16(numOfChan);
   setUint32(buffer.sampleRate);
-  setUint32(buffer.sampleRate * 2 * numOfChan);
-  setUint16(numOfChan * 2);
-  setUint16(16); // 16-bit
+  setUint32(buffer.sampleRate * blockAlign);
+  setUint16(blockAlign);
+  setUint16(bitDepth);
   setUint32(0x61746164); // "data"
-  setUint32(length - pos - 4);
+  setUint32(dataLength);
 
-  for (i = 0; i < buffer.numberOfChannels; i++)
-    channels.push(buffer.getChannelData(i));
+  for (let c = 0; c < numOfChan; c++) channels.push(buffer.getChannelData(c));
 
-  while (pos < buffer.length) {
-    for (i = 0; i < numOfChan; i++) {
-      sample = Math.max(-1, Math.min(1, channels[i][pos]));
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0;
-      view.setInt16(44 + offset, sample, true);
-      offset += 2;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numOfChan; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      if (bitDepth === 32) {
+        view.setFloat32(pos, sample, true);
+      } else if (bitDepth === 24) {
+        const value = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607);
+        view.setUint8(pos, value & 0xff);
+        view.setUint8(pos + 1, (value >> 8) & 0xff);
+        view.setUint8(pos + 2, (value >> 16) & 0xff);
+      } else {
+        view.setInt16(pos, (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0, true);
+      }
+      pos += bytesPerSample;
     }
-    pos++;
   }
   return bufferArray;
 }
 
+const SINC_ZERO_CROSSINGS = 16; // kernel half-width in zero crossings of the low-pass cutoff
+const SINC_RESOLUTION = 512;    // kernel table entries per zero crossing
+
+// Blackman-windowed sinc, tabulated from 0 to SINC_ZERO_CROSSINGS
+const SINC_TABLE = (() => {
+  const size = SINC_ZERO_CROSSINGS * SINC_RESOLUTION + 1;
+  const table = new Float32Array(size + 1);
+  for (let k = 0; k < size; k++) {
+    const x = k / SINC_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const phase = Math.PI * (1 + x / SINC_ZERO_CROSSINGS);
+    table[k] = sinc * (0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase));
+  }
+  return table;
+})();
+
+/**
+ * Band-limited resampling (windowed-sinc interpolation).
+ * When downsampling, the kernel is widened so everything above the new Nyquist frequency is filtered out.
+ * Returns the buffer itself when the rate already matches.
+ */
+export function resampleAudioBuffer(buffer: AudioBuffer, sampleRate: number): AudioBuffer {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const ratio = sampleRate / buffer.sampleRate;
+  const { numberOfChannels, length } = buffer;
+  const outLength = Math.max(1, Math.round(length * ratio));
+  const output = new AudioBuffer({ length: outLength, numberOfChannels, sampleRate });
+
+  const cutoff = Math.min(1, ratio); // fraction of the input Nyquist frequency that is kept
+  const halfWidth = Math.ceil(SINC_ZERO_CROSSINGS / cutoff); // taps on each side, in input samples
+  const tableScale = cutoff * SINC_RESOLUTION;
+  const tableEnd = SINC_ZERO_CROSSINGS * SINC_RESOLUTION;
+
+  for (let c = 0; c < numberOfChannels; c++) {
+    const input = buffer.getChannelData(c);
+    const out = output.getChannelData(c);
+    for (let i = 0; i < outLength; i++) {
+      const center = i / ratio;
+      const first = Math.max(0, Math.ceil(center - halfWidth));
+      const last = Math.min(length - 1, Math.floor(center + halfWidth));
+      let sum = 0;
+      for (let j = first; j <= last; j++) {
+        const position = Math.abs(center - j) * tableScale;
+        if (position >= tableEnd) continue;
+        const k = Math.floor(position);
+        const frac = position - k;
+        sum += input[j] * (SINC_TABLE[k] + frac * (SINC_TABLE[k + 1] - SINC_TABLE[k]));
+      }
+      out[i] = sum * cutoff;
+    }
+  }
+  return output;
+}
+
+/**
+ * Changes the channel count: mono is copied to every output channel (up-mix), any layout mixes
+ * down to mono by averaging, other combinations keep the matching channels and silence the rest.
+ * Returns the buffer itself when the count already matches.
+ */
+export function remixAudioBuffer(buffer: AudioBuffer, numberOfChannels: number): AudioBuffer {
+  if (buffer.numberOfChannels === numberOfChannels) return buffer;
+  const { length, sampleRate } = buffer;
+  const output = new AudioBuffer({ length, numberOfChannels, sampleRate });
+  const inputs = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  if (numberOfChannels === 1) {
+    const mono = output.getChannelData(0);
+    for (const data of inputs) for (let i = 0; i < length; i++) mono[i] += data[i] / inputs.length;
+  } else {
+    for (let c = 0; c < numberOfChannels; c++) {
+      const source = inputs.length === 1 ? inputs[0] : inputs[c];
+      if (source) output.copyToChannel(source, c);
+    }
+  }
+  return output;
+}
+
+/**
+ * Pitch-preserving time-stretch (WSOLA: waveform-similarity overlap-add).
+ *
+ * Output frames are taken from the input at a hop of `speed` times the synthesis hop; each frame's
+ * start is moved within ±10 ms to the position whose waveform best matches the natural continuation
+ * of the previous frame, so periodic speech is spliced without phase jumps and the pitch is unchanged.
+ * All channels use the offsets found on the channel mix to stay in sync.
+ *
+ * @param speed Playback speed factor: 1.25 makes the audio 20% shorter, values < 1 make it longer
+ */
+export function timeStretchAudioBuffer(buffer: AudioBuffer, speed: number): AudioBuffer {
+  const { sampleRate, numberOfChannels, length } = buffer;
+  const outLength = Math.max(1, Math.round(length / speed));
+  const output = new AudioBuffer({ length: outLength, numberOfChannels, sampleRate });
+  if (Math.abs(speed - 1) < 1e-3) {
+    for (let c = 0; c < numberOfChannels; c++) output.copyToChannel(buffer.getChannelData(c), c);
+    return output;
+  }
+
+  const frameLength = Math.round(sampleRate * 0.03) & ~1; // 30 ms frames
+  const synthesisHop = frameLength / 2;                   // 50% overlap with a Hann window
+  const tolerance = Math.round(sampleRate * 0.01);        // ±10 ms search range
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const mix = numberOfChannels === 1 ? channels[0] : new Float32Array(length);
+  if (numberOfChannels > 1) {
+    for (const data of channels) for (let i = 0; i < length; i++) mix[i] += data[i] / numberOfChannels;
+  }
+  const sampleAt = (data: Float32Array, i: number) => (i >= 0 && i < length ? data[i] : 0);
+
+  const outChannels = Array.from({ length: numberOfChannels }, (_, c) => output.getChannelData(c));
+  const weights = new Float32Array(outLength + frameLength);
+  let previous = 0;
+
+  for (let outPos = 0, k = 0; outPos < outLength; outPos += synthesisHop, k++) {
+    const nominal = Math.round(outPos * speed);
+    let best = nominal;
+    if (k > 0) {
+      // The frame that would naturally follow the previous one; pick the candidate most similar to it
+      const target = previous + synthesisHop;
+      let bestScore = -Infinity;
+      for (let candidate = nominal - tolerance; candidate <= nominal + tolerance; candidate++) {
+        let score = 0;
+        for (let i = 0; i < synthesisHop; i += 2) score += sampleAt(mix, candidate + i) * sampleAt(mix, target + i);
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+    best = Math.max(0, best);
+    previous = best;
+
+    for (let i = 0; i < frameLength && outPos + i < outLength; i++) {
+      const w = window[i];
+      for (let c = 0; c < numberOfChannels; c++) outChannels[c][outPos + i] += w * sampleAt(channels[c], best + i);
+      weights[outPos + i] += w;
+    }
+  }
+
+  for (let i = 0; i < outLength; i++) {
+    // Edges are covered by a single window; clamp so near-zero weights are not boosted
+    const w = Math.max(weights[i], 0.1);
+    for (let c = 0; c < numberOfChannels; c++) outChannels[c][i] /= w;
+  }
+  return output;
+}
+
 /** Returns a WAV Blob (for upload to RVC etc.) */
-export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
-  return new Blob([audioBufferToWavArrayBuffer(buffer)], { type: 'audio/wav' });
+export function audioBufferToWavBlob(buffer: AudioBuffer, bitDepth: WavBitDepth = 16): Blob {
+  return new Blob([audioBufferToWavArrayBuffer(buffer, bitDepth)], { type: 'audio/wav' });
 }
 
 // Converts an AudioBuffer to a WAV Blob URL for easy playback in <audio> elements
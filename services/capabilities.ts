@@ -0,0 +1,310 @@
+/**
+ * AI 能力入口
+ *
+ * 应用层（App、Player、导出）只通过这里调用脚本 / 定妆照 / TTS / 视频 / 审查能力，
+ * 具体由哪个后端（Gemini、Mock 等）执行由 providers 注册表根据配置决定。
+ * 定妆照、TTS、视频和审查调用经 jobScheduler 排队（限制并发、瞬时错误自动重试）。
+ */
+
+import { getProvider } from './providers';
+import type { GestureTypeValue, VideoGenerationResult } from './providers';
+import type { GeminiScriptResponse, LanguageCode, QaResponse, ScriptOptions, ScriptValidationReport, Slide, VideoReviewContext, VideoReviewResult, VoiceSettings, WordTiming } from '../types';
+import { ensureValidScript, repairScriptItem, repairScriptResponse, validateScriptResponse } from './scriptValidation';
+import { createScriptStreamParser } from './scriptStream';
+import { segmentSpeech } from './textLimits';
+import { alignScriptToSlides } from './slides';
+import { countTextUnits, LANGUAGE_PROFILES } from './language';
+import { runJob, type JobOptions } from './jobScheduler';
+
+export type { GestureTypeValue, VideoGenerationResult } from './providers';
+export { base64ToDataUrl } from './mediaUtils';
+
+export type ScriptItem = GeminiScriptResponse['script'][number];
+
+/**
+ * 生成脚本并做运行时校验：本地能修复的直接修复，其余问题让同一后端定向修正
+ * @param options 可选：生成选项（目标时长、听众、正式程度、语言、手势密度）
+ * @param slides 可选：导入的幻灯片大纲；最终结果中每个段落的 slide_index 都指向存在的幻灯片
+ * @param onSegment 可选：后端支持流式输出时，每个段落完整到达（并经本地修复）后立即回调，
+ *                  index 为该段落在流中的顺序；最终结果仍以返回值为准
+ */
+export const generateRehearsalScript = async (
+  scenario: string,
+  options?: ScriptOptions,
+  slides: Slide[] = [],
+  onSegment?: (item: ScriptItem, index: number) => void
+): Promise<{ response: GeminiScriptResponse; report: ScriptValidationReport }> => {
+  const provider = getProvider('script');
+
+  let raw: GeminiScriptResponse;
+  if (onSegment && provider.streamScript) {
+    const parser = createScriptStreamParser();
+    let rawIndex = 0;
+    let emitted = 0;
+    raw = await provider.streamScript(scenario, (chunk) => {
+      for (const item of parser.push(chunk)) {
+        // 空台词段落等最终校验（可能由模型补全）后再出现
+        repairScriptItem(item, rawIndex++, true).items.forEach((repaired) => onSegment(repaired, emitted++));
+      }
+    }, options, slides);
+  } else {
+    raw = await provider.generateScript(scenario, options, slides);
+  }
+
+  const { response, report } = await ensureValidScript(raw, (previous, violations) => provider.fixScript(scenario, previous, violations));
+  const aligned = alignScriptToSlides(response.script, slides.length);
+  if (aligned.repairs.length > 0) {
+    console.log(`[ScriptValidation] Aligned slide indices:\n  ${aligned.repairs.join('\n  ')}`);
+  }
+  return {
+    response: { ...response, script: aligned.script },
+    report: { ...report, repairs: [...report.repairs, ...aligned.repairs] },
+  };
+};
+
+/**
+ * 总时长短于目标时补写段落。新段落做与脚本相同的本地修复；
+ * 说话人不在现有脚本中的段落改由第一个说话人说（单人脚本去掉 speaker_id）；
+ * 带幻灯片的脚本中，新段落的幻灯片限定在插入位置前后两段之间
+ */
+export const extendRehearsalScript = async (
+  scenario: string,
+  script: ScriptItem[],
+  missingSeconds: number,
+  count: number,
+  options: ScriptOptions
+): Promise<{ items: ScriptItem[]; repairs: string[] }> => {
+  const raw = await getProvider('script').extendScript(scenario, script, missingSeconds, count, options);
+  const speakerIds = [...new Set(script.map((item) => item.speaker_id).filter(Boolean))] as string[];
+  const slideBefore = script[Math.max(0, script.length - 2)]?.slide_index;
+  const slideAfter = script[script.length - 1]?.slide_index;
+  const repairs: string[] = [];
+
+  const items = (Array.isArray(raw?.script) ? raw.script : []).flatMap((item, index) => {
+    const repaired = repairScriptItem(item, index, true);
+    repairs.push(...repaired.repairs.map((r) => `New ${r.charAt(0).toLowerCase()}${r.slice(1)}`));
+    return repaired.items.map(({ speaker_id, slide_index, ...rest }) => ({
+      ...rest,
+      ...(speakerIds.length > 0
+        ? { speaker_id: speaker_id && speakerIds.includes(speaker_id) ? speaker_id : speakerIds[0] }
+        : {}),
+      ...(slideBefore && slideAfter
+        ? { slide_index: Math.min(Math.max(slideBefore, slideAfter), Math.max(slideBefore, slide_index ?? slideBefore)) }
+        : {}),
+    }));
+  });
+  return { items, repairs };
+};
+
+/**
+ * "使用自己的演讲稿" 模式：本地按 TEXT_LIMITS 确定性切分台词，模型只负责标注手势与角色。
+ * spoken_text 始终取自本地切分结果，只做本地修复、不请求模型修正，保证台词一字不改。
+ */
+export const annotateUserScript = async (
+  speech: string
+): Promise<{ response: GeminiScriptResponse; report: ScriptValidationReport }> => {
+  const segments = segmentSpeech(speech);
+  if (segments.length === 0) {
+    throw new Error('The speech text is empty');
+  }
+
+  const annotation = await getProvider('script').annotateScript(segments);
+  const byIndex = new Map((annotation.annotations || []).map((a) => [a.index, a]));
+  const raw: GeminiScriptResponse = {
+    script: segments.map((text, index) => {
+      const a = byIndex.get(index);
+      return {
+        spoken_text: text,
+        gesture_type: a?.gesture_type ?? 'beat',
+        ...(a?.gesture_description ? { gesture_description: a.gesture_description } : {}),
+      };
+    }),
+    character_description: annotation.character_description,
+    character_personality: annotation.character_personality,
+  };
+
+  const violations = validateScriptResponse(raw);
+  const missing = segments.length - segments.filter((_, index) => byIndex.has(index)).length;
+  const { result, repairs, remaining } = repairScriptResponse(raw, true);
+  if (missing > 0) {
+    repairs.unshift(`${missing} segment(s) had no gesture annotation, using beat`);
+  }
+  const fatal = remaining.filter((v) => v.code === 'missing_character_description');
+  if (fatal.length > 0) {
+    throw new Error(`Invalid script annotation: ${fatal.map((v) => v.message).join('; ')}`);
+  }
+  if (repairs.length > 0) {
+    console.log(`[ScriptValidation] Repaired annotations:\n  ${repairs.join('\n  ')}`);
+  }
+
+  return { response: result, report: { violations, repairs, modelFixed: false } };
+};
+
+/**
+ * 排练翻译：逐段翻译台词，返回与 script 一一对应的译文。
+ * 缺少译文的段落保留原文；超出目标语言长度上限的译文只提示，由 TTS 时长验证负责缩短
+ */
+export const translateRehearsal = async (
+  scenario: string,
+  script: ScriptItem[],
+  language: LanguageCode
+): Promise<{ texts: string[]; repairs: string[] }> => {
+  const raw = await getProvider('script').translateScript(scenario, script, language);
+  const byIndex = new Map(
+    (Array.isArray(raw?.translations) ? raw.translations : [])
+      .filter((t) => typeof t?.spoken_text === 'string' && t.spoken_text.trim())
+      .map((t) => [t.index, t.spoken_text.trim()])
+  );
+  const { limits, unitName } = LANGUAGE_PROFILES[language];
+  const repairs: string[] = [];
+
+  const texts = script.map((item, index) => {
+    const text = byIndex.get(index);
+    if (!text) {
+      repairs.push(`Segment ${index + 1}: missing translation, keeping the original text`);
+      return item.spoken_text;
+    }
+    const count = countTextUnits(text, language);
+    if (count > limits.max) {
+      repairs.push(`Segment ${index + 1}: translation is ${count} ${unitName} (max ${limits.max})`);
+    }
+    return text;
+  });
+
+  if (byIndex.size === 0) {
+    throw new Error('No translations were returned');
+  }
+  if (repairs.length > 0) {
+    console.log(`[ScriptValidation] Translation issues:\n  ${repairs.join('\n  ')}`);
+  }
+  return { texts, repairs };
+};
+
+/**
+ * 观众问答：预测问题并生成参考回答。回答段落做与脚本相同的本地修复
+ * （缺描述的手势降级、超长台词拆分等），没有问题文本或回答为空的条目丢弃
+ */
+export const generateAudienceQuestions = async (
+  scenario: string,
+  scriptLines: string[],
+  count: number = 4
+): Promise<{ response: QaResponse; repairs: string[] }> => {
+  const raw = await getProvider('script').generateQuestions(scenario, scriptLines, count);
+  const repairs: string[] = [];
+
+  const questions = (Array.isArray(raw?.questions) ? raw.questions : []).flatMap((item, index) => {
+    const question = typeof item?.question === 'string' ? item.question.trim() : '';
+    const answer = (Array.isArray(item?.answer) ? item.answer : []).flatMap((segment, segmentIndex) => {
+      const repaired = repairScriptItem(segment, segmentIndex, true);
+      repairs.push(...repaired.repairs.map((r) => `Question ${index + 1}, ${r}`));
+      return repaired.items;
+    });
+    if (!question || answer.length === 0) {
+      repairs.push(`Question ${index + 1}: removed (missing question or answer)`);
+      return [];
+    }
+    return [{ question, answer }];
+  });
+
+  if (questions.length === 0) {
+    throw new Error('No usable audience questions were generated');
+  }
+  return { response: { questions }, repairs };
+};
+
+export const regenerateShorterText = (
+  originalText: string,
+  currentDuration: number,
+  scenario: string
+): Promise<string> => getProvider('script').shortenText(originalText, currentDuration, scenario);
+
+/**
+ * @param job 可选：调度信息（所属段落、优先级），见 jobScheduler
+ */
+export const generateCharacterImage = (characterDescription: string, job?: JobOptions): Promise<string> =>
+  runJob('image', () => getProvider('image').generateCharacterImage(characterDescription), { label: 'Character image', ...job });
+
+/**
+ * @param settings 可选：音色（取自 getSpeechVoices，为空时使用后端默认音色）与朗读风格
+ * @param job 可选：调度信息（所属段落、优先级），见 jobScheduler
+ */
+export const generateSpeech = (text: string, settings: VoiceSettings = {}, job?: JobOptions): Promise<string> =>
+  runJob('speech', () => getProvider('speech').generateSpeech(text, settings.voice, settings.style || undefined), { label: 'Speech', ...job });
+
+/**
+ * 合成语音，后端支持时同时返回逐词时间戳（否则 wordTimings 为空，由 resolveWordTimings 在本地对齐）
+ */
+export const generateTimedSpeech = (
+  text: string,
+  settings: VoiceSettings = {},
+  job?: JobOptions
+): Promise<{ audioUrl: string; wordTimings?: WordTiming[] }> =>
+  runJob('speech', async () => {
+    const provider = getProvider('speech');
+    const style = settings.style || undefined;
+    if (provider.generateTimedSpeech) return provider.generateTimedSpeech(text, settings.voice, style);
+    return { audioUrl: await provider.generateSpeech(text, settings.voice, style) };
+  }, { label: 'Speech', ...job });
+
+/** 当前 TTS 后端可用的音色，第一个为默认音色；后端不支持选择音色时为空数组 */
+export const getSpeechVoices = (): string[] => getProvider('speech').voices ?? [];
+
+/** 当前 TTS 后端各音色的特点，未提供时为空对象 */
+export const getSpeechVoiceTraits = (): Record<string, string> => getProvider('speech').voiceTraits ?? {};
+
+/**
+ * 根据角色外观与性格推荐音色与朗读风格。候选音色取自当前 TTS 后端；
+ * 模型返回的音色不在候选中时使用默认音色
+ */
+export const suggestCharacterVoice = async (
+  characterDescription: string,
+  characterPersonality: string
+): Promise<{ settings: VoiceSettings; reason: string }> => {
+  const voices = getSpeechVoices();
+  if (voices.length === 0) {
+    throw new Error('The current speech backend has no selectable voices');
+  }
+  const traits = getSpeechVoiceTraits();
+  const raw = await getProvider('script').suggestVoice(
+    characterDescription,
+    characterPersonality,
+    voices.map((name) => (traits[name] ? { name, traits: traits[name] } : { name }))
+  );
+
+  const suggested = typeof raw?.voice === 'string' ? raw.voice.trim().toLowerCase() : '';
+  const voice = voices.find((name) => name.toLowerCase() === suggested);
+  if (!voice) {
+    console.warn(`[Voice] Suggested voice "${raw?.voice}" is not available, using ${voices[0]}`);
+  }
+  const style = typeof raw?.style === 'string' ? raw.style.trim().replace(/[.:：]+$/, '') : '';
+  return {
+    settings: { voice: voice ?? voices[0], ...(style ? { style } : {}) },
+    reason: typeof raw?.reason === 'string' ? raw.reason : '',
+  };
+};
+
+export const generateActionVideo = (
+  gestureType: GestureTypeValue,
+  spokenText: string,
+  gestureDescription: string | undefined,
+  referenceImageBase64: string,
+  scenario?: string,
+  characterPersonality?: string,
+  reviewFeedback?: string,
+  job?: JobOptions
+): Promise<VideoGenerationResult> =>
+  runJob('video', () => getProvider('video').generateActionVideo({
+    gestureType,
+    spokenText,
+    gestureDescription,
+    referenceImageBase64,
+    scenario,
+    characterPersonality,
+    reviewFeedback,
+  }), { label: 'Video', ...job });
+
+export const reviewVideoContent = (
+  videoUrl: string,
+  context: VideoReviewContext,
+  job?: JobOptions
+): Promise<VideoReviewResult> => runJob('review', () => getProvider('review').reviewVideo(videoUrl, context), { label: 'Video review', ...job });
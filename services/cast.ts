@@ -0,0 +1,51 @@
+/**
+ * 多人对话排练的角色表（访谈、辩论、圆桌等）
+ *
+ * 脚本返回 cast 时每个段落带 speaker_id。每个角色有独立的定妆照和 TTS 音色，
+ * 视频生成、播放和导出都按段落的说话人切换参考图；单人排练没有角色表，沿用单一角色。
+ */
+
+import { CharacterStatus, type CastMember, type GeminiScriptResponse, type VoiceSettings } from '../types';
+
+/**
+ * 根据脚本响应建立角色表，并按顺序为各角色分配不同音色
+ * @param voices TTS 后端可用的音色（第一个为默认音色），为空时各角色都使用默认音色
+ * @returns 角色表；单人脚本返回空数组
+ */
+export function buildCast(response: GeminiScriptResponse, voices: string[]): CastMember[] {
+  const members = response.cast ?? [];
+  if (members.length < 2) return [];
+
+  return members.map((member, index) => ({
+    id: member.id,
+    name: member.name,
+    description: member.description,
+    personality: member.personality,
+    voice: voices.length > 0 ? voices[index % voices.length] : undefined,
+    imageBase64: null,
+    imageStatus: CharacterStatus.IDLE,
+  }));
+}
+
+/**
+ * 观众提问使用的音色：尽量选一个与演讲者（项目音色、默认音色或角色表中的音色）都不同的音色
+ * @returns 音色名称；后端不支持选择音色时为 undefined
+ */
+export function pickQuestionVoice(voices: string[], cast: CastMember[], mainVoice?: string): string | undefined {
+  const used = new Set(cast.length > 0 ? cast.map((member) => member.voice) : [mainVoice || voices[0]]);
+  return voices.find((voice) => !used.has(voice)) ?? voices[voices.length - 1];
+}
+
+/**
+ * 查找段落的说话人；单人排练或说话人已不在角色表中时返回 undefined
+ */
+export const findSpeaker = (cast: CastMember[] | undefined, speakerId: string | undefined): CastMember | undefined =>
+  cast && speakerId ? cast.find((member) => member.id === speakerId) : undefined;
+
+/**
+ * 段落说话人的音色设置：多人对话取角色表中的音色与风格，单人排练（或说话人不在角色表中）取项目设置
+ */
+export const resolveVoice = (cast: CastMember[] | undefined, speakerId: string | undefined, projectVoice: VoiceSettings = {}): VoiceSettings => {
+  const speaker = findSpeaker(cast, speakerId);
+  return speaker ? { voice: speaker.voice, style: speaker.voiceStyle } : projectVoice;
+};
@@ -0,0 +1,615 @@
+/**
+ * Gemini 调用的共享核心
+ *
+ * 只包含请求参数构造、响应解析和 Veo 轮询，不依赖任何浏览器 API，
+ * 浏览器端的 geminiService 与 Node 端的 API proxy（server/）共用这里的逻辑，
+ * 保证两种模式下发给模型的 prompt / schema 完全一致。
+ */
+
+import {
+  GoogleGenAI,
+  Modality,
+  Type,
+  type Candidate,
+  type GenerateContentParameters,
+  type GenerateVideosParameters,
+} from "@google/genai";
+import { getScriptPrompt, getScriptFixPrompt, getScriptExtendPrompt, getAnnotatePrompt, getTranslatePrompt, getQaPrompt, getImagePrompt, getShortenPrompt, getVoiceSuggestionPrompt, getVideoPrompt, getVideoReviewPrompt } from "../prompts";
+import type { VideoReviewResult, VideoReviewContext, GeminiScriptResponse, ScriptAnnotationResponse, ScriptExtensionResponse, ScriptOptions, ScriptTranslationResponse, LanguageCode, VoiceSuggestionResponse, QaResponse, ScriptViolation, Slide } from "../types";
+import type { VideoGenerationRequest } from "./providers/types";
+
+/** TTS 输出为 24kHz 单声道 16-bit PCM */
+export const TTS_SAMPLE_RATE = 24000;
+
+// Veo API 视频时长限制：
+// - 纯文本生成：支持 4秒、6秒、8秒
+// - 使用参考图片(reference images)：只支持 8秒
+// 参考：https://ai.google.dev/gemini-api/docs/video#limitations
+// "8 seconds only when using reference images"
+// 由于我们使用角色定妆照作为参考图片，所以只能使用 8 秒
+export const VIDEO_DURATION_SECONDS = 8;
+
+/** 脚本响应的 schema（生成与定向修正共用） */
+const SCRIPT_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    script: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          spoken_text: { type: Type.STRING },
+          gesture_type: {
+            type: Type.STRING,
+            enum: ['none', 'beat', 'deictic', 'iconic', 'metaphoric']
+          },
+          gesture_description: { type: Type.STRING },
+          speaker_id: { type: Type.STRING },
+          slide_index: { type: Type.INTEGER }
+        },
+        required: ['spoken_text', 'gesture_type']
+      }
+    },
+    character_description: { type: Type.STRING },
+    character_personality: { type: Type.STRING },
+    cast: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          personality: { type: Type.STRING }
+        },
+        required: ['id', 'name', 'description', 'personality']
+      }
+    }
+  },
+  required: ['script', 'character_description', 'character_personality']
+};
+
+export const buildScriptRequest = (scenario: string, options?: ScriptOptions, slides?: Slide[]): GenerateContentParameters => ({
+  model: 'gemini-3-pro-preview',
+  contents: getScriptPrompt(scenario, options, slides),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: SCRIPT_RESPONSE_SCHEMA
+  }
+});
+
+/**
+ * 脚本定向修正请求：只修正校验发现的问题
+ */
+export const buildScriptFixRequest = (
+  scenario: string,
+  previous: unknown,
+  violations: ScriptViolation[]
+): GenerateContentParameters => ({
+  model: 'gemini-3-pro-preview',
+  contents: getScriptFixPrompt(scenario, previous, violations),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: SCRIPT_RESPONSE_SCHEMA
+  }
+});
+
+export const parseScriptResponse = (responseText: string | undefined): GeminiScriptResponse => {
+  if (!responseText) {
+    throw new Error("No response text from script generation");
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse script response:", responseText.substring(0, 500));
+    throw new Error("Invalid JSON response from script generation");
+  }
+};
+
+/**
+ * 脚本补写请求：总时长短于目标时补写若干段落（只返回新段落）
+ */
+export const buildScriptExtendRequest = (
+  scenario: string,
+  script: GeminiScriptResponse['script'],
+  missingSeconds: number,
+  count: number,
+  options: ScriptOptions
+): GenerateContentParameters => ({
+  model: 'gemini-3-pro-preview',
+  contents: getScriptExtendPrompt(scenario, script, missingSeconds, count, options),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        script: SCRIPT_RESPONSE_SCHEMA.properties.script
+      },
+      required: ['script']
+    }
+  }
+});
+
+export const parseScriptExtensionResponse = (responseText: string | undefined): ScriptExtensionResponse => {
+  if (!responseText) {
+    throw new Error("No response text from script extension");
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse script extension response:", responseText.substring(0, 500));
+    throw new Error("Invalid JSON response from script extension");
+  }
+};
+
+/**
+ * 演讲稿标注请求：只为已切分好的段落分配手势，台词不交给模型改写
+ */
+export const buildAnnotateRequest = (segments: string[]): GenerateContentParameters => ({
+  model: 'gemini-3-pro-preview',
+  contents: getAnnotatePrompt(segments),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        annotations: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER },
+              gesture_type: {
+                type: Type.STRING,
+                enum: ['none', 'beat', 'deictic', 'iconic', 'metaphoric']
+              },
+              gesture_description: { type: Type.STRING }
+            },
+            required: ['index', 'gesture_type']
+          }
+        },
+        character_description: { type: Type.STRING },
+        character_personality: { type: Type.STRING }
+      },
+      required: ['annotations', 'character_description', 'character_personality']
+    }
+  }
+});
+
+export const parseAnnotateResponse = (responseText: string | undefined): ScriptAnnotationResponse => {
+  if (!responseText) {
+    throw new Error("No response text from script annotation");
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse annotation response:", responseText.substring(0, 500));
+    throw new Error("Invalid JSON response from script annotation");
+  }
+};
+
+/**
+ * 排练翻译请求：逐段翻译台词，段落与手势保持不变
+ */
+export const buildTranslateRequest = (
+  scenario: string,
+  script: GeminiScriptResponse['script'],
+  language: LanguageCode
+): GenerateContentParameters => ({
+  model: 'gemini-3-pro-preview',
+  contents: getTranslatePrompt(scenario, script, language),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        translations: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              index: { type: Type.INTEGER },
+              spoken_text: { type: Type.STRING }
+            },
+            required: ['index', 'spoken_text']
+          }
+        }
+      },
+      required: ['translations']
+    }
+  }
+});
+
+export const parseTranslateResponse = (responseText: string | undefined): ScriptTranslationResponse => {
+  if (!responseText) {
+    throw new Error("No response text from script translation");
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse translation response:", responseText.substring(0, 500));
+    throw new Error("Invalid JSON response from script translation");
+  }
+};
+
+/**
+ * 音色推荐请求：根据角色外观与性格从候选音色中选择，并给出朗读风格
+ */
+export const buildVoiceSuggestRequest = (
+  characterDescription: string,
+  characterPersonality: string,
+  voices: Array<{ name: string; traits?: string }>
+): GenerateContentParameters => ({
+  model: 'gemini-3-flash-preview',
+  contents: getVoiceSuggestionPrompt(characterDescription, characterPersonality, voices),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        voice: { type: Type.STRING, enum: voices.map((v) => v.name) },
+        style: { type: Type.STRING },
+        reason: { type: Type.STRING }
+      },
+      required: ['voice', 'style', 'reason']
+    }
+  }
+});
+
+export const parseVoiceSuggestResponse = (responseText: string | undefined): VoiceSuggestionResponse => {
+  if (!responseText) {
+    throw new Error("No response text from voice suggestion");
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse voice suggestion response:", responseText.substring(0, 500));
+    throw new Error("Invalid JSON response from voice suggestion");
+  }
+};
+
+/**
+ * 观众问答请求：预测问题并给出分段、带手势的参考回答
+ */
+export const buildQaRequest = (scenario: string, scriptLines: string[], count: number): GenerateContentParameters => ({
+  model: 'gemini-3-pro-preview',
+  contents: getQaPrompt(scenario, scriptLines, count),
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        questions: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              question: { type: Type.STRING },
+              answer: SCRIPT_RESPONSE_SCHEMA.properties.script
+            },
+            required: ['question', 'answer']
+          }
+        }
+      },
+      required: ['questions']
+    }
+  }
+});
+
+export const parseQaResponse = (responseText: string | undefined): QaResponse => {
+  if (!responseText) {
+    throw new Error("No response text from Q&A generation");
+  }
+
+  try {
+    return JSON.parse(responseText);
+  } catch (e) {
+    console.error("Failed to parse Q&A response:", responseText.substring(0, 500));
+    throw new Error("Invalid JSON response from Q&A generation");
+  }
+};
+
+/**
+ * 定妆照请求：全身、纯白背景
+ */
+export const buildImageRequest = (characterDescription: string): GenerateContentParameters => ({
+  // Use Nano Banana Pro (Gemini 3 Pro Image) for high-quality professional image generation
+  // Using 1K resolution to avoid connection issues with large responses
+  model: 'gemini-3-pro-image-preview',
+  contents: getImagePrompt(characterDescription),
+  config: {
+    responseModalities: [Modality.IMAGE],  // Only request image, not text
+    imageConfig: {
+      aspectRatio: '3:4',  // 竖屏 4:3 (宽:高 = 3:4，即高度更大)
+      imageSize: '1K'      // 使用 1K 避免响应过大导致连接关闭
+    }
+  }
+});
+
+/**
+ * 从响应中取出图片的 base64 数据
+ */
+export const extractImageData = (candidates: Candidate[] | undefined): string => {
+  const parts = candidates?.[0]?.content?.parts;
+  if (!parts) {
+    throw new Error("No content returned from image generation");
+  }
+
+  // Find the image part in the response
+  for (const part of parts) {
+    if (part.inlineData?.mimeType?.startsWith('image/')) {
+      return part.inlineData.data || '';
+    }
+  }
+
+  throw new Error("No image data found in response");
+};
+
+export const buildShortenRequest = (
+  originalText: string,
+  currentDuration: number,
+  scenario: string
+): GenerateContentParameters => {
+  const prompt = getShortenPrompt(originalText, currentDuration, scenario);
+
+  return {
+    model: 'gemini-3-pro-preview',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          shortened_text: { type: Type.STRING }
+        },
+        required: ['shortened_text']
+      }
+    }
+  };
+};
+
+export const parseShortenResponse = (responseText: string | undefined, originalText: string): string => {
+  const trimmed = responseText?.trim();
+  if (!trimmed) {
+    throw new Error("Failed to regenerate shorter text");
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed);
+    return parsed.shortened_text || originalText;
+  } catch {
+    // If JSON parsing fails, return original
+    console.warn("[regenerateShorterText] Failed to parse response, keeping original text");
+    return originalText;
+  }
+};
+
+/**
+ * Gemini TTS 预置音色及其特点（界面显示与音色推荐使用）
+ */
+export const GEMINI_TTS_VOICE_TRAITS: Record<string, string> = {
+  Kore: 'Firm, female, mid-range',
+  Puck: 'Upbeat, male, youthful',
+  Charon: 'Informative, male, deep',
+  Aoede: 'Breezy, female, light',
+  Fenrir: 'Excitable, male, energetic',
+  Leda: 'Youthful, female, bright',
+  Orus: 'Firm, male, mature',
+  Zephyr: 'Bright, female, cheerful',
+  Enceladus: 'Breathy, male, soft',
+  Iapetus: 'Clear, male, neutral',
+  Algenib: 'Gravelly, male, older',
+  Achernar: 'Soft, female, gentle',
+  Gacrux: 'Mature, female, older',
+  Sadaltager: 'Knowledgeable, male, measured',
+  Sulafat: 'Warm, female, reassuring',
+  Vindemiatrix: 'Gentle, female, calm',
+};
+
+/**
+ * Gemini TTS 预置音色，第一个为默认音色；多人对话时按顺序分配给各角色
+ */
+export const GEMINI_TTS_VOICES = Object.keys(GEMINI_TTS_VOICE_TRAITS);
+
+/**
+ * TTS 请求
+ * @param style 可选：朗读风格指令（如 "calmly"），以 "Say <style>: <text>" 的形式交给模型
+ */
+export const buildSpeechRequest = (text: string, voice: string = GEMINI_TTS_VOICES[0], style?: string): GenerateContentParameters => ({
+  model: 'gemini-2.5-flash-preview-tts',  // TTS 继续使用 2.5 模型（3.0 暂无 TTS 变体）
+  contents: [{ parts: [{ text: style ? `Say ${style}: ${text}` : text }] }],
+  config: {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: {
+      voiceConfig: {
+        prebuiltVoiceConfig: { voiceName: voice },
+      },
+    },
+  },
+});
+
+/**
+ * 从 TTS 响应中取出 PCM 音频的 base64 数据
+ */
+export const extractAudioData = (candidates: Candidate[] | undefined): string => {
+  const base64Audio = candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!base64Audio) {
+    throw new Error("No audio data returned");
+  }
+  return base64Audio;
+};
+
+/**
+ * Veo 请求参数：同一张定妆照同时作为首帧和尾帧，确保视频首尾一致
+ * 参考文档: https://ai.google.dev/gemini-api/docs/video
+ */
+export const buildVideoParams = (request: VideoGenerationRequest): GenerateVideosParameters => {
+  const prompt = getVideoPrompt(request);
+
+  // 确保 base64 数据不包含 data URL 前缀
+  const cleanBase64 = request.referenceImageBase64.replace(/^data:image\/\w+;base64,/, '');
+
+  return {
+    model: 'veo-3.1-fast-generate-preview',
+    prompt: prompt,
+    image: {
+      imageBytes: cleanBase64,
+      mimeType: 'image/png'
+    },
+    config: {
+      numberOfVideos: 1,
+      resolution: '720p',
+      aspectRatio: '9:16', // 竖屏视频格式 (宽:高 = 9:16)，适合展示全身动作
+      durationSeconds: VIDEO_DURATION_SECONDS, // 指定视频时长
+      // 设置尾帧为同一张图片，确保视频首尾一致（角色回到初始姿势）
+      lastFrame: {
+        imageBytes: cleanBase64,
+        mimeType: 'image/png'
+      }
+    }
+  };
+};
+
+/**
+ * 启动 Veo 生成并轮询至完成
+ * @returns 生成视频的下载 URI（不含 API key，下载时需自行附加）
+ */
+export const runVideoOperation = async (ai: GoogleGenAI, videoParams: GenerateVideosParameters): Promise<string> => {
+  let operation = await ai.models.generateVideos(videoParams);
+
+  console.log(`[Veo] Operation started, polling for completion...`);
+
+  // Polling loop with timeout (max 5 minutes)
+  const maxAttempts = 60; // 60 * 5s = 5 minutes
+  let attempts = 0;
+
+  while (!operation.done && attempts < maxAttempts) {
+    await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5 seconds
+    attempts++;
+    console.log(`[Veo] Polling attempt ${attempts}...`);
+
+    try {
+      operation = await ai.operations.getVideosOperation({ operation: operation });
+    } catch (pollError) {
+      console.error(`[Veo] Polling error:`, pollError);
+      throw new Error(`Video polling failed: ${pollError}`);
+    }
+  }
+
+  if (!operation.done) {
+    throw new Error("Video generation timed out after 5 minutes");
+  }
+
+  // Log the full response for debugging
+  console.log(`[Veo] Operation completed. Response:`, JSON.stringify(operation.response, null, 2));
+
+  // Check for safety filter rejection
+  if (operation.response?.raiMediaFilteredCount && operation.response.raiMediaFilteredCount > 0) {
+    const reasons = operation.response.raiMediaFilteredReasons?.join('; ') || 'Unknown reason';
+    console.warn(`[Veo] Video was filtered by safety system: ${reasons}`);
+    throw new Error(`Video filtered by safety system. Try rephrasing the action description.`);
+  }
+
+  // Check for errors in response
+  const generatedVideo = operation.response?.generatedVideos?.[0];
+
+  if (!generatedVideo) {
+    console.error(`[Veo] No generated video in response:`, operation.response);
+    throw new Error("Video generation returned no video data");
+  }
+
+  const downloadLink = generatedVideo.video?.uri;
+
+  if (!downloadLink) {
+    console.error(`[Veo] No URI in generated video:`, generatedVideo);
+    throw new Error("Video generation completed but returned no URI");
+  }
+
+  console.log(`[Veo] Video generated successfully: ${downloadLink.substring(0, 100)}...`);
+  return downloadLink;
+};
+
+/**
+ * 给 Veo 下载 URI 附加 API key
+ */
+export const withApiKey = (downloadLink: string, apiKey: string | undefined): string =>
+  `${downloadLink}${downloadLink.includes('?') ? '&' : '?'}key=${apiKey}`;
+
+export const buildReviewRequest = (
+  context: VideoReviewContext,
+  videoBase64: string,
+  mimeType: string
+): GenerateContentParameters => ({
+  model: 'gemini-3-flash-preview',
+  contents: [
+    {
+      role: 'user',
+      parts: [
+        { text: getVideoReviewPrompt(context) },
+        { inlineData: { data: videoBase64, mimeType } }
+      ]
+    }
+  ],
+  config: {
+    responseMimeType: 'application/json',
+    responseSchema: {
+      type: Type.OBJECT,
+      properties: {
+        passed: { type: Type.BOOLEAN },
+        issues: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              category: {
+                type: Type.STRING,
+                enum: ['prompt_adherence', 'body_naturalness', 'visual_quality', 'inappropriate_content', 'social_norms', 'robot_safety']
+              },
+              severity: {
+                type: Type.STRING,
+                enum: ['critical', 'major', 'minor']
+              },
+              description: { type: Type.STRING }
+            },
+            required: ['category', 'severity', 'description']
+          }
+        },
+        summary: { type: Type.STRING }
+      },
+      required: ['passed', 'issues', 'summary']
+    }
+  }
+});
+
+export const parseReviewResponse = (responseText: string | undefined): VideoReviewResult => {
+  const trimmed = responseText?.trim();
+  if (!trimmed) {
+    console.warn('[VideoReview] Empty response from reviewer, treating as passed');
+    return { passed: true, issues: [], summary: 'Review returned empty response — defaulting to pass.' };
+  }
+
+  try {
+    const result: VideoReviewResult = JSON.parse(trimmed);
+
+    // Enforce pass/fail logic: any critical or major issue means fail
+    const hasCriticalOrMajor = result.issues.some(
+      (i) => i.severity === 'critical' || i.severity === 'major'
+    );
+    result.passed = !hasCriticalOrMajor;
+
+    const issueLog = result.issues.length > 0
+      ? result.issues.map(i => `  [${i.severity}] ${i.category}: ${i.description}`).join('\n')
+      : '  (none)';
+    console.log(`[VideoReview] Result: ${result.passed ? 'PASSED' : 'FAILED'}\n${issueLog}\nSummary: ${result.summary}`);
+
+    return result;
+  } catch (e) {
+    console.warn('[VideoReview] Failed to parse review response, treating as passed:', trimmed.substring(0, 300));
+    return { passed: true, issues: [], summary: 'Review parse error — defaulting to pass.' };
+  }
+};
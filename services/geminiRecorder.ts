@@ -0,0 +1,287 @@
+/**
+ * Gemini 调用的录制 / 回放层
+ *
+ * 调试 UI 和导出逻辑时每次都调用 Veo / TTS 成本很高。这里把 geminiService 中的请求 / 响应对
+ * （包括音频、图片、视频等二进制负载）以 hash(model + prompt + config) 为 key 存入 IndexedDB，
+ * 回放模式下直接返回录制的结果，完全不访问网络。
+ *
+ * 模式由 VITE_GEMINI_RECORD_MODE 配置：
+ * - off（默认）：直接调用
+ * - record：正常调用并保存响应
+ * - replay：只读取已录制的响应，找不到时抛错
+ *
+ * 录制结果可以导出为单个文件（无压缩 ZIP），在其他机器上导入后离线复现完整流程。
+ */
+
+import type { Candidate, GenerateContentParameters, GenerateVideosParameters, GoogleGenAI } from '@google/genai';
+import { createZip, readZip, type ZipEntry } from './zipUtils';
+
+export type RecordMode = 'off' | 'record' | 'replay';
+
+const DB_NAME = 'ai-rehearsal-coach-fixtures';
+const DB_VERSION = 1;
+const FIXTURE_STORE = 'fixtures';
+
+interface Fixture {
+  key: string;
+  model: string;
+  kind: 'content' | 'video';
+  createdAt: number;
+  /** generateContent 的响应（candidates 中包含 inlineData 的 base64 音频 / 图片） */
+  candidates?: Candidate[];
+  /** 视频字节 */
+  blob?: Blob;
+}
+
+/**
+ * 录制 / 回放时返回的精简响应，字段与 GenerateContentResponse 中实际用到的部分一致
+ */
+export interface RecordedContentResponse {
+  text: string | undefined;
+  candidates?: Candidate[];
+}
+
+let modeOverride: RecordMode | null = null;
+
+export function getRecordMode(): RecordMode {
+  if (modeOverride) return modeOverride;
+  const configured = String(import.meta.env?.VITE_GEMINI_RECORD_MODE || '').trim().toLowerCase();
+  return configured === 'record' || configured === 'replay' ? configured : 'off';
+}
+
+export function setRecordMode(mode: RecordMode | null): void {
+  modeOverride = mode;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(FIXTURE_STORE)) {
+        request.result.createObjectStore(FIXTURE_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const readFixture = async (key: string): Promise<Fixture | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(FIXTURE_STORE, 'readonly').objectStore(FIXTURE_STORE).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeFixtures = async (fixtures: Fixture[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(FIXTURE_STORE, 'readwrite');
+  const store = tx.objectStore(FIXTURE_STORE);
+  fixtures.forEach((fixture) => store.put(fixture));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * 键顺序无关的 JSON 序列化，保证同一请求得到同一个 key
+ */
+const stableStringify = (value: unknown): string => {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+};
+
+/**
+ * 请求 key：SHA-256(model + prompt/contents + config)
+ */
+export async function hashRequest(request: unknown): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(stableStringify(request)));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const textFromCandidates = (candidates?: Candidate[]): string | undefined => {
+  const parts = candidates?.[0]?.content?.parts;
+  if (!parts) return undefined;
+  const texts = parts.filter((p) => typeof p.text === 'string' && !p.thought).map((p) => p.text as string);
+  return texts.length > 0 ? texts.join('') : undefined;
+};
+
+/**
+ * ai.models.generateContent 的录制 / 回放包装
+ */
+export async function recordedGenerateContent(
+  ai: GoogleGenAI,
+  params: GenerateContentParameters
+): Promise<RecordedContentResponse> {
+  const mode = getRecordMode();
+  if (mode === 'off') {
+    const response = await ai.models.generateContent(params);
+    return { text: textFromCandidates(response.candidates), candidates: response.candidates };
+  }
+
+  const key = await hashRequest({ kind: 'content', ...params });
+
+  if (mode === 'replay') {
+    const fixture = await readFixture(key);
+    if (!fixture) {
+      throw new Error(`[Replay] No recorded response for ${params.model} (key ${key.substring(0, 12)})`);
+    }
+    console.log(`[Replay] ${params.model} ← fixture ${key.substring(0, 12)}`);
+    return { text: textFromCandidates(fixture.candidates), candidates: fixture.candidates };
+  }
+
+  const response = await ai.models.generateContent(params);
+  await writeFixtures([{ key, model: params.model, kind: 'content', createdAt: Date.now(), candidates: response.candidates }]);
+  console.log(`[Record] ${params.model} → fixture ${key.substring(0, 12)}`);
+  return { text: textFromCandidates(response.candidates), candidates: response.candidates };
+}
+
+/**
+ * ai.models.generateContentStream 的录制 / 回放包装
+ * 与 recordedGenerateContent 使用相同的 key，流式和非流式调用可以互相回放
+ * @param onText 每收到一段文本时回调（回放时一次性回调完整文本）
+ */
+export async function recordedGenerateContentStream(
+  ai: GoogleGenAI,
+  params: GenerateContentParameters,
+  onText: (chunk: string) => void
+): Promise<RecordedContentResponse> {
+  const mode = getRecordMode();
+  const key = mode === 'off' ? '' : await hashRequest({ kind: 'content', ...params });
+
+  if (mode === 'replay') {
+    const fixture = await readFixture(key);
+    if (!fixture) {
+      throw new Error(`[Replay] No recorded response for ${params.model} (key ${key.substring(0, 12)})`);
+    }
+    console.log(`[Replay] ${params.model} ← fixture ${key.substring(0, 12)} (stream)`);
+    const text = textFromCandidates(fixture.candidates);
+    if (text) onText(text);
+    return { text, candidates: fixture.candidates };
+  }
+
+  let fullText = '';
+  for await (const chunk of await ai.models.generateContentStream(params)) {
+    const text = textFromCandidates(chunk.candidates);
+    if (text) {
+      fullText += text;
+      onText(text);
+    }
+  }
+
+  // 流式响应拼接成一个完整的 candidate，与非流式调用的录制格式一致
+  const candidates: Candidate[] = [{ content: { role: 'model', parts: [{ text: fullText }] } }];
+  if (mode === 'record') {
+    await writeFixtures([{ key, model: params.model, kind: 'content', createdAt: Date.now(), candidates }]);
+    console.log(`[Record] ${params.model} → fixture ${key.substring(0, 12)} (stream)`);
+  }
+  return { text: fullText || undefined, candidates };
+}
+
+/**
+ * Veo 视频生成的录制 / 回放包装
+ * @param params 用于计算 key 的生成参数
+ * @param generate 实际执行生成（含轮询）并返回可下载视频 URL 的函数
+ * @returns 视频 URL（回放时为本地 blob URL）
+ */
+export async function recordedVideoGeneration(
+  params: GenerateVideosParameters,
+  generate: () => Promise<string>
+): Promise<string> {
+  const mode = getRecordMode();
+  if (mode === 'off') return generate();
+
+  const key = await hashRequest({ kind: 'video', ...params });
+
+  if (mode === 'replay') {
+    const fixture = await readFixture(key);
+    if (!fixture?.blob) {
+      throw new Error(`[Replay] No recorded video for ${params.model} (key ${key.substring(0, 12)})`);
+    }
+    console.log(`[Replay] ${params.model} ← video fixture ${key.substring(0, 12)}`);
+    return URL.createObjectURL(fixture.blob);
+  }
+
+  const videoUrl = await generate();
+  const response = await fetch(videoUrl);
+  if (!response.ok) {
+    console.warn(`[Record] Failed to download video for recording (${response.status}), fixture not saved`);
+    return videoUrl;
+  }
+  const blob = await response.blob();
+  await writeFixtures([{ key, model: params.model, kind: 'video', createdAt: Date.now(), blob }]);
+  console.log(`[Record] ${params.model} → video fixture ${key.substring(0, 12)} (${(blob.size / 1024 / 1024).toFixed(1)} MB)`);
+  // 返回本地副本，后续审查 / 播放无需再次下载
+  return URL.createObjectURL(blob);
+}
+
+interface FixtureIndexEntry {
+  key: string;
+  model: string;
+  kind: Fixture['kind'];
+  createdAt: number;
+  candidates?: Candidate[];
+  file?: string;
+  mimeType?: string;
+}
+
+/**
+ * 导出全部录制结果为单个文件（index.json + 视频二进制）
+ */
+export async function exportFixtures(): Promise<Blob> {
+  const db = await openDatabase();
+  const fixtures = await new Promise<Fixture[]>((resolve, reject) => {
+    const request = db.transaction(FIXTURE_STORE, 'readonly').objectStore(FIXTURE_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const entries: ZipEntry[] = [];
+  const index: FixtureIndexEntry[] = [];
+  for (const fixture of fixtures) {
+    const { blob, ...rest } = fixture;
+    const item: FixtureIndexEntry = { ...rest };
+    if (blob) {
+      item.file = `media/${fixture.key}.bin`;
+      item.mimeType = blob.type;
+      entries.push({ name: item.file, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+    index.push(item);
+  }
+  entries.unshift({ name: 'index.json', data: new TextEncoder().encode(JSON.stringify(index)) });
+  return createZip(entries);
+}
+
+/**
+ * 导入录制结果文件，返回导入的条目数
+ */
+export async function importFixtures(file: Blob): Promise<number> {
+  const files = readZip(await file.arrayBuffer());
+  const indexBytes = files.get('index.json');
+  if (!indexBytes) throw new Error('Invalid fixture file: index.json not found');
+
+  const index: FixtureIndexEntry[] = JSON.parse(new TextDecoder().decode(indexBytes));
+  const fixtures: Fixture[] = index.map(({ file: path, mimeType, ...rest }) => {
+    const bytes = path ? files.get(path) : undefined;
+    return {
+      ...rest,
+      blob: bytes ? new Blob([bytes as BlobPart], { type: mimeType || 'video/mp4' }) : undefined,
+    };
+  });
+  await writeFixtures(fixtures);
+  return fixtures.length;
+}
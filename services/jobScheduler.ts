@@ -0,0 +1,260 @@
+/**
+ * 生成任务调度
+ *
+ * TTS、定妆照、视频和审查调用都经过这里排队（见 capabilities.ts）：
+ * - 按能力 + 当前后端限制并发数，避免一次性打满配额
+ * - 按 HTTP 状态码或 gRPC 状态判断瞬时错误（429 / 5xx / RESOURCE_EXHAUSTED 等）与网络错误，按指数退避（带随机抖动）重试，
+ *   其他错误直接抛出；视频生成耗时长且按次计费，超时（408 / 504 / DEADLINE_EXCEEDED）不自动重试
+ * - 优先级高的任务先执行；用户正在查看的段落（prioritizeSegment）的任务排在最前
+ * - 任务状态变化时通知订阅者（Scene Breakdown 显示各段排队 / 重试状态与整体进度）
+ *
+ * 配置：
+ * - VITE_CONCURRENCY_SPEECH / VITE_CONCURRENCY_IMAGE / VITE_CONCURRENCY_VIDEO / VITE_CONCURRENCY_REVIEW：
+ *   各能力的并发数，默认 4 / 2 / 1 / 2
+ * - VITE_JOB_MAX_RETRIES：瞬时错误的最大重试次数，默认 4，设为 0 关闭重试
+ */
+
+import type { Capability } from './providers/types';
+import { getProviderSelection } from './providers';
+
+export type JobKind = Exclude<Capability, 'script'>;
+
+export type JobState = 'queued' | 'running' | 'retrying' | 'completed' | 'failed';
+
+export interface JobOptions {
+  /** 任务所属段落，用于优先执行用户正在查看的段落并在该段落上显示状态 */
+  segmentId?: string;
+  /** 日志与界面中的任务名称 */
+  label?: string;
+  /** 越大越先执行，默认 0 */
+  priority?: number;
+}
+
+export interface JobInfo {
+  id: number;
+  kind: JobKind;
+  label: string;
+  segmentId?: string;
+  state: JobState;
+  /** 已开始的尝试次数 */
+  attempt: number;
+  /** 等待重试时，下一次尝试的时刻（毫秒时间戳） */
+  retryAt?: number;
+  /** 最近一次失败的错误信息 */
+  error?: string;
+}
+
+/**
+ * 当前一批任务的进度：队列清空后再有新任务时重新计数
+ */
+export interface JobSnapshot {
+  /** 排队、执行中与等待重试的任务 */
+  active: JobInfo[];
+  completed: number;
+  failed: number;
+}
+
+const DEFAULT_CONCURRENCY: Record<JobKind, number> = { speech: 4, image: 2, video: 1, review: 2 };
+const CONCURRENCY_ENV: Record<JobKind, string> = {
+  speech: 'VITE_CONCURRENCY_SPEECH',
+  image: 'VITE_CONCURRENCY_IMAGE',
+  video: 'VITE_CONCURRENCY_VIDEO',
+  review: 'VITE_CONCURRENCY_REVIEW',
+};
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const FOCUS_BOOST = 1000; // 正在查看的段落的优先级加成
+
+const TRANSIENT_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+const TIMEOUT_STATUS = new Set([408, 504]);
+// gRPC 状态名：Gemini 的错误信息中以 "status": "RESOURCE_EXHAUSTED" 等形式出现
+const TRANSIENT_GRPC = /\b(RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED)\b/;
+const TIMEOUT_GRPC = /\bDEADLINE_EXCEEDED\b/;
+// fetch 本身失败（断网、连接被重置）时抛出的 TypeError
+const NETWORK_FAILURE = /Failed to fetch|fetch failed|NetworkError|Load failed/i;
+
+const getConcurrency = (kind: JobKind): number => {
+  const configured = Number(import.meta.env?.[CONCURRENCY_ENV[kind]]);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CONCURRENCY[kind];
+};
+
+const getMaxRetries = (): number => {
+  const configured = Number(import.meta.env?.VITE_JOB_MAX_RETRIES);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MAX_RETRIES;
+};
+
+/**
+ * 是否为值得重试的瞬时错误：限流、服务端 5xx、超时与网络错误。
+ * 只看错误上的 HTTP 状态码（status / code）、gRPC 状态名和 fetch 的网络错误，不按错误信息里的数字或文字猜测
+ * @param kind 为 video 时超时不算瞬时错误：重试会再发起一次耗时数分钟的付费生成
+ */
+export const isTransientError = (error: unknown, kind?: JobKind): boolean => {
+  const retryTimeouts = kind !== 'video';
+  const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+  for (const value of [status, code]) {
+    if (typeof value === 'number' || /^\d+$/.test(String(value))) {
+      const httpStatus = Number(value);
+      if (TRANSIENT_STATUS.has(httpStatus)) return retryTimeouts || !TIMEOUT_STATUS.has(httpStatus);
+    } else if (typeof value === 'string' && TRANSIENT_GRPC.test(value)) {
+      return retryTimeouts || !TIMEOUT_GRPC.test(value);
+    }
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const grpc = message.match(TRANSIENT_GRPC)?.[1];
+  if (grpc) return retryTimeouts || !TIMEOUT_GRPC.test(grpc);
+  return error instanceof TypeError && NETWORK_FAILURE.test(message);
+};
+
+/** 第 attempt 次失败后的等待时间：指数增长，上限 MAX_DELAY_MS，后一半随机抖动 */
+const backoffDelay = (attempt: number): number => {
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+interface QueueEntry {
+  info: JobInfo;
+  pool: string;
+  priority: number;
+  start: () => void;
+}
+
+const queue: QueueEntry[] = [];
+const running = new Map<string, number>();
+const active = new Map<number, JobInfo>();
+const listeners = new Set<(snapshot: JobSnapshot) => void>();
+let nextId = 1;
+let completed = 0;
+let failed = 0;
+let focusedSegmentId: string | null = null;
+
+export const getJobSnapshot = (): JobSnapshot => ({
+  active: [...active.values()].map((info) => ({ ...info })),
+  completed,
+  failed,
+});
+
+const notify = (): void => {
+  const snapshot = getJobSnapshot();
+  listeners.forEach((listener) => listener(snapshot));
+};
+
+/**
+ * 订阅任务进度，订阅时立即收到一次当前状态
+ * @returns 取消订阅的函数
+ */
+export function subscribeJobs(listener: (snapshot: JobSnapshot) => void): () => void {
+  listeners.add(listener);
+  listener(getJobSnapshot());
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const effectivePriority = (entry: QueueEntry): number =>
+  entry.priority + (focusedSegmentId && entry.info.segmentId === focusedSegmentId ? FOCUS_BOOST : 0);
+
+/** 为有空闲并发的池启动优先级最高（同优先级先入队）的任务 */
+const pump = (): void => {
+  for (let started = true; started; ) {
+    started = false;
+    let best = -1;
+    for (let i = 0; i < queue.length; i++) {
+      const entry = queue[i];
+      if ((running.get(entry.pool) ?? 0) >= getConcurrency(entry.info.kind)) continue;
+      if (best < 0 || effectivePriority(entry) > effectivePriority(queue[best])) best = i;
+    }
+    if (best >= 0) {
+      const [entry] = queue.splice(best, 1);
+      running.set(entry.pool, (running.get(entry.pool) ?? 0) + 1);
+      entry.start();
+      started = true;
+    }
+  }
+};
+
+/**
+ * 让某段落排队中的任务（包括之后入队的）优先执行；传 null 取消
+ */
+export function prioritizeSegment(segmentId: string | null): void {
+  if (focusedSegmentId === segmentId) return;
+  focusedSegmentId = segmentId;
+  if (segmentId && queue.some((entry) => entry.info.segmentId === segmentId)) {
+    console.log(`[Jobs] Prioritizing segment ${segmentId}`);
+  }
+}
+
+/**
+ * 排队执行一个生成任务，瞬时错误自动重试
+ * @param kind 任务使用的能力，决定并发池（能力 + 当前后端）
+ * @param task 实际的调用，每次重试都会重新执行
+ */
+export function runJob<T>(kind: JobKind, task: () => Promise<T>, options: JobOptions = {}): Promise<T> {
+  if (active.size === 0) {
+    completed = 0;
+    failed = 0;
+  }
+  const info: JobInfo = {
+    id: nextId++,
+    kind,
+    label: options.label ?? kind,
+    segmentId: options.segmentId,
+    state: 'queued',
+    attempt: 0,
+  };
+  active.set(info.id, info);
+  const pool = `${kind}:${getProviderSelection(kind)}`;
+  const maxRetries = getMaxRetries();
+
+  return new Promise<T>((resolve, reject) => {
+    const finish = (state: 'completed' | 'failed') => {
+      active.delete(info.id);
+      if (state === 'completed') completed++;
+      else failed++;
+      notify();
+    };
+
+    const enqueue = () => {
+      info.state = 'queued';
+      info.retryAt = undefined;
+      queue.push({ info, pool, priority: options.priority ?? 0, start: attempt });
+      notify();
+      pump();
+    };
+
+    const attempt = () => {
+      info.state = 'running';
+      info.attempt++;
+      notify();
+      Promise.resolve().then(task).then(
+        (result) => {
+          release();
+          finish('completed');
+          resolve(result);
+        },
+        (error: unknown) => {
+          release();
+          info.error = error instanceof Error ? error.message : String(error);
+          if (info.attempt <= maxRetries && isTransientError(error, kind)) {
+            const delay = backoffDelay(info.attempt);
+            console.warn(`[Jobs] ${info.label} failed (attempt ${info.attempt}/${maxRetries + 1}), retrying in ${(delay / 1000).toFixed(1)}s: ${info.error}`);
+            info.state = 'retrying';
+            info.retryAt = Date.now() + delay;
+            notify();
+            setTimeout(enqueue, delay);
+          } else {
+            finish('failed');
+            reject(error);
+          }
+        }
+      );
+    };
+
+    const release = () => {
+      running.set(pool, (running.get(pool) ?? 1) - 1);
+      pump();
+    };
+
+    enqueue();
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * 宽松 JSON 解析
+ *
+ * 本地小模型即使开启 JSON 模式，也经常返回带 ```json 代码块、前后解释文字、
+ * 尾随逗号、注释或中文引号的"近似 JSON"。这里按从严到宽的顺序逐步修复后再解析。
+ */
+
+/**
+ * 从文本中截取第一个完整的 JSON 对象 / 数组（按括号配对，忽略字符串内的括号）
+ */
+const extractJsonBlock = (text: string): string | null => {
+  const start = text.search(/[{[]/);
+  if (start < 0) return null;
+
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+    else if (ch === '}' || ch === ']') {
+      if (stack.pop() !== ch) return null;
+      if (stack.length === 0) return text.substring(start, i + 1);
+    }
+  }
+  // 输出被截断：补齐未闭合的括号
+  return stack.length > 0 && !inString ? text.substring(start) + stack.reverse().join('') : null;
+};
+
+/**
+ * 修复常见的语法问题：注释、尾随逗号、中文 / 弯引号
+ */
+const repairSyntax = (json: string): string =>
+  json
+    .replace(/[“”]/g, '"')
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/,\s*([}\]])/g, '$1');
+
+/**
+ * 给字符串以外未加引号的键补上引号
+ */
+const quoteBareKeys = (json: string): string => {
+  let out = '';
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < json.length; i++) {
+    const ch = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      out += ch;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    const bareKey = ch === '{' || ch === ',' ? /^(\s*)([A-Za-z_]\w*)(\s*:)/.exec(json.substring(i + 1)) : null;
+    if (bareKey) {
+      out += `${ch}${bareKey[1]}"${bareKey[2]}"${bareKey[3]}`;
+      i += bareKey[0].length;
+      continue;
+    }
+    out += ch;
+  }
+  return out;
+};
+
+/**
+ * 解析可能不规范的 JSON 文本
+ * @throws 所有修复手段都失败时抛出 Error
+ */
+export function parseLooseJson(text: string): unknown {
+  const candidates: string[] = [text.trim()];
+
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+  if (fenced) candidates.push(fenced[1].trim());
+
+  const block = extractJsonBlock(fenced ? fenced[1] : text);
+  if (block) candidates.push(block, repairSyntax(block), quoteBareKeys(repairSyntax(block)));
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // 尝试下一种修复
+    }
+  }
+  throw new Error(`Could not parse JSON from model output: ${text.substring(0, 200)}`);
+}
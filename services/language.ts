@@ -0,0 +1,107 @@
+/**
+ * 台词语言检测与长度单位
+ *
+ * 中文、日文按字符计数，韩文按音节计数，英 / 西 / 法 / 德文按单词计数；
+ * 每种语言的 4-7 秒长度限制由 TTS 语速估算。编辑器的长度提示、脚本校验与拆分、
+ * 脚本 prompt 的长度规则和台词缩短都以这里为准。
+ */
+
+import type { LanguageCode, SegmentLengthLimits } from '../types';
+
+export interface LanguageProfile {
+  /** prompt 中使用的英文名称 */
+  name: string;
+  /** 界面显示名称 */
+  label: string;
+  /** 计数方式：按字符（忽略空白）或按空格分隔的单词 */
+  unit: 'char' | 'word';
+  /** prompt 中的单位名称 */
+  unitName: string;
+  /** 编辑器提示中的单位名称 */
+  unitLabel: string;
+  /** 拼接拆分后的片段时使用的分隔符 */
+  joiner: '' | ' ';
+  /** TTS 语速（单位 / 秒） */
+  unitsPerSecond: number;
+  /** 4-7 秒台词对应的长度；recommended 约 5-6 秒 */
+  limits: SegmentLengthLimits;
+}
+
+export const LANGUAGE_PROFILES: Record<LanguageCode, LanguageProfile> = {
+  // 英文：约 2.8 词/秒
+  en: { name: 'English', label: 'English', unit: 'word', unitName: 'words', unitLabel: '单词', joiner: ' ', unitsPerSecond: 2.8, limits: { min: 12, max: 20, recommended: 16 } },
+  // 中文：约 5 字/秒（考虑标点停顿）
+  zh: { name: 'Chinese', label: '中文', unit: 'char', unitName: 'characters', unitLabel: '字符', joiner: '', unitsPerSecond: 5, limits: { min: 20, max: 35, recommended: 28 } },
+  // 日文：假名与汉字混排，约 6 字/秒
+  ja: { name: 'Japanese', label: '日本語', unit: 'char', unitName: 'characters', unitLabel: '字符', joiner: '', unitsPerSecond: 6, limits: { min: 24, max: 42, recommended: 33 } },
+  // 韩文：约 5.5 音节/秒，词之间有空格
+  ko: { name: 'Korean', label: '한국어', unit: 'char', unitName: 'syllables', unitLabel: '音节', joiner: ' ', unitsPerSecond: 5.5, limits: { min: 22, max: 38, recommended: 30 } },
+  es: { name: 'Spanish', label: 'Español', unit: 'word', unitName: 'words', unitLabel: '单词', joiner: ' ', unitsPerSecond: 2.7, limits: { min: 11, max: 19, recommended: 15 } },
+  fr: { name: 'French', label: 'Français', unit: 'word', unitName: 'words', unitLabel: '单词', joiner: ' ', unitsPerSecond: 2.7, limits: { min: 11, max: 19, recommended: 15 } },
+  // 德文单词较长，约 2.4 词/秒
+  de: { name: 'German', label: 'Deutsch', unit: 'word', unitName: 'words', unitLabel: '单词', joiner: ' ', unitsPerSecond: 2.4, limits: { min: 10, max: 17, recommended: 13 } },
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_PROFILES) as LanguageCode[];
+
+// 拉丁字母语言的常见虚词与特有字母，用于区分英 / 西 / 法 / 德文
+const STOPWORDS: Record<'en' | 'es' | 'fr' | 'de', Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'you', 'of', 'to', 'that', 'it', 'we', 'this', 'with', 'for', 'our', 'have', 'will', 'what', 'be']),
+  es: new Set(['el', 'los', 'las', 'que', 'y', 'es', 'un', 'una', 'por', 'para', 'con', 'no', 'nuestro', 'muy', 'pero', 'como', 'del', 'se', 'lo', 'está']),
+  fr: new Set(['le', 'les', 'des', 'et', 'est', 'une', 'pour', 'dans', 'nous', 'vous', 'pas', 'avec', 'ce', 'sur', 'du', 'au', 'je', 'qui', 'cette', 'sont']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'ich', 'wir', 'sie', 'mit', 'für', 'zu', 'auf', 'den', 'dem', 'auch', 'sind', 'wie']),
+};
+const SPECIAL_LETTERS: Record<'es' | 'fr' | 'de', RegExp> = {
+  es: /[ñ¿¡]/g,
+  fr: /[àâçèêëîïôûœù]/g,
+  de: /[äöüß]/g,
+};
+
+const countMatches = (text: string, pattern: RegExp): number => text.match(pattern)?.length || 0;
+
+/**
+ * 检测文本主要语言（启发式）：
+ * 中日韩文字占字母 30% 以上时按文字系统区分（有假名为日文、谚文为韩文、否则中文），
+ * 其余按常见虚词和特有字母区分英 / 西 / 法 / 德文，无法判断时为英文
+ */
+export const detectLanguage = (text: string): LanguageCode => {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters === 0) return 'en';
+
+  const han = countMatches(text, /\p{Script=Han}/gu);
+  const kana = countMatches(text, /[\p{Script=Hiragana}\p{Script=Katakana}]/gu);
+  const hangul = countMatches(text, /\p{Script=Hangul}/gu);
+  if ((han + kana + hangul) / letters > 0.3) {
+    if (hangul >= han + kana) return 'ko';
+    if (kana > 0 && kana / (han + kana) >= 0.1) return 'ja';
+    return 'zh';
+  }
+
+  const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = { en: 0, es: 0, fr: 0, de: 0 };
+  for (const word of words) {
+    for (const code of ['en', 'es', 'fr', 'de'] as const) {
+      if (STOPWORDS[code].has(word)) scores[code]++;
+    }
+  }
+  const lower = text.toLowerCase();
+  for (const code of ['es', 'fr', 'de'] as const) {
+    scores[code] += 2 * countMatches(lower, SPECIAL_LETTERS[code]);
+  }
+
+  const best = (Object.keys(scores) as Array<keyof typeof scores>).reduce((a, b) => (scores[b] > scores[a] ? b : a));
+  return scores[best] > 0 ? best : 'en';
+};
+
+/**
+ * 统计文本的长度单位数（字符语言忽略空白，单词语言按空白分词）
+ * @param language 缺省时自动检测
+ */
+export const countTextUnits = (text: string, language: LanguageCode = detectLanguage(text)): number =>
+  LANGUAGE_PROFILES[language].unit === 'char'
+    ? Array.from(text.replace(/\s+/g, '')).length
+    : text.trim().split(/\s+/).filter(Boolean).length;
+
+/** 按语速估算朗读秒数 */
+export const estimateSpeechSeconds = (text: string, language: LanguageCode = detectLanguage(text)): number =>
+  countTextUnits(text, language) / LANGUAGE_PROFILES[language].unitsPerSecond;
@@ -0,0 +1,31 @@
+/**
+ * Helper function to convert base64 image to a data URL for display
+ */
+export const base64ToDataUrl = (base64: string, mimeType: string = 'image/png'): string => {
+  return `data:${mimeType};base64,${base64}`;
+};
+
+/**
+ * Fetch a media URL and return its base64-encoded content.
+ * Used to prepare video data for Gemini multimodal review.
+ */
+export async function fetchMediaAsBase64(url: string): Promise<{ base64: string; mimeType: string }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch video: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  const mimeType = blob.type || 'video/mp4';
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      const base64 = dataUrl.split(',')[1];
+      resolve({ base64, mimeType });
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
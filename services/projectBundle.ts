@@ -0,0 +1,426 @@
+/**
+ * 排练项目打包格式（导出 / 导入）
+ *
+ * 单文件 bundle（无压缩 ZIP 容器）：
+ * - manifest.json：格式版本、场景、脚本元数据、角色信息（含音色）、幻灯片大纲、段落字段与审查结果
+ * - character.png：角色定妆照
+ * - cast/<id>.png：多人对话中各角色的定妆照
+ * - segments/<index>-audio.wav：各段 TTS 音频
+ * - segments/<index>-video.mp4：各段 Veo 视频
+ * - qa/<index>-question.wav、qa/<index>-<answer index>-audio.wav / -video.mp4：观众问答的提问音频与参考回答
+ *
+ * 导入时校验 manifest 版本，并将带媒体的段落直接恢复为 COMPLETED，无需重新生成。
+ */
+
+import {
+  CharacterStatus,
+  GestureType,
+  SegmentStatus,
+  type GeminiScriptResponse,
+  type CastMember,
+  type QaItem,
+  type RehearsalProject,
+  type ScriptInputMode,
+  type ScriptOptions,
+  type ScriptSegment,
+  type Slide,
+  type VideoReviewResult,
+  type VoiceSettings,
+  type WordTiming,
+} from '../types';
+import { decodeBase64, encodeBase64 } from './audioUtils';
+import { createMediaUrl, createProjectId, fetchMediaBlob } from './projectStore';
+import { normalizeScriptOptions } from './scriptOptions';
+import { normalizeSlides } from './slides';
+import { normalizeVoiceSettings } from './voices';
+import { createZip, readZip, type ZipEntry } from './zipUtils';
+
+export const BUNDLE_FORMAT = 'ai-rehearsal-coach/project';
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = '.rehearsal.zip';
+
+const MANIFEST_PATH = 'manifest.json';
+const CHARACTER_PATH = 'character.png';
+
+interface BundleSegment {
+  id: string;
+  spokenText: string;
+  gestureType: GestureType;
+  gestureDescription?: string;
+  audioDuration?: number;
+  /** 音频的时间压缩倍率 */
+  timeStretch?: number;
+  /** 超时不缩短台词 */
+  lockText?: boolean;
+  /** 音频中的逐词时间戳 */
+  wordTimings?: WordTiming[];
+  videoDuration?: number;
+  videoStartTime?: number;
+  videoEndTime?: number;
+  review?: VideoReviewResult;
+  speakerId?: string;
+  slideIndex?: number;
+  /** 视频沿用自翻译前的项目（音轨为原语言） */
+  dubbed?: boolean;
+  /** bundle 内的音频文件路径 */
+  audio?: string;
+  /** bundle 内的视频文件路径 */
+  video?: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scenario: string;
+  /** scenario 字段的含义：场景描述或用户自带的演讲稿（旧版 bundle 缺省为 scenario） */
+  inputMode?: ScriptInputMode;
+  /** 脚本生成选项（旧版 bundle 没有此字段） */
+  scriptOptions?: ScriptOptions;
+  script: GeminiScriptResponse | null;
+  character: {
+    description: string | null;
+    personality: string | null;
+    image?: string;
+    /** TTS 音色与朗读风格（旧版 bundle 没有此字段） */
+    voice?: VoiceSettings;
+  };
+  /** 多人对话的角色表（旧版 bundle 没有此字段） */
+  cast?: BundleCastMember[];
+  /** 导入的幻灯片大纲（旧版 bundle 没有此字段） */
+  slides?: Slide[];
+  segments: BundleSegment[];
+  /** 观众问答（旧版 bundle 没有此字段） */
+  qa?: BundleQaItem[];
+}
+
+interface BundleQaItem {
+  id: string;
+  question: string;
+  /** bundle 内的提问音频路径 */
+  questionAudio?: string;
+  answer: BundleSegment[];
+}
+
+interface BundleCastMember {
+  id: string;
+  name: string;
+  description: string;
+  personality: string;
+  voice?: string;
+  /** bundle 内的定妆照路径 */
+  image?: string;
+}
+
+const extensionForBlob = (blob: Blob, fallback: string): string => {
+  const type = blob.type.toLowerCase();
+  if (type.includes('wav')) return 'wav';
+  if (type.includes('mp4')) return 'mp4';
+  if (type.includes('webm')) return 'webm';
+  if (type.includes('mpeg')) return 'mp3';
+  if (type.includes('ogg')) return 'ogg';
+  return fallback;
+};
+
+const mimeTypeForPath = (path: string): string => {
+  const ext = path.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'wav': return 'audio/wav';
+    case 'mp3': return 'audio/mpeg';
+    case 'ogg': return 'audio/ogg';
+    case 'mp4': return 'video/mp4';
+    case 'webm': return 'video/webm';
+    case 'png': return 'image/png';
+    default: return 'application/octet-stream';
+  }
+};
+
+/**
+ * 将项目打包成单文件 bundle
+ */
+export async function buildProjectBundle(project: RehearsalProject): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const bundleSegments: BundleSegment[] = [];
+
+  const addSegment = async (segment: ScriptSegment, prefix: string, label: string): Promise<BundleSegment> => {
+    const item: BundleSegment = {
+      id: segment.id,
+      spokenText: segment.spokenText,
+      gestureType: segment.gestureType,
+      gestureDescription: segment.gestureDescription,
+      audioDuration: segment.audioDuration,
+      timeStretch: segment.timeStretch,
+      lockText: segment.lockText,
+      wordTimings: segment.wordTimings,
+      videoDuration: segment.videoDuration,
+      videoStartTime: segment.videoStartTime,
+      videoEndTime: segment.videoEndTime,
+      review: segment.videoReview,
+      speakerId: segment.speakerId,
+      slideIndex: segment.slideIndex,
+      dubbed: segment.dubbed,
+    };
+
+    if (segment.audioStatus === SegmentStatus.COMPLETED && segment.audioUrl) {
+      const blob = await fetchMediaBlob(segment.audioUrl);
+      if (blob) {
+        item.audio = `${prefix}-audio.${extensionForBlob(blob, 'wav')}`;
+        entries.push({ name: item.audio, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+    }
+
+    if (segment.videoStatus === SegmentStatus.COMPLETED && segment.videoUrl) {
+      const blob = await fetchMediaBlob(segment.videoUrl);
+      if (blob) {
+        item.video = `${prefix}-video.${extensionForBlob(blob, 'mp4')}`;
+        entries.push({ name: item.video, data: new Uint8Array(await blob.arrayBuffer()) });
+      } else {
+        console.warn(`[Bundle] Video for ${label} could not be downloaded, exporting without it`);
+      }
+    }
+
+    return item;
+  };
+
+  for (let i = 0; i < project.segments.length; i++) {
+    const prefix = `segments/${String(i + 1).padStart(3, '0')}`;
+    bundleSegments.push(await addSegment(project.segments[i], prefix, `segment ${i + 1}`));
+  }
+
+  const bundleQa: BundleQaItem[] = [];
+  for (let i = 0; i < (project.qa ?? []).length; i++) {
+    const qaItem = project.qa![i];
+    const prefix = `qa/${String(i + 1).padStart(2, '0')}`;
+    const item: BundleQaItem = { id: qaItem.id, question: qaItem.question, answer: [] };
+
+    if (qaItem.questionAudioStatus === SegmentStatus.COMPLETED && qaItem.questionAudioUrl) {
+      const blob = await fetchMediaBlob(qaItem.questionAudioUrl);
+      if (blob) {
+        item.questionAudio = `${prefix}-question.${extensionForBlob(blob, 'wav')}`;
+        entries.push({ name: item.questionAudio, data: new Uint8Array(await blob.arrayBuffer()) });
+      }
+    }
+    for (let j = 0; j < qaItem.answer.length; j++) {
+      const answerPrefix = `${prefix}-${String(j + 1).padStart(2, '0')}`;
+      item.answer.push(await addSegment(qaItem.answer[j], answerPrefix, `question ${i + 1} answer ${j + 1}`));
+    }
+    bundleQa.push(item);
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    scenario: project.scenario,
+    inputMode: project.inputMode,
+    scriptOptions: project.scriptOptions,
+    script: project.scriptResponse ?? null,
+    character: {
+      description: project.characterDescription,
+      personality: project.characterPersonality,
+      ...(project.voice ? { voice: project.voice } : {}),
+    },
+    segments: bundleSegments,
+    ...(bundleQa.length > 0 ? { qa: bundleQa } : {}),
+    ...(project.slides?.length ? { slides: project.slides } : {}),
+  };
+
+  if (project.characterImageBase64) {
+    manifest.character.image = CHARACTER_PATH;
+    entries.push({ name: CHARACTER_PATH, data: decodeBase64(project.characterImageBase64) });
+  }
+
+  if (project.cast && project.cast.length > 0) {
+    manifest.cast = project.cast.map(({ imageBase64, imageStatus, ...member }, i) => {
+      if (!imageBase64) return member;
+      const image = `cast/${String(i + 1).padStart(2, '0')}.png`;
+      entries.push({ name: image, data: decodeBase64(imageBase64) });
+      return { ...member, image };
+    });
+  }
+
+  // manifest 放在第一个条目，方便其他工具快速读取
+  entries.unshift({
+    name: MANIFEST_PATH,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+  });
+
+  return createZip(entries);
+}
+
+/**
+ * 打包并触发浏览器下载
+ */
+export async function downloadProjectBundle(project: RehearsalProject): Promise<void> {
+  const blob = await buildProjectBundle(project);
+  console.log(`[Bundle] Project bundle created: ${(blob.size / 1024 / 1024).toFixed(2)} MB`);
+
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rehearsal-project-${Date.now()}${BUNDLE_EXTENSION}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 校验 manifest 的格式与版本
+ */
+function validateManifest(value: unknown): BundleManifest {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Invalid project bundle: manifest is not an object');
+  }
+  const manifest = value as Partial<BundleManifest>;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Invalid project bundle: unknown format');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported project bundle version ${manifest.version} (this app supports up to ${BUNDLE_VERSION})`);
+  }
+  if (!Array.isArray(manifest.segments)) {
+    throw new Error('Invalid project bundle: missing segments');
+  }
+  // 没有角色信息时按未生成定妆照处理
+  manifest.character ??= { description: null, personality: null };
+  if (typeof manifest.character !== 'object' || (manifest.character.image !== undefined && typeof manifest.character.image !== 'string')) {
+    throw new Error('Invalid project bundle: malformed character');
+  }
+  const gestureTypes = Object.values(GestureType) as string[];
+  const isValidSegment = (seg: BundleSegment | undefined) =>
+    !!seg && typeof seg.id === 'string' && typeof seg.spokenText === 'string' && gestureTypes.includes(seg.gestureType);
+  manifest.segments.forEach((seg, i) => {
+    if (!isValidSegment(seg)) {
+      throw new Error(`Invalid project bundle: segment ${i + 1} is malformed`);
+    }
+  });
+  if (manifest.qa !== undefined && !Array.isArray(manifest.qa)) {
+    throw new Error('Invalid project bundle: malformed Q&A');
+  }
+  manifest.qa?.forEach((item, i) => {
+    if (!item || typeof item.id !== 'string' || typeof item.question !== 'string') {
+      throw new Error(`Invalid project bundle: question ${i + 1} is malformed`);
+    }
+    // 参考回答的段落与正文段落同样校验；没有回答时按空处理
+    if (item.answer !== undefined && !Array.isArray(item.answer)) {
+      throw new Error(`Invalid project bundle: answer to question ${i + 1} is malformed`);
+    }
+    item.answer?.forEach((seg, j) => {
+      if (!isValidSegment(seg)) {
+        throw new Error(`Invalid project bundle: answer segment ${j + 1} of question ${i + 1} is malformed`);
+      }
+    });
+  });
+  return manifest as BundleManifest;
+}
+
+/**
+ * 读取 bundle 文件并还原为一个新项目（新的项目 id，媒体为新的 blob URL）
+ */
+export async function importProjectBundle(file: Blob): Promise<RehearsalProject> {
+  const files = readZip(await file.arrayBuffer());
+
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) {
+    throw new Error('Invalid project bundle: manifest.json not found');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error('Invalid project bundle: manifest.json is not valid JSON');
+  }
+  const manifest = validateManifest(parsed);
+
+  const readMedia = (path?: string): string | undefined => {
+    if (!path) return undefined;
+    const bytes = files.get(path);
+    if (!bytes) {
+      console.warn(`[Bundle] Missing file in bundle: ${path}`);
+      return undefined;
+    }
+    return createMediaUrl(new Blob([bytes as BlobPart], { type: mimeTypeForPath(path) }));
+  };
+
+  const restoreSegment = (item: BundleSegment): ScriptSegment => {
+    const audioUrl = readMedia(item.audio);
+    const videoUrl = readMedia(item.video);
+    const needsVideo = item.gestureType !== GestureType.NONE;
+
+    return {
+      id: item.id,
+      spokenText: item.spokenText,
+      gestureType: item.gestureType,
+      gestureDescription: item.gestureDescription,
+      audioStatus: audioUrl ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+      videoStatus: !needsVideo || videoUrl ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+      audioUrl,
+      videoUrl,
+      audioDuration: item.audioDuration,
+      videoDuration: item.videoDuration,
+      videoStartTime: item.videoStartTime,
+      videoEndTime: item.videoEndTime,
+      videoReview: item.review,
+      ...(item.speakerId ? { speakerId: item.speakerId } : {}),
+      ...(item.slideIndex ? { slideIndex: item.slideIndex } : {}),
+      ...(item.dubbed && videoUrl ? { dubbed: true } : {}),
+      ...(item.timeStretch && audioUrl ? { timeStretch: item.timeStretch } : {}),
+      ...(item.wordTimings?.length && audioUrl ? { wordTimings: item.wordTimings } : {}),
+      ...(item.lockText ? { lockText: true } : {}),
+    };
+  };
+
+  const segments = manifest.segments.map(restoreSegment);
+
+  const qa: QaItem[] = (manifest.qa ?? []).map((item) => {
+    const questionAudioUrl = readMedia(item.questionAudio);
+    return {
+      id: item.id,
+      question: item.question,
+      questionAudioStatus: questionAudioUrl ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+      questionAudioUrl,
+      answer: (item.answer ?? []).map(restoreSegment),
+    };
+  });
+
+  const cast: CastMember[] = (manifest.cast ?? []).map(({ image, ...member }) => {
+    const bytes = image ? files.get(image) : undefined;
+    return {
+      ...member,
+      imageBase64: bytes ? encodeBase64(bytes) : null,
+      imageStatus: bytes ? CharacterStatus.COMPLETED : CharacterStatus.IDLE,
+    };
+  });
+
+  const slides = normalizeSlides(manifest.slides);
+
+  const imageBytes = manifest.character.image ? files.get(manifest.character.image) : undefined;
+  const characterImageBase64 = imageBytes ? encodeBase64(imageBytes) : null;
+
+  const allMediaReady = segments.every(
+    (s) => s.audioStatus === SegmentStatus.COMPLETED && s.videoStatus === SegmentStatus.COMPLETED
+  );
+  const now = Date.now();
+
+  return {
+    id: createProjectId(),
+    scenario: manifest.scenario || '',
+    inputMode: manifest.inputMode === 'speech' ? 'speech' : 'scenario',
+    scriptOptions: manifest.scriptOptions ? normalizeScriptOptions(manifest.scriptOptions) : undefined,
+    status: segments.length === 0 ? 'input' : allMediaReady ? 'ready' : 'editing',
+    segments,
+    characterImageBase64,
+    characterDescription: manifest.character.description ?? null,
+    characterPersonality: manifest.character.personality ?? null,
+    characterStatus: characterImageBase64 ? CharacterStatus.COMPLETED : CharacterStatus.IDLE,
+    scriptResponse: manifest.script ?? null,
+    cast: cast.length > 0 ? cast : undefined,
+    qa: qa.length > 0 ? qa : undefined,
+    slides: slides.length > 0 ? slides : undefined,
+    voice: normalizeVoiceSettings(manifest.character.voice),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,507 @@
+/**
+ * 排练项目持久化（IndexedDB）
+ *
+ * 将 ScriptSegment[]、角色资产以及音频/视频的真实字节（而不仅是 blob URL）保存到 IndexedDB，
+ * 以便刷新页面后恢复完整的编辑器 / 播放器状态，避免重复付费生成。
+ *
+ * 存储结构：
+ * - projects：项目元数据与段落（不含 audioUrl / videoUrl）
+ * - media：每个段落的音频 / 视频 Blob，key 为 `${projectId}/${segmentId}/${kind}`
+ *   （观众问答的提问音频以问题 id 代替段落 id，参考回答的段落与正文段落同样存储）
+ * - summaries：项目库列表使用的轻量摘要（名称、缩略图、完成度）
+ */
+
+import { CharacterStatus, GestureType, SegmentStatus, type ProjectSummary, type QaItem, type RehearsalProject, type RehearsalState, type ScriptSegment } from '../types';
+
+const DB_NAME = 'ai-rehearsal-coach';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const MEDIA_STORE = 'media';
+const SUMMARY_STORE = 'summaries';
+const THUMBNAIL_WIDTH = 160;
+const LAST_PROJECT_KEY = 'rehearsal:lastProjectId';
+
+type MediaKind = 'audio' | 'video';
+
+/** projects 表中保存的段落：去掉运行时的 blob URL，仅在远程 URL 无法下载时保留原地址 */
+type StoredSegment = Omit<ScriptSegment, 'audioUrl' | 'videoUrl'> & {
+  remoteVideoUrl?: string;
+};
+
+type StoredQaItem = Omit<QaItem, 'questionAudioUrl' | 'answer'> & {
+  answer: StoredSegment[];
+};
+
+type StoredProject = Omit<RehearsalProject, 'segments' | 'qa'> & {
+  segments: StoredSegment[];
+  qa?: StoredQaItem[];
+};
+
+interface StoredMedia {
+  key: string;
+  projectId: string;
+  kind: MediaKind;
+  blob: Blob;
+  /** 写入时对应的 URL，用于判断段落媒体是否已变化，避免重复写入 */
+  sourceUrl: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+        db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        const media = db.createObjectStore(MEDIA_STORE, { keyPath: 'key' });
+        media.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+        const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        // v1 的项目没有摘要：在升级事务中补齐（缩略图在下次保存时生成）
+        const projects = request.transaction!.objectStore(PROJECT_STORE);
+        projects.openCursor().onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          summaries.put(buildSummary(cursor.value as StoredProject, null));
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const mediaKey = (projectId: string, segmentId: string, kind: MediaKind) =>
+  `${projectId}/${segmentId}/${kind}`;
+
+// 已解析过的 URL → Blob 缓存，避免每次自动保存都重新下载远程视频。
+// 每次保存后只保留当前项目仍在使用的 URL（见 pruneBlobCache），已 revoke 的 URL 和切换前项目的媒体随之释放
+const blobCache = new Map<string, Blob>();
+
+/** 丢弃不在 keep 中的缓存；缓存只是优化，被误删的 URL 下次保存时重新 fetch */
+const pruneBlobCache = (keep: Set<string>): void => {
+  for (const url of blobCache.keys()) {
+    if (!keep.has(url)) blobCache.delete(url);
+  }
+};
+
+/**
+ * 获取某个媒体 URL 对应的字节（blob: URL 或远程 Veo URL）
+ * 下载失败时返回 null，调用方自行降级。
+ */
+export async function fetchMediaBlob(url: string): Promise<Blob | null> {
+  const cached = blobCache.get(url);
+  if (cached) return cached;
+
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+    const blob = await response.blob();
+    blobCache.set(url, blob);
+    return blob;
+  } catch (e) {
+    console.warn(`[ProjectStore] Failed to fetch media bytes from ${url.substring(0, 80)}:`, e);
+    return null;
+  }
+}
+
+/** 为 Blob 创建 URL 并登记到缓存，后续保存时无需再次 fetch */
+export function createMediaUrl(blob: Blob): string {
+  const url = URL.createObjectURL(blob);
+  blobCache.set(url, blob);
+  return url;
+}
+
+export const createProjectId = (): string =>
+  `proj-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string | null): void => {
+  try {
+    if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+    else localStorage.removeItem(LAST_PROJECT_KEY);
+  } catch {
+    // localStorage 不可用（隐私模式等）时忽略
+  }
+};
+
+/** 项目显示名称：优先使用自定义名称，否则截取场景文本 */
+export const getProjectDisplayName = (project: Pick<RehearsalProject, 'name' | 'scenario'>): string => {
+  if (project.name?.trim()) return project.name.trim();
+  const scenario = project.scenario.trim().replace(/\s+/g, ' ');
+  if (!scenario) return 'Untitled rehearsal';
+  return scenario.length > 40 ? `${scenario.substring(0, 40)}…` : scenario;
+};
+
+function buildSummary(project: StoredProject | RehearsalProject, thumbnail: string | null): ProjectSummary {
+  const needsVideo = project.segments.filter((s) => s.gestureType !== GestureType.NONE);
+  return {
+    id: project.id,
+    name: getProjectDisplayName(project),
+    scenario: project.scenario,
+    thumbnail,
+    status: project.status,
+    segmentCount: project.segments.length,
+    audioCompleted: project.segments.filter((s) => s.audioStatus === SegmentStatus.COMPLETED).length,
+    videoRequired: needsVideo.length,
+    videoCompleted: needsVideo.filter((s) => s.videoStatus === SegmentStatus.COMPLETED).length,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+// 最近生成的缩略图缓存（按原图内容），避免每次自动保存都重新绘制
+const thumbnailCache = new Map<string, string>();
+
+/**
+ * 将角色定妆照缩放为列表用的 JPEG 缩略图
+ */
+async function createThumbnail(imageBase64: string): Promise<string | null> {
+  const cached = thumbnailCache.get(imageBase64);
+  if (cached) return cached;
+
+  try {
+    const image = new Image();
+    image.src = `data:image/png;base64,${imageBase64}`;
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Failed to load character image'));
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = Math.round(THUMBNAIL_WIDTH * (image.height / image.width));
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const thumbnail = canvas.toDataURL('image/jpeg', 0.8);
+
+    thumbnailCache.clear();
+    thumbnailCache.set(imageBase64, thumbnail);
+    return thumbnail;
+  } catch (e) {
+    console.warn('[ProjectStore] Failed to create thumbnail:', e);
+    return null;
+  }
+}
+
+// 串行化写入，避免多个自动保存交错导致旧数据覆盖新数据
+let saveChain: Promise<void> = Promise.resolve();
+
+/**
+ * 保存项目（包括音频 / 视频字节）。
+ * 多次调用会按顺序执行。
+ */
+export function saveProject(project: RehearsalProject): Promise<void> {
+  const run = saveChain.then(() => writeProject(project));
+  saveChain = run.catch(() => {});
+  return run;
+}
+
+async function writeProject(project: RehearsalProject): Promise<void> {
+  const db = await openDatabase();
+
+  // 读取已有媒体记录，只对 URL 变化的段落重新写入
+  const existing = await requestToPromise<StoredMedia[]>(
+    db.transaction(MEDIA_STORE, 'readonly').objectStore(MEDIA_STORE).index('projectId').getAll(project.id)
+  );
+  const existingByKey = new Map(existing.map((m) => [m.key, m]));
+
+  // IndexedDB 事务不能跨越 await fetch，所以先把需要的 Blob 全部准备好
+  const mediaToWrite: StoredMedia[] = [];
+  const wantedKeys = new Set<string>();
+  const projectUrls = new Set<string>();
+
+  /** 准备一条媒体记录；返回 false 表示字节无法获取 */
+  const collectMedia = async (ownerId: string, kind: MediaKind, url: string): Promise<boolean> => {
+    const key = mediaKey(project.id, ownerId, kind);
+    projectUrls.add(url);
+    const previous = existingByKey.get(key);
+    if (previous && previous.sourceUrl === url) {
+      wantedKeys.add(key);
+      return true;
+    }
+
+    const blob = await fetchMediaBlob(url);
+    if (!blob) return false;
+    wantedKeys.add(key);
+    mediaToWrite.push({ key, projectId: project.id, kind, blob, sourceUrl: url });
+    return true;
+  };
+
+  const storeSegment = async (segment: ScriptSegment): Promise<StoredSegment> => {
+    const { audioUrl, videoUrl, ...rest } = segment;
+    const stored: StoredSegment = { ...rest };
+
+    if (audioUrl) await collectMedia(segment.id, 'audio', audioUrl);
+    if (videoUrl && !(await collectMedia(segment.id, 'video', videoUrl)) && !videoUrl.startsWith('blob:')) {
+      // 远程视频暂时无法下载（CORS 等），至少保留原始地址
+      stored.remoteVideoUrl = videoUrl;
+    }
+    return stored;
+  };
+
+  const storedSegments: StoredSegment[] = [];
+  for (const segment of project.segments) {
+    storedSegments.push(await storeSegment(segment));
+  }
+
+  let storedQa: StoredQaItem[] | undefined;
+  if (project.qa) {
+    storedQa = [];
+    for (const { questionAudioUrl, answer, ...item } of project.qa) {
+      if (questionAudioUrl) await collectMedia(item.id, 'audio', questionAudioUrl);
+      const storedAnswer: StoredSegment[] = [];
+      for (const segment of answer) {
+        storedAnswer.push(await storeSegment(segment));
+      }
+      storedQa.push({ ...item, answer: storedAnswer });
+    }
+  }
+
+  const record: StoredProject = { ...project, segments: storedSegments, qa: storedQa };
+  const thumbnail = project.characterImageBase64 ? await createThumbnail(project.characterImageBase64) : null;
+
+  const tx = db.transaction([PROJECT_STORE, MEDIA_STORE, SUMMARY_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).put(record);
+  tx.objectStore(SUMMARY_STORE).put(buildSummary(record, thumbnail));
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+  for (const media of mediaToWrite) {
+    mediaStore.put(media);
+  }
+  // 清理已删除段落或已失效的媒体
+  for (const media of existing) {
+    if (!wantedKeys.has(media.key)) mediaStore.delete(media.key);
+  }
+  await transactionDone(tx);
+  pruneBlobCache(projectUrls);
+}
+
+/**
+ * 将中断的进行中状态恢复为可继续操作的状态
+ * （刷新时正在进行的生成请求已经丢失）
+ */
+const normalizeRestoredStatus = (
+  status: RehearsalState['status'],
+  hasSegments: boolean
+): RehearsalState['status'] => {
+  switch (status) {
+    case 'scripting':
+      return hasSegments ? 'editing' : 'input';
+    case 'validating_timing':
+    case 'generating_character':
+    case 'generating_media':
+      return 'editing';
+    default:
+      return status;
+  }
+};
+
+/**
+ * 读取项目并为其中的音频 / 视频字节创建新的 blob URL
+ */
+export async function loadProject(id: string): Promise<RehearsalProject | null> {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, MEDIA_STORE], 'readonly');
+  const recordPromise = requestToPromise<StoredProject | undefined>(tx.objectStore(PROJECT_STORE).get(id));
+  const mediaPromise = requestToPromise<StoredMedia[]>(tx.objectStore(MEDIA_STORE).index('projectId').getAll(id));
+  const [record, media] = await Promise.all([recordPromise, mediaPromise]);
+
+  if (!record) return null;
+
+  const mediaByKey = new Map(media.map((m) => [m.key, m]));
+
+  const restoreSegment = ({ remoteVideoUrl, ...stored }: StoredSegment): ScriptSegment => {
+    const segment: ScriptSegment = { ...stored };
+    const audio = mediaByKey.get(mediaKey(id, stored.id, 'audio'));
+    const video = mediaByKey.get(mediaKey(id, stored.id, 'video'));
+
+    if (audio) segment.audioUrl = createMediaUrl(audio.blob);
+    if (video) segment.videoUrl = createMediaUrl(video.blob);
+    else if (remoteVideoUrl) segment.videoUrl = remoteVideoUrl;
+
+    // 刷新时中断的生成：音频缺失则回到 IDLE，允许重新生成
+    if (segment.audioStatus === SegmentStatus.GENERATING || (segment.audioStatus === SegmentStatus.COMPLETED && !segment.audioUrl)) {
+      segment.audioStatus = SegmentStatus.IDLE;
+    }
+    if (segment.videoStatus === SegmentStatus.GENERATING || (segment.videoStatus === SegmentStatus.COMPLETED && segment.gestureType !== GestureType.NONE && !segment.videoUrl)) {
+      segment.videoStatus = SegmentStatus.IDLE;
+    }
+    return segment;
+  };
+
+  const segments = record.segments.map(restoreSegment);
+
+  const qa: QaItem[] | undefined = record.qa?.map(({ answer, ...stored }) => {
+    const item: QaItem = { ...stored, answer: answer.map(restoreSegment) };
+    const audio = mediaByKey.get(mediaKey(id, stored.id, 'audio'));
+    if (audio) item.questionAudioUrl = createMediaUrl(audio.blob);
+    if (item.questionAudioStatus === SegmentStatus.GENERATING || (item.questionAudioStatus === SegmentStatus.COMPLETED && !item.questionAudioUrl)) {
+      item.questionAudioStatus = SegmentStatus.IDLE;
+    }
+    return item;
+  });
+
+  return {
+    ...record,
+    segments,
+    qa,
+    status: normalizeRestoredStatus(record.status, segments.length > 0),
+    characterStatus:
+      record.characterStatus === CharacterStatus.GENERATING
+        ? (record.characterImageBase64 ? CharacterStatus.COMPLETED : CharacterStatus.IDLE)
+        : record.characterStatus,
+    cast: record.cast?.map((member) =>
+      member.imageStatus === CharacterStatus.GENERATING
+        ? { ...member, imageStatus: member.imageBase64 ? CharacterStatus.COMPLETED : CharacterStatus.IDLE }
+        : member
+    ),
+  };
+}
+
+/**
+ * 列出所有项目摘要（按最近修改排序）
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDatabase();
+  const summaries = await requestToPromise<ProjectSummary[]>(
+    db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).getAll()
+  );
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 重命名项目（只修改名称，不改动段落和媒体）
+ */
+export async function renameProject(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECT_STORE, SUMMARY_STORE], 'readwrite');
+  const projects = tx.objectStore(PROJECT_STORE);
+  const summaries = tx.objectStore(SUMMARY_STORE);
+
+  const [record, summary] = await Promise.all([
+    requestToPromise<StoredProject | undefined>(projects.get(id)),
+    requestToPromise<ProjectSummary | undefined>(summaries.get(id)),
+  ]);
+  if (!record) throw new Error(`Project ${id} not found`);
+
+  const updated: StoredProject = { ...record, name: name.trim() || undefined, updatedAt: Date.now() };
+  projects.put(updated);
+  summaries.put(buildSummary(updated, summary?.thumbnail ?? null));
+  await transactionDone(tx);
+}
+
+export interface DuplicateOptions {
+  /**
+   * false：保留脚本与音频，但清空角色定妆照和手势视频（视频依赖角色形象），
+   * 用于"同一脚本，换一个角色"
+   */
+  keepCharacter: boolean;
+}
+
+/**
+ * 复制项目，返回新项目 id
+ */
+export async function duplicateProject(id: string, options: DuplicateOptions): Promise<string> {
+  const source = await loadProject(id);
+  if (!source) throw new Error(`Project ${id} not found`);
+
+  const now = Date.now();
+  const baseName = getProjectDisplayName(source);
+  // 段落与问答使用新的 id（规则同 App 中新生成的段落），不与原项目共用
+  const runId = `${now}-${Math.random().toString(36).substr(2, 9)}`;
+  const copy: RehearsalProject = {
+    ...source,
+    id: createProjectId(),
+    name: options.keepCharacter ? `${baseName} (copy)` : `${baseName} (new character)`,
+    createdAt: now,
+    updatedAt: now,
+    segments: source.segments.map((seg, index) => ({ ...seg, id: `seg-${index}-${runId}` })),
+    qa: source.qa?.map((item, qIndex) => ({
+      ...item,
+      id: `qa-${qIndex}-${runId}`,
+      answer: item.answer.map((seg, aIndex) => ({ ...seg, id: `qa-${qIndex}-seg-${aIndex}-${runId}` })),
+    })),
+  };
+
+  if (!options.keepCharacter) {
+    copy.characterImageBase64 = null;
+    copy.characterStatus = CharacterStatus.IDLE;
+    copy.cast = copy.cast?.map((member) => ({ ...member, imageBase64: null, imageStatus: CharacterStatus.IDLE }));
+    copy.status = copy.segments.length > 0 ? 'editing' : 'input';
+    copy.segments = copy.segments.map((seg) => ({
+      ...seg,
+      videoStatus: seg.gestureType === GestureType.NONE ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+      videoUrl: undefined,
+      videoDuration: undefined,
+      videoReview: undefined,
+      dubbed: undefined,
+    }));
+    copy.qa = copy.qa?.map((item) => ({
+      ...item,
+      answer: item.answer.map((seg) => ({
+        ...seg,
+        videoStatus: seg.gestureType === GestureType.NONE ? SegmentStatus.COMPLETED : SegmentStatus.IDLE,
+        videoUrl: undefined,
+        videoDuration: undefined,
+        videoReview: undefined,
+        dubbed: undefined,
+      })),
+    }));
+  }
+
+  await saveProject(copy);
+  return copy.id;
+}
+
+/**
+ * 删除项目及其全部媒体
+ */
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const keys = await requestToPromise<IDBValidKey[]>(
+    db.transaction(MEDIA_STORE, 'readonly').objectStore(MEDIA_STORE).index('projectId').getAllKeys(id)
+  );
+  const tx = db.transaction([PROJECT_STORE, MEDIA_STORE, SUMMARY_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).delete(id);
+  tx.objectStore(SUMMARY_STORE).delete(id);
+  const mediaStore = tx.objectStore(MEDIA_STORE);
+  for (const key of keys) mediaStore.delete(key);
+  await transactionDone(tx);
+
+  if (getLastProjectId() === id) setLastProjectId(null);
+}
@@ -0,0 +1,60 @@
+/**
+ * Gemini 后端：将 geminiService 中的各项调用适配为 Provider 接口
+ */
+
+import {
+  generateRehearsalScript,
+  streamRehearsalScript,
+  fixRehearsalScript,
+  extendRehearsalScript,
+  annotateRehearsalScript,
+  translateRehearsalScript,
+  generateAudienceQuestions,
+  regenerateShorterText,
+  suggestCharacterVoice,
+  generateCharacterImage,
+  generateSpeech,
+  generateActionVideo,
+  reviewVideoContent,
+} from '../geminiService';
+import { GEMINI_TTS_VOICES, GEMINI_TTS_VOICE_TRAITS } from '../geminiCore';
+import type { ImageProvider, ReviewProvider, ScriptProvider, SpeechProvider, VideoProvider } from './types';
+
+export const geminiScriptProvider: ScriptProvider = {
+  generateScript: generateRehearsalScript,
+  streamScript: streamRehearsalScript,
+  fixScript: fixRehearsalScript,
+  extendScript: extendRehearsalScript,
+  annotateScript: annotateRehearsalScript,
+  translateScript: translateRehearsalScript,
+  generateQuestions: generateAudienceQuestions,
+  suggestVoice: suggestCharacterVoice,
+  shortenText: regenerateShorterText,
+};
+
+export const geminiImageProvider: ImageProvider = {
+  generateCharacterImage,
+};
+
+export const geminiSpeechProvider: SpeechProvider = {
+  voices: GEMINI_TTS_VOICES,
+  voiceTraits: GEMINI_TTS_VOICE_TRAITS,
+  generateSpeech,
+};
+
+export const geminiVideoProvider: VideoProvider = {
+  generateActionVideo: (request) =>
+    generateActionVideo(
+      request.gestureType,
+      request.spokenText,
+      request.gestureDescription,
+      request.referenceImageBase64,
+      request.scenario,
+      request.characterPersonality,
+      request.reviewFeedback
+    ),
+};
+
+export const geminiReviewProvider: ReviewProvider = {
+  reviewVideo: reviewVideoContent,
+};
@@ -0,0 +1,62 @@
+/**
+ * Providers 模块入口
+ *
+ * 注册内置后端，并导出注册表 API，方便统一导入
+ */
+
+import { registerProvider } from './registry';
+import {
+  geminiScriptProvider,
+  geminiImageProvider,
+  geminiSpeechProvider,
+  geminiVideoProvider,
+  geminiReviewProvider,
+} from './geminiProvider';
+import {
+  mockScriptProvider,
+  mockImageProvider,
+  mockSpeechProvider,
+  mockVideoProvider,
+  mockReviewProvider,
+} from './mockProvider';
+import {
+  proxyScriptProvider,
+  proxyImageProvider,
+  proxySpeechProvider,
+  proxyVideoProvider,
+  proxyReviewProvider,
+} from './proxyProvider';
+import { openaiCompatScriptProvider } from './openaiCompatProvider';
+import { localSpeechProvider } from './localTtsProvider';
+
+registerProvider('script', 'gemini', () => geminiScriptProvider);
+registerProvider('image', 'gemini', () => geminiImageProvider);
+registerProvider('speech', 'gemini', () => geminiSpeechProvider);
+registerProvider('video', 'gemini', () => geminiVideoProvider);
+registerProvider('review', 'gemini', () => geminiReviewProvider);
+
+registerProvider('script', 'mock', () => mockScriptProvider);
+registerProvider('image', 'mock', () => mockImageProvider);
+registerProvider('speech', 'mock', () => mockSpeechProvider);
+registerProvider('video', 'mock', () => mockVideoProvider);
+registerProvider('review', 'mock', () => mockReviewProvider);
+
+registerProvider('script', 'proxy', () => proxyScriptProvider);
+registerProvider('image', 'proxy', () => proxyImageProvider);
+registerProvider('speech', 'proxy', () => proxySpeechProvider);
+registerProvider('video', 'proxy', () => proxyVideoProvider);
+registerProvider('review', 'proxy', () => proxyReviewProvider);
+
+registerProvider('script', 'openai', () => openaiCompatScriptProvider);
+
+registerProvider('speech', 'local', () => localSpeechProvider);
+
+export {
+  registerProvider,
+  getProvider,
+  getProviderSelection,
+  setProviderSelection,
+  listProviders,
+  DEFAULT_PROVIDER,
+} from './registry';
+export type * from './types';
@@ -0,0 +1,75 @@
+/**
+ * 本地 HTTP TTS 后端
+ *
+ * 调用本地的语音合成服务（Piper / Coqui 风格：输入文本，返回 WAV），
+ * 经 audioUtils 解码后转成与 Gemini TTS 相同的 WAV blob URL。
+ *
+ * 配置：
+ * - VITE_TTS_URL：服务地址，默认 http://localhost:5000
+ *   包含 {text} 占位符时使用 GET，例如 Coqui：http://localhost:5002/api/tts?text={text}
+ *   否则以 JSON { text, voice } POST 到该地址（Piper http_server）
+ * - VITE_TTS_VOICE：可选，音色 / 说话人名称，替换 URL 中的 {voice} 或作为 POST 的 voice 字段
+ * - VITE_TTS_VOICES：可选，逗号分隔的音色列表，可在角色面板中选择，多人对话时按顺序分配给各角色
+ *
+ * Piper / Coqui 没有朗读风格参数，style 会被忽略
+ */
+
+import { audioBufferToWavBlobUrl, decodeWavData } from '../audioUtils';
+import type { SpeechProvider } from './types';
+
+const getConfig = () => {
+  const env = import.meta.env;
+  return {
+    url: String(env?.VITE_TTS_URL || 'http://localhost:5000'),
+    voice: String(env?.VITE_TTS_VOICE || ''),
+    voices: String(env?.VITE_TTS_VOICES || '').split(',').map((v) => v.trim()).filter(Boolean),
+  };
+};
+
+const requestSynthesis = async (text: string, voiceOverride?: string): Promise<Response> => {
+  const voice = voiceOverride || getConfig().voice;
+  const { url } = getConfig();
+
+  if (url.includes('{text}')) {
+    const target = url
+      .replace('{text}', encodeURIComponent(text))
+      .replace('{voice}', encodeURIComponent(voice));
+    return fetch(target);
+  }
+
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(voice ? { text, voice } : { text }),
+  });
+};
+
+export const localSpeechProvider: SpeechProvider = {
+  get voices() {
+    const { voices } = getConfig();
+    return voices.length > 0 ? voices : undefined;
+  },
+
+  async generateSpeech(text, voice) {
+    let response: Response;
+    try {
+      response = await requestSynthesis(text, voice);
+    } catch (e: any) {
+      throw new Error(`[LocalTTS] Cannot reach TTS server at ${getConfig().url}: ${e.message}`);
+    }
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).substring(0, 200);
+      throw Object.assign(new Error(`[LocalTTS] Synthesis failed: ${response.status} ${response.statusText} ${detail}`.trim()), { status: response.status });
+    }
+
+    const data = await response.arrayBuffer();
+    if (data.byteLength === 0) {
+      throw new Error('[LocalTTS] TTS server returned empty audio');
+    }
+
+    const audioBuffer = await decodeWavData(data);
+    console.log(`[LocalTTS] Synthesized ${audioBuffer.duration.toFixed(1)}s @ ${audioBuffer.sampleRate}Hz for: "${text.substring(0, 40)}..."`);
+    return audioBufferToWavBlobUrl(audioBuffer);
+  },
+};
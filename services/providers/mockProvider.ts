@@ -0,0 +1,459 @@
+/**
+ * 完全离线的 Mock 后端
+ *
+ * 不发起任何网络请求，用于 UI / 导出流程的开发调试：
+ * - 脚本：根据场景语言返回预置脚本（访谈 / 辩论类场景返回两人对话），设置目标时长时按段落数截取或补充，
+ *   导入幻灯片时按顺序把段落均匀分配到各页
+ * - 翻译：不做真正的翻译，只在原台词前加上目标语言标记
+ * - 定妆照：用 canvas 画一个简单的角色剪影
+ * - 音色推荐：按角色描述中的年龄 / 性别关键词选择音高
+ * - TTS：按台词长度合成带"音节"包络的正弦波（不同音色对应不同音高，whisper / excited / calm 风格改变音量和音高）
+ * - 视频：用 canvas + MediaRecorder 录制 8 秒的合成动画（含音轨）
+ * - 审查：始终通过
+ */
+
+import type { GeminiScriptResponse, QaResponse, ScriptOptions, VideoReviewResult } from '../../types';
+import { audioBufferToWavBlobUrl } from '../audioUtils';
+import { distributeWordTimings } from '../wordTiming';
+import { base64ToDataUrl } from '../mediaUtils';
+import { estimateSegmentCount } from '../scriptOptions';
+import { detectLanguage, estimateSpeechSeconds as estimateRawSpeechSeconds, LANGUAGE_PROFILES } from '../language';
+import type {
+  ImageProvider,
+  ReviewProvider,
+  ScriptProvider,
+  SpeechProvider,
+  VideoGenerationRequest,
+  VideoProvider,
+} from './types';
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_VIDEO_SECONDS = 8;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// 预置脚本只有中英文两种，其他语言使用英文脚本
+const isChinese = (text: string) => detectLanguage(text) === 'zh';
+
+const CANNED_SCRIPT_EN: GeminiScriptResponse = {
+  script: [
+    { spoken_text: 'Good evening everyone, thank you so much for being here with us tonight.', gesture_type: 'beat' },
+    { spoken_text: 'Look over there, that is where our journey together first began.', gesture_type: 'deictic', gesture_description: 'Guiding everyone\'s attention toward a cherished place in the distance' },
+    { spoken_text: 'We built this project brick by brick, one small step at a time.', gesture_type: 'iconic', gesture_description: 'Carefully stacking invisible building blocks into a tall tower' },
+    { spoken_text: 'Let us take a quiet moment together.', gesture_type: 'none' },
+    { spoken_text: 'Our dreams are bigger than any obstacle standing in our way.', gesture_type: 'metaphoric', gesture_description: 'Expanding with confidence and claiming the space' },
+  ],
+  character_description: 'A friendly presenter in a navy blazer and white sneakers with short dark hair',
+  character_personality: 'Warmly inviting and open, arms sweep outward welcoming, gentle weight shifts, rounded and embracing movements.',
+};
+
+const CANNED_SCRIPT_ZH: GeminiScriptResponse = {
+  script: [
+    { spoken_text: '大家晚上好，非常感谢各位今天抽空来到这里。', gesture_type: 'beat' },
+    { spoken_text: '请看那边，那就是我们故事最开始的地方。', gesture_type: 'deictic', gesture_description: '引导所有人的目光望向远处一个珍贵的地方' },
+    { spoken_text: '我们一砖一瓦，一步一步地把它搭建起来。', gesture_type: 'iconic', gesture_description: '小心翼翼地把看不见的积木垒成一座高塔' },
+    { spoken_text: '让我们一起安静片刻。', gesture_type: 'none' },
+    { spoken_text: '我们的梦想，比任何阻碍都更加远大。', gesture_type: 'metaphoric', gesture_description: '充满自信地舒展身体，占据整个空间' },
+  ],
+  character_description: '一位穿着藏青色西装外套和白色运动鞋、留着黑色短发的友善演讲者',
+  character_personality: '热情开放，手臂向外舒展表示欢迎，重心移动平缓，动作圆润而有包容感。',
+};
+
+const CANNED_DIALOGUE_EN: GeminiScriptResponse = {
+  script: [
+    { spoken_text: 'Welcome to the show, it is great to finally have you here.', gesture_type: 'beat', speaker_id: 'host' },
+    { spoken_text: 'Thank you, I have been looking forward to this conversation.', gesture_type: 'beat', speaker_id: 'guest' },
+    { spoken_text: 'So tell us, how did the whole idea get started?', gesture_type: 'deictic', gesture_description: 'Inviting the guest into the spotlight', speaker_id: 'host' },
+    { spoken_text: 'It started as a tiny sketch that kept growing bigger and bigger.', gesture_type: 'iconic', gesture_description: 'A small seed blossoming into something enormous', speaker_id: 'guest' },
+  ],
+  character_description: 'A charismatic talk show host in a burgundy suit with slicked-back gray hair',
+  character_personality: 'Smooth and engaging, leans in with curiosity, open palms and confident nods.',
+  cast: [
+    { id: 'host', name: 'Host', description: 'A charismatic talk show host in a burgundy suit with slicked-back gray hair', personality: 'Smooth and engaging, leans in with curiosity, open palms and confident nods.' },
+    { id: 'guest', name: 'Guest', description: 'A young inventor in a yellow hoodie and round glasses with curly red hair', personality: 'Excited and animated, talks with big expansive hand movements and bouncy energy.' },
+  ],
+};
+
+const CANNED_DIALOGUE_ZH: GeminiScriptResponse = {
+  script: [
+    { spoken_text: '欢迎来到节目，终于把您请到现场了。', gesture_type: 'beat', speaker_id: 'host' },
+    { spoken_text: '谢谢邀请，我也一直很期待这次对话。', gesture_type: 'beat', speaker_id: 'guest' },
+    { spoken_text: '请跟大家讲讲，这个想法是怎么开始的？', gesture_type: 'deictic', gesture_description: '把嘉宾邀请到聚光灯下', speaker_id: 'host' },
+    { spoken_text: '它最初只是一张小草图，后来越长越大。', gesture_type: 'iconic', gesture_description: '一颗小种子慢慢长成参天大树', speaker_id: 'guest' },
+  ],
+  character_description: '一位穿酒红色西装、梳着银灰色背头的风趣主持人',
+  character_personality: '从容亲和，带着好奇心前倾，摊开手掌，自信地点头。',
+  cast: [
+    { id: 'host', name: '主持人', description: '一位穿酒红色西装、梳着银灰色背头的风趣主持人', personality: '从容亲和，带着好奇心前倾，摊开手掌，自信地点头。' },
+    { id: 'guest', name: '嘉宾', description: '一位穿黄色连帽衫、戴圆框眼镜、红色卷发的年轻发明家', personality: '兴奋而生动，说话时手势大幅展开，充满跳跃的活力。' },
+  ],
+};
+
+const CANNED_QA_EN: QaResponse = {
+  questions: [
+    {
+      question: 'How long did it take you to get here, and what was the hardest part?',
+      answer: [
+        { spoken_text: 'It took us almost two years of steady work to get here.', gesture_type: 'beat' },
+        { spoken_text: 'The hardest part was keeping the whole team moving in one direction.', gesture_type: 'metaphoric', gesture_description: 'Gathering scattered energy into a single focused stream' },
+      ],
+    },
+    {
+      question: 'Honestly, why should we believe this will work where others have failed?',
+      answer: [
+        { spoken_text: 'That is a fair question, and skepticism is healthy.', gesture_type: 'beat' },
+        { spoken_text: 'Our results over the last year speak for themselves.', gesture_type: 'deictic', gesture_description: 'Pointing the audience toward the evidence in front of them' },
+      ],
+    },
+  ],
+};
+
+const CANNED_QA_ZH: QaResponse = {
+  questions: [
+    {
+      question: '你们花了多长时间走到今天？最难的是什么？',
+      answer: [
+        { spoken_text: '我们踏踏实实走了将近两年。', gesture_type: 'beat' },
+        { spoken_text: '最难的是让整个团队朝同一个方向前进。', gesture_type: 'metaphoric', gesture_description: '把分散的力量汇聚成一股专注的洪流' },
+      ],
+    },
+    {
+      question: '说实话，别人都失败了，凭什么相信你们能成功？',
+      answer: [
+        { spoken_text: '这个问题问得很好，保持怀疑是健康的。', gesture_type: 'beat' },
+        { spoken_text: '过去一年的成果就是最好的回答。', gesture_type: 'deictic', gesture_description: '引导观众看向眼前的证据' },
+      ],
+    },
+  ],
+};
+
+// 凑够目标时长或补写段落时使用的填充台词
+const CANNED_FILLER_EN: GeminiScriptResponse['script'] = [
+  { spoken_text: 'Every single person in this room played a part in that story.', gesture_type: 'beat' },
+  { spoken_text: 'There were late nights, hard choices and a lot of coffee.', gesture_type: 'iconic', gesture_description: 'Carrying a heavy load through a long night' },
+  { spoken_text: 'And each challenge made us a little stronger than before.', gesture_type: 'metaphoric', gesture_description: 'Growing taller with each obstacle overcome' },
+  { spoken_text: 'Let me share one moment that I will never forget.', gesture_type: 'beat' },
+];
+
+const CANNED_FILLER_ZH: GeminiScriptResponse['script'] = [
+  { spoken_text: '在座的每一位，都是这个故事的一部分。', gesture_type: 'beat' },
+  { spoken_text: '我们熬过无数个深夜，做过很多艰难的决定。', gesture_type: 'iconic', gesture_description: '在漫长的夜里扛着沉重的担子前行' },
+  { spoken_text: '每一次挑战，都让我们变得更强大。', gesture_type: 'metaphoric', gesture_description: '每跨过一道障碍就站得更高一些' },
+  { spoken_text: '让我和大家分享一个难忘的瞬间。', gesture_type: 'beat' },
+];
+
+/**
+ * 按目标时长对应的段落数调整预置脚本：段落多了从中间删，少了在结尾段落之前插入填充台词
+ */
+const fitToTargetDuration = (response: GeminiScriptResponse, options?: ScriptOptions): GeminiScriptResponse => {
+  if (!options?.targetDurationSeconds || response.cast) return response;
+  const count = estimateSegmentCount(options.targetDurationSeconds);
+  const script = response.script;
+  if (count < script.length) {
+    return { ...response, script: [...script.slice(0, Math.max(1, count - 1)), script[script.length - 1]].slice(0, count) };
+  }
+  const filler = isChinese(script.map((item) => item.spoken_text).join('')) ? CANNED_FILLER_ZH : CANNED_FILLER_EN;
+  const extra = Array.from({ length: count - script.length }, (_, i) => filler[i % filler.length]);
+  return { ...response, script: [...script.slice(0, -1), ...extra, script[script.length - 1]] };
+};
+
+/** 场景像访谈 / 辩论 / 圆桌时返回多人对话脚本 */
+const isDialogueScenario = (scenario: string) =>
+  /interview|debate|panel|dialogue|conversation|采访|访谈|辩论|对话|圆桌/i.test(scenario);
+
+/**
+ * 根据文本长度估算朗读时长（与编辑器里的 TEXT_LIMITS 语速假设一致）
+ */
+const estimateSpeechSeconds = (text: string): number =>
+  Math.min(7.5, Math.max(1.5, estimateRawSpeechSeconds(text)));
+
+/** Mock 音色：只改变基础音高，方便区分多人对话中的角色 */
+const MOCK_VOICE_PITCH: Record<string, number> = { alto: 180, bass: 110, soprano: 260 };
+const MOCK_VOICE_TRAITS: Record<string, string> = { alto: 'Medium pitch', bass: 'Low pitch, male', soprano: 'High pitch, female or child' };
+
+/** 朗读风格对合成音的影响：耳语更轻，兴奋更高，平静更低 */
+const styleModifiers = (style = ''): { pitch: number; amplitude: number } => {
+  if (/whisper|耳语|小声/i.test(style)) return { pitch: 1, amplitude: 0.1 };
+  if (/excit|energetic|enthusias|兴奋|激动/i.test(style)) return { pitch: 1.2, amplitude: 0.35 };
+  if (/calm|gentle|soft|slow|平静|温和/i.test(style)) return { pitch: 0.9, amplitude: 0.25 };
+  return { pitch: 1, amplitude: 0.3 };
+};
+
+/**
+ * 生成"说话般"的正弦波：音高缓慢起伏，按音节做幅度包络
+ */
+const synthesizeSpeechBuffer = (text: string, basePitch: number = MOCK_VOICE_PITCH.alto, amplitude: number = 0.3): AudioBuffer => {
+  const duration = estimateSpeechSeconds(text);
+  const length = Math.round(duration * MOCK_SAMPLE_RATE);
+  const buffer = new AudioBuffer({ length, numberOfChannels: 1, sampleRate: MOCK_SAMPLE_RATE });
+  const data = buffer.getChannelData(0);
+  const syllableRate = 4; // 每秒音节数
+  let phase = 0;
+
+  for (let i = 0; i < length; i++) {
+    const t = i / MOCK_SAMPLE_RATE;
+    const pitch = basePitch + 40 * Math.sin(2 * Math.PI * 0.7 * t);
+    phase += (2 * Math.PI * pitch) / MOCK_SAMPLE_RATE;
+    const syllable = Math.max(0, Math.sin(Math.PI * syllableRate * t)) ** 2;
+    const fade = Math.min(1, t / 0.05, (duration - t) / 0.05);
+    data[i] = amplitude * syllable * fade * Math.sin(phase);
+  }
+  return buffer;
+};
+
+export const mockScriptProvider: ScriptProvider = {
+  async generateScript(scenario, options, slides) {
+    await sleep(600);
+    console.log(`[Mock] Returning canned script for: "${scenario.substring(0, 50)}"`);
+    const chinese = options?.language ? (options.language === 'auto' ? isChinese(scenario) : options.language === 'zh') : isChinese(scenario);
+    const response = isDialogueScenario(scenario)
+      ? structuredClone(chinese ? CANNED_DIALOGUE_ZH : CANNED_DIALOGUE_EN)
+      : structuredClone(fitToTargetDuration(chinese ? CANNED_SCRIPT_ZH : CANNED_SCRIPT_EN, options));
+    if (slides?.length) {
+      response.script.forEach((item, index) => {
+        item.slide_index = Math.floor((index * slides.length) / response.script.length) + 1;
+      });
+    }
+    return response;
+  },
+
+  async streamScript(scenario, onText, options, slides) {
+    // 把预置脚本切成小块逐步输出，模拟流式响应
+    const script = await this.generateScript(scenario, options, slides);
+    const text = JSON.stringify(script, null, 2);
+    for (let i = 0; i < text.length; i += 40) {
+      onText(text.substring(i, i + 40));
+      await sleep(30);
+    }
+    return script;
+  },
+
+  async fixScript(_scenario, previous) {
+    // 预置脚本本身是合法的，原样返回即可
+    return structuredClone(previous) as GeminiScriptResponse;
+  },
+
+  async extendScript(_scenario, script, _missingSeconds, count) {
+    await sleep(400);
+    const filler = isChinese(script.map((item) => item.spoken_text).join('')) ? CANNED_FILLER_ZH : CANNED_FILLER_EN;
+    const speakerIds = [...new Set(script.map((item) => item.speaker_id).filter(Boolean))] as string[];
+    return {
+      script: Array.from({ length: count }, (_, i) => ({
+        ...filler[i % filler.length],
+        ...(speakerIds.length > 0 ? { speaker_id: speakerIds[i % speakerIds.length] } : {}),
+        // 插入在结尾段落之前，沿用倒数第二段的幻灯片
+        ...(script.some((item) => item.slide_index) ? { slide_index: script[Math.max(0, script.length - 2)].slide_index } : {}),
+      })),
+    };
+  },
+
+  async annotateScript(segments) {
+    await sleep(400);
+    // 按顺序循环使用预置脚本中的手势
+    const canned = isChinese(segments.join('')) ? CANNED_SCRIPT_ZH : CANNED_SCRIPT_EN;
+    return {
+      annotations: segments.map((_, index) => {
+        const { gesture_type, gesture_description } = canned.script[index % canned.script.length];
+        return { index, gesture_type, ...(gesture_description ? { gesture_description } : {}) };
+      }),
+      character_description: canned.character_description,
+      character_personality: canned.character_personality,
+    };
+  },
+
+  async translateScript(_scenario, script, language) {
+    await sleep(400);
+    return {
+      translations: script.map((item, index) => ({ index, spoken_text: `[${LANGUAGE_PROFILES[language].label}] ${item.spoken_text}` })),
+    };
+  },
+
+  async generateQuestions(scenario, scriptLines, count) {
+    await sleep(500);
+    const canned = isChinese(scenario + scriptLines.join('')) ? CANNED_QA_ZH : CANNED_QA_EN;
+    return { questions: structuredClone(canned.questions.slice(0, count)) };
+  },
+
+  async suggestVoice(characterDescription, characterPersonality, voices) {
+    await sleep(300);
+    const names = voices.map((v) => v.name);
+    const description = characterDescription.toLowerCase();
+    const preferred = /child|kid|girl|woman|female|孩子|女/.test(description)
+      ? 'soprano'
+      : /old|elderly|man|male|robot|老|男|机器人/.test(description)
+        ? 'bass'
+        : 'alto';
+    const personality = characterPersonality.toLowerCase();
+    const style = /calm|gentle|平静|温和/.test(personality)
+      ? 'calmly'
+      : /energetic|enthusias|excit|活力|热情/.test(personality)
+        ? 'excitedly'
+        : '';
+    return {
+      voice: names.includes(preferred) ? preferred : names[0],
+      style,
+      reason: 'Mock suggestion based on keywords in the character description',
+    };
+  },
+
+  async shortenText(originalText, currentDuration) {
+    await sleep(200);
+    const ratio = Math.min(1, 7 / currentDuration);
+    if (LANGUAGE_PROFILES[detectLanguage(originalText)].unit === 'char') {
+      const chars = Array.from(originalText);
+      return chars.slice(0, Math.max(1, Math.floor(chars.length * ratio))).join('');
+    }
+    const words = originalText.trim().split(/\s+/);
+    return words.slice(0, Math.max(1, Math.floor(words.length * ratio))).join(' ');
+  },
+};
+
+export const mockImageProvider: ImageProvider = {
+  async generateCharacterImage(characterDescription) {
+    await sleep(400);
+    const canvas = document.createElement('canvas');
+    canvas.width = 768;
+    canvas.height = 1024;
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // 简单的全身剪影：头、躯干、手臂、腿；颜色由描述决定，便于区分多人对话中的角色
+    const hue = [...characterDescription].reduce((h, c) => (h * 31 + c.charCodeAt(0)) % 360, 0);
+    ctx.fillStyle = `hsl(${hue}, 60%, 50%)`;
+    ctx.strokeStyle = `hsl(${hue}, 60%, 50%)`;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.arc(384, 220, 70, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillRect(314, 300, 140, 300);
+    ctx.lineWidth = 40;
+    ctx.beginPath();
+    ctx.moveTo(314, 320); ctx.lineTo(260, 560);
+    ctx.moveTo(454, 320); ctx.lineTo(508, 560);
+    ctx.moveTo(350, 600); ctx.lineTo(340, 900);
+    ctx.moveTo(418, 600); ctx.lineTo(428, 900);
+    ctx.stroke();
+
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '24px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(characterDescription.substring(0, 50), 384, 980);
+
+    return canvas.toDataURL('image/png').replace(/^data:image\/\w+;base64,/, '');
+  },
+};
+
+const synthesizeVoice = (text: string, voice?: string, style?: string): AudioBuffer => {
+  const { pitch, amplitude } = styleModifiers(style);
+  const basePitch = (MOCK_VOICE_PITCH[voice || ''] ?? MOCK_VOICE_PITCH.alto) * pitch;
+  return synthesizeSpeechBuffer(text, basePitch, amplitude);
+};
+
+export const mockSpeechProvider: SpeechProvider = {
+  voices: Object.keys(MOCK_VOICE_PITCH),
+  voiceTraits: MOCK_VOICE_TRAITS,
+
+  async generateSpeech(text, voice, style) {
+    await sleep(150);
+    return audioBufferToWavBlobUrl(synthesizeVoice(text, voice, style));
+  },
+
+  async generateTimedSpeech(text, voice, style) {
+    await sleep(150);
+    const buffer = synthesizeVoice(text, voice, style);
+    // 合成语音的音节均匀分布在整段音频中，按长度比例分配即为其时间戳
+    return { audioUrl: audioBufferToWavBlobUrl(buffer), wordTimings: distributeWordTimings(text, [[0, buffer.duration]]) };
+  },
+};
+
+/**
+ * 录制一段合成视频：角色图片随手势轻微摆动，底部显示手势类型，音轨为合成语音
+ */
+const recordSyntheticVideo = async (request: VideoGenerationRequest): Promise<string> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 720;
+  canvas.height = 1280;
+  const ctx = canvas.getContext('2d')!;
+
+  const image = new Image();
+  image.src = base64ToDataUrl(request.referenceImageBase64.replace(/^data:image\/\w+;base64,/, ''));
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error('Failed to load reference image for mock video'));
+  });
+
+  const audioContext = new AudioContext({ sampleRate: MOCK_SAMPLE_RATE });
+  const destination = audioContext.createMediaStreamDestination();
+  const source = audioContext.createBufferSource();
+  source.buffer = synthesizeSpeechBuffer(request.spokenText);
+  source.connect(destination);
+
+  const stream = canvas.captureStream(30);
+  destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp8,opus') ? 'video/webm;codecs=vp8,opus' : 'video/webm';
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const scale = Math.min(canvas.width / image.width, canvas.height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  const label = request.gestureDescription || request.gestureType;
+
+  const start = performance.now();
+  recorder.start(100);
+  source.start();
+
+  await new Promise<void>((resolve) => {
+    const renderFrame = () => {
+      const t = (performance.now() - start) / 1000;
+      // 首尾回到原位，与 Veo 首尾帧一致的约束保持一致
+      const sway = Math.sin((Math.PI * t) / MOCK_VIDEO_SECONDS) * Math.sin(2 * Math.PI * 0.8 * t) * 0.04;
+
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.save();
+      ctx.translate(canvas.width / 2, canvas.height / 2 + drawHeight / 2);
+      ctx.rotate(sway);
+      ctx.drawImage(image, -drawWidth / 2, -drawHeight, drawWidth, drawHeight);
+      ctx.restore();
+
+      ctx.fillStyle = 'rgba(17, 24, 39, 0.7)';
+      ctx.fillRect(0, canvas.height - 80, canvas.width, 80);
+      ctx.fillStyle = '#ffffff';
+      ctx.font = '28px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(`[mock] ${label}`.substring(0, 48), canvas.width / 2, canvas.height - 30);
+
+      if (t >= MOCK_VIDEO_SECONDS) resolve();
+      else requestAnimationFrame(renderFrame);
+    };
+    renderFrame();
+  });
+
+  const blob = await new Promise<Blob>((resolve) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    recorder.stop();
+  });
+  await audioContext.close();
+
+  return URL.createObjectURL(blob);
+};
+
+export const mockVideoProvider: VideoProvider = {
+  async generateActionVideo(request) {
+    console.log(`[Mock] Recording synthetic ${request.gestureType} video (${MOCK_VIDEO_SECONDS}s)...`);
+    const videoUrl = await recordSyntheticVideo(request);
+    return { videoUrl, videoDuration: MOCK_VIDEO_SECONDS };
+  },
+};
+
+export const mockReviewProvider: ReviewProvider = {
+  async reviewVideo(): Promise<VideoReviewResult> {
+    await sleep(100);
+    return { passed: true, issues: [], summary: 'Mock review — always passes.' };
+  },
+};
@@ -0,0 +1,490 @@
+/**
+ * OpenAI 兼容接口的脚本后端
+ *
+ * 面向本地 llama.cpp / Ollama / LM Studio 等提供 /v1/chat/completions 的服务，
+ * 用于离线迭代脚本。复用 getScriptPrompt / getScriptExtendPrompt / getAnnotatePrompt / getTranslatePrompt / getVoiceSuggestionPrompt / getShortenPrompt，并用与 Gemini
+ * responseSchema 相同结构的 JSON Schema 约束输出；本地模型返回的宽松 JSON
+ * 先在本地修复，仍不符合结构时带着错误信息让模型重写一次。
+ *
+ * 配置：
+ * - VITE_LLM_BASE_URL：接口地址，默认 http://localhost:11434/v1（Ollama）
+ * - VITE_LLM_MODEL：模型名，默认 llama3.1
+ * - VITE_LLM_API_KEY：可选，需要鉴权的服务使用
+ */
+
+import type { GeminiScriptResponse, QaResponse, ScriptAnnotationResponse, ScriptExtensionResponse, ScriptTranslationResponse, VoiceSuggestionResponse } from '../../types';
+import { getAnnotatePrompt, getQaPrompt, getScriptExtendPrompt, getScriptFixPrompt, getScriptPrompt, getShortenPrompt, getTranslatePrompt, getVoiceSuggestionPrompt } from '../../prompts';
+import { parseLooseJson } from '../jsonRepair';
+import type { GestureTypeValue, ScriptProvider } from './types';
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+const GESTURE_TYPES: GestureTypeValue[] = ['none', 'beat', 'deictic', 'iconic', 'metaphoric'];
+
+/** 与 geminiCore.buildScriptRequest 中的 responseSchema 保持一致 */
+const SCRIPT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    script: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          spoken_text: { type: 'string' },
+          gesture_type: { type: 'string', enum: GESTURE_TYPES },
+          gesture_description: { type: 'string' },
+          speaker_id: { type: 'string' },
+          slide_index: { type: 'integer' },
+        },
+        required: ['spoken_text', 'gesture_type'],
+      },
+    },
+    character_description: { type: 'string' },
+    character_personality: { type: 'string' },
+    cast: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          personality: { type: 'string' },
+        },
+        required: ['id', 'name', 'description', 'personality'],
+      },
+    },
+  },
+  required: ['script', 'character_description', 'character_personality'],
+};
+
+/** 与 geminiCore.buildAnnotateRequest 中的 responseSchema 保持一致 */
+const ANNOTATE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    annotations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          gesture_type: { type: 'string', enum: GESTURE_TYPES },
+          gesture_description: { type: 'string' },
+        },
+        required: ['index', 'gesture_type'],
+      },
+    },
+    character_description: { type: 'string' },
+    character_personality: { type: 'string' },
+  },
+  required: ['annotations', 'character_description', 'character_personality'],
+};
+
+/** 与 geminiCore.buildScriptExtendRequest 中的 responseSchema 保持一致 */
+const EXTEND_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    script: SCRIPT_JSON_SCHEMA.properties.script,
+  },
+  required: ['script'],
+};
+
+/** 与 geminiCore.buildTranslateRequest 中的 responseSchema 保持一致 */
+const TRANSLATE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          spoken_text: { type: 'string' },
+        },
+        required: ['index', 'spoken_text'],
+      },
+    },
+  },
+  required: ['translations'],
+};
+
+/** 与 geminiCore.buildQaRequest 中的 responseSchema 保持一致 */
+const QA_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          answer: SCRIPT_JSON_SCHEMA.properties.script,
+        },
+        required: ['question', 'answer'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+/** 与 geminiCore.buildVoiceSuggestRequest 中的 responseSchema 保持一致（音色是否在候选中由调用方检查） */
+const VOICE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    voice: { type: 'string' },
+    style: { type: 'string' },
+    reason: { type: 'string' },
+  },
+  required: ['voice', 'style', 'reason'],
+};
+
+const SHORTEN_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    shortened_text: { type: 'string' },
+  },
+  required: ['shortened_text'],
+};
+
+const getConfig = () => {
+  const env = import.meta.env;
+  return {
+    baseUrl: String(env?.VITE_LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    model: String(env?.VITE_LLM_MODEL || 'llama3.1'),
+    apiKey: String(env?.VITE_LLM_API_KEY || ''),
+  };
+};
+
+const jsonInstruction = (schema: object) =>
+  `Respond with a single JSON object only — no markdown, no explanations. It must match this JSON Schema:\n${JSON.stringify(schema)}`;
+
+/**
+ * 调用 chat/completions 并返回 assistant 文本。
+ * 优先使用 json_schema 约束；服务端不支持时退回 json_object。
+ */
+const chatCompletion = async (messages: ChatMessage[], schemaName: string, schema: object): Promise<string> => {
+  const { baseUrl, model, apiKey } = getConfig();
+  const responseFormats = [
+    { type: 'json_schema', json_schema: { name: schemaName, schema } },
+    { type: 'json_object' },
+  ];
+
+  let lastError = '';
+  for (const responseFormat of responseFormats) {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, messages, temperature: 0.7, response_format: responseFormat }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new Error('[LLM] Empty response from chat completion');
+      }
+      return content;
+    }
+
+    lastError = `${response.status} ${response.statusText}: ${(await response.text()).substring(0, 300)}`;
+    // 400 / 422 多半是不支持该 response_format，换下一种重试
+    if (response.status !== 400 && response.status !== 422) break;
+    console.warn(`[LLM] response_format "${responseFormat.type}" rejected, falling back`);
+  }
+  throw new Error(`[LLM] Chat completion failed (${baseUrl}): ${lastError}`);
+};
+
+const pickString = (obj: Record<string, unknown>, keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+/**
+ * 把宽松的模型输出整理成 GeminiScriptResponse 结构：
+ * 兼容 camelCase 字段名、裸数组、大小写不一致的手势类型等
+ * @returns 整理后的结果，以及仍无法满足 schema 的问题列表
+ */
+const coerceScriptResponse = (value: unknown): { result: GeminiScriptResponse; errors: string[] } => {
+  const errors: string[] = [];
+  const root = (Array.isArray(value) ? { script: value } : value || {}) as Record<string, unknown>;
+  const rawScript = root.script ?? root.segments ?? root.scripts;
+
+  if (!Array.isArray(rawScript)) errors.push('"script" must be an array of segments');
+
+  const script = (Array.isArray(rawScript) ? rawScript : []).flatMap((item, index) => {
+    if (!item || typeof item !== 'object') {
+      errors.push(`script[${index}] must be an object`);
+      return [];
+    }
+    const segment = item as Record<string, unknown>;
+    const spokenText = pickString(segment, ['spoken_text', 'spokenText', 'text', 'line']);
+    if (!spokenText) {
+      errors.push(`script[${index}].spoken_text is missing`);
+      return [];
+    }
+
+    const rawGesture = pickString(segment, ['gesture_type', 'gestureType', 'gesture', 'type'])?.toLowerCase();
+    const gestureType = GESTURE_TYPES.find((t) => t === rawGesture) ?? 'beat';
+    if (rawGesture && gestureType !== rawGesture) {
+      console.warn(`[LLM] Unknown gesture_type "${rawGesture}" in script[${index}], using "beat"`);
+    }
+
+    const gestureDescription = pickString(segment, ['gesture_description', 'gestureDescription', 'description']);
+    const speakerId = pickString(segment, ['speaker_id', 'speakerId', 'speaker']);
+    const slideIndex = Number(segment.slide_index ?? segment.slideIndex ?? segment.slide);
+    return [{
+      spoken_text: spokenText,
+      gesture_type: gestureType,
+      ...(gestureDescription ? { gesture_description: gestureDescription } : {}),
+      ...(speakerId ? { speaker_id: speakerId } : {}),
+      ...(Number.isInteger(slideIndex) && slideIndex >= 1 ? { slide_index: slideIndex } : {}),
+    }];
+  });
+
+  // 多人对话的角色表：只整理字段名，缺项由校验层处理
+  const rawCast = root.cast ?? root.characters ?? root.speakers;
+  const cast = (Array.isArray(rawCast) ? rawCast : []).flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const member = item as Record<string, unknown>;
+    const id = pickString(member, ['id', 'speaker_id', 'speakerId']);
+    if (!id) return [];
+    return [{
+      id,
+      name: pickString(member, ['name', 'role']) || id,
+      description: pickString(member, ['description', 'character_description', 'appearance']) || '',
+      personality: pickString(member, ['personality', 'character_personality']) || '',
+    }];
+  });
+
+  if (Array.isArray(rawScript) && script.length === 0) errors.push('"script" must contain at least one segment');
+
+  const characterDescription = pickString(root, ['character_description', 'characterDescription']);
+  const characterPersonality = pickString(root, ['character_personality', 'characterPersonality']);
+  if (!characterDescription) errors.push('"character_description" is missing');
+  if (!characterPersonality) errors.push('"character_personality" is missing');
+
+  return {
+    result: {
+      script,
+      character_description: characterDescription || '',
+      character_personality: characterPersonality || '',
+      ...(cast.length > 0 ? { cast } : {}),
+    },
+    errors,
+  };
+};
+
+export const openaiCompatScriptProvider: ScriptProvider = {
+  async generateScript(scenario, options, slides) {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: jsonInstruction(SCRIPT_JSON_SCHEMA) },
+      { role: 'user', content: getScriptPrompt(scenario, options, slides) },
+    ];
+
+    const content = await chatCompletion(messages, 'rehearsal_script', SCRIPT_JSON_SCHEMA);
+    let parsed: unknown = null;
+    let parseError = '';
+    try {
+      parsed = parseLooseJson(content);
+    } catch (e: any) {
+      parseError = e.message;
+    }
+
+    const first = coerceScriptResponse(parsed);
+    if (!parseError && first.errors.length === 0) return first.result;
+
+    // 本地修复不了的部分交给模型按错误列表重写一次
+    const problems = parseError ? [parseError] : first.errors;
+    console.warn(`[LLM] Script response does not match schema, requesting repair:\n  ${problems.join('\n  ')}`);
+    const repaired = await chatCompletion(
+      [
+        ...messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous reply is not valid for the required schema:\n- ${problems.join('\n- ')}\n\nReturn the corrected JSON object only.`,
+        },
+      ],
+      'rehearsal_script',
+      SCRIPT_JSON_SCHEMA
+    );
+
+    const second = coerceScriptResponse(parseLooseJson(repaired));
+    if (second.errors.length > 0) {
+      throw new Error(`Invalid script from local model: ${second.errors.join('; ')}`);
+    }
+    return second.result;
+  },
+
+  async fixScript(scenario, previous, violations) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(SCRIPT_JSON_SCHEMA) },
+        { role: 'user', content: getScriptFixPrompt(scenario, previous, violations) },
+      ],
+      'rehearsal_script',
+      SCRIPT_JSON_SCHEMA
+    );
+    // 只做结构整理，剩余问题交给调用方的校验层判断
+    return coerceScriptResponse(parseLooseJson(content)).result;
+  },
+
+  async extendScript(scenario, script, missingSeconds, count, options) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(EXTEND_JSON_SCHEMA) },
+        { role: 'user', content: getScriptExtendPrompt(scenario, script, missingSeconds, count, options) },
+      ],
+      'script_extension',
+      EXTEND_JSON_SCHEMA
+    );
+
+    // 只取段落，角色描述等字段缺失不影响补写
+    const result: ScriptExtensionResponse = { script: coerceScriptResponse(parseLooseJson(content)).result.script };
+    return result;
+  },
+
+  async annotateScript(segments) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(ANNOTATE_JSON_SCHEMA) },
+        { role: 'user', content: getAnnotatePrompt(segments) },
+      ],
+      'script_annotations',
+      ANNOTATE_JSON_SCHEMA
+    );
+
+    const parsed = parseLooseJson(content);
+    const root = (Array.isArray(parsed) ? { annotations: parsed } : parsed || {}) as Record<string, unknown>;
+    const rawAnnotations = root.annotations ?? root.script ?? root.segments;
+
+    // 标注缺失或手势类型不合法时由调用方按 beat 处理，这里只整理字段名
+    const annotations = (Array.isArray(rawAnnotations) ? rawAnnotations : []).flatMap((item, position) => {
+      if (!item || typeof item !== 'object') return [];
+      const annotation = item as Record<string, unknown>;
+      const index = typeof annotation.index === 'number' ? annotation.index : position;
+      const gestureType = pickString(annotation, ['gesture_type', 'gestureType', 'gesture', 'type'])?.toLowerCase();
+      const gestureDescription = pickString(annotation, ['gesture_description', 'gestureDescription', 'description']);
+      return [{
+        index,
+        gesture_type: (GESTURE_TYPES.find((t) => t === gestureType) ?? 'beat'),
+        ...(gestureDescription ? { gesture_description: gestureDescription } : {}),
+      }];
+    });
+
+    const result: ScriptAnnotationResponse = {
+      annotations,
+      character_description: pickString(root, ['character_description', 'characterDescription']) || '',
+      character_personality: pickString(root, ['character_personality', 'characterPersonality']) || '',
+    };
+    return result;
+  },
+
+  async translateScript(scenario, script, language) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(TRANSLATE_JSON_SCHEMA) },
+        { role: 'user', content: getTranslatePrompt(scenario, script, language) },
+      ],
+      'script_translations',
+      TRANSLATE_JSON_SCHEMA
+    );
+
+    const parsed = parseLooseJson(content);
+    const root = (Array.isArray(parsed) ? { translations: parsed } : parsed || {}) as Record<string, unknown>;
+    const rawTranslations = root.translations ?? root.script ?? root.segments;
+
+    // 缺失的译文由调用方保留原文并提示，这里只整理字段名
+    const translations = (Array.isArray(rawTranslations) ? rawTranslations : []).flatMap((item, position) => {
+      if (!item || typeof item !== 'object') return [];
+      const translation = item as Record<string, unknown>;
+      const spokenText = pickString(translation, ['spoken_text', 'spokenText', 'translation', 'text']);
+      if (!spokenText) return [];
+      return [{ index: typeof translation.index === 'number' ? translation.index : position, spoken_text: spokenText }];
+    });
+
+    const result: ScriptTranslationResponse = { translations };
+    return result;
+  },
+
+  async generateQuestions(scenario, scriptLines, count) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(QA_JSON_SCHEMA) },
+        { role: 'user', content: getQaPrompt(scenario, scriptLines, count) },
+      ],
+      'audience_questions',
+      QA_JSON_SCHEMA
+    );
+
+    const parsed = parseLooseJson(content);
+    const root = (Array.isArray(parsed) ? { questions: parsed } : parsed || {}) as Record<string, unknown>;
+    const rawQuestions = Array.isArray(root.questions) ? root.questions : [];
+
+    // 回答段落复用脚本的整理逻辑；缺少问题或回答的条目直接丢弃
+    const questions = rawQuestions.flatMap((item) => {
+      if (!item || typeof item !== 'object') return [];
+      const entry = item as Record<string, unknown>;
+      const question = pickString(entry, ['question', 'q', 'text']);
+      const answer = coerceScriptResponse(entry.answer ?? entry.answers ?? []).result.script;
+      return question && answer.length > 0 ? [{ question, answer }] : [];
+    });
+
+    const result: QaResponse = { questions };
+    return result;
+  },
+
+  async suggestVoice(characterDescription, characterPersonality, voices) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(VOICE_JSON_SCHEMA) },
+        { role: 'user', content: getVoiceSuggestionPrompt(characterDescription, characterPersonality, voices) },
+      ],
+      'voice_suggestion',
+      VOICE_JSON_SCHEMA
+    );
+
+    const parsed = parseLooseJson(content);
+    const root = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+    const result: VoiceSuggestionResponse = {
+      voice: pickString(root, ['voice', 'voice_name', 'voiceName', 'name']) || '',
+      style: pickString(root, ['style', 'speaking_style', 'speakingStyle']) || '',
+      reason: pickString(root, ['reason', 'explanation']) || '',
+    };
+    return result;
+  },
+
+  async shortenText(originalText, currentDuration, scenario) {
+    const content = await chatCompletion(
+      [
+        { role: 'system', content: jsonInstruction(SHORTEN_JSON_SCHEMA) },
+        { role: 'user', content: getShortenPrompt(originalText, currentDuration, scenario) },
+      ],
+      'shortened_text',
+      SHORTEN_JSON_SCHEMA
+    );
+
+    try {
+      const parsed = parseLooseJson(content) as Record<string, unknown> | string;
+      const text = typeof parsed === 'string'
+        ? parsed.trim()
+        : pickString(parsed || {}, ['shortened_text', 'shortenedText', 'text']);
+      return text || originalText;
+    } catch {
+      // 模型忽略了 JSON 要求、直接返回了改写后的句子
+      const plain = content.trim().replace(/^["'“]|["'”]$/g, '');
+      if (plain && plain.length < originalText.length) return plain;
+      console.warn('[LLM] Failed to parse shortened text, keeping original text');
+      return originalText;
+    }
+  },
+};
@@ -0,0 +1,140 @@
+/**
+ * API proxy 后端
+ *
+ * 所有能力都通过 server/ 下的 Node 服务调用 Gemini，浏览器端不持有 API key。
+ * 生成的视频由 server 下载并缓存，前端拿到的是 /api/media/<id> 形式的同源地址，
+ * 可直接用于播放、审查和导出。
+ *
+ * 服务地址由 VITE_API_BASE_URL 配置，默认 /api（开发时由 vite dev server 代理）。
+ */
+
+import type { GeminiScriptResponse, QaResponse, ScriptAnnotationResponse, ScriptExtensionResponse, ScriptTranslationResponse, VideoReviewResult, VoiceSuggestionResponse } from '../../types';
+import { decodeAudioData, decodeBase64, audioBufferToWavBlobUrl } from '../audioUtils';
+import { fetchMediaAsBase64 } from '../mediaUtils';
+import { GEMINI_TTS_VOICES, GEMINI_TTS_VOICE_TRAITS, parseScriptResponse } from '../geminiCore';
+import type { ImageProvider, ReviewProvider, ScriptProvider, SpeechProvider, VideoProvider } from './types';
+
+const VIDEO_POLL_INTERVAL_MS = 5000;
+const VIDEO_TIMEOUT_MS = 6 * 60 * 1000;
+
+const getApiBase = (): string =>
+  String(import.meta.env?.VITE_API_BASE_URL || '/api').replace(/\/+$/, '');
+
+const request = async (path: string, body?: unknown): Promise<Response> => {
+  const response = await fetch(`${getApiBase()}${path}`, body === undefined
+    ? undefined
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  if (!response.ok) {
+    let message = `${response.status} ${response.statusText}`;
+    try {
+      const data = await response.json();
+      if (data?.error) message = data.error;
+    } catch {
+      // 非 JSON 错误响应，保留状态码
+    }
+    // 保留状态码，供任务调度判断是否重试
+    throw Object.assign(new Error(`[Proxy] ${path}: ${message}`), { status: response.status });
+  }
+  return response;
+};
+
+const requestJson = async <T>(path: string, body?: unknown): Promise<T> => (await request(path, body)).json();
+
+export const proxyScriptProvider: ScriptProvider = {
+  generateScript: (scenario, options, slides) => requestJson<GeminiScriptResponse>('/script', { scenario, options, slides }),
+
+  async streamScript(scenario, onText, options, slides) {
+    const response = await request('/script/stream', { scenario, options, slides });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let fullText = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const text = decoder.decode(value, { stream: true });
+      fullText += text;
+      if (text) onText(text);
+    }
+    return parseScriptResponse(fullText);
+  },
+
+  fixScript: (scenario, previous, violations) =>
+    requestJson<GeminiScriptResponse>('/script/fix', { scenario, previous, violations }),
+
+  extendScript: (scenario, script, missingSeconds, count, options) =>
+    requestJson<ScriptExtensionResponse>('/script/extend', { scenario, script, missingSeconds, count, options }),
+
+  annotateScript: (segments) => requestJson<ScriptAnnotationResponse>('/script/annotate', { segments }),
+
+  translateScript: (scenario, script, language) =>
+    requestJson<ScriptTranslationResponse>('/script/translate', { scenario, script, language }),
+
+  generateQuestions: (scenario, scriptLines, count) =>
+    requestJson<QaResponse>('/script/questions', { scenario, scriptLines, count }),
+
+  suggestVoice: (characterDescription, characterPersonality, voices) =>
+    requestJson<VoiceSuggestionResponse>('/voice/suggest', { characterDescription, characterPersonality, voices }),
+
+  async shortenText(originalText, currentDuration, scenario) {
+    const { text } = await requestJson<{ text: string }>('/script/shorten', { originalText, currentDuration, scenario });
+    return text;
+  },
+};
+
+export const proxyImageProvider: ImageProvider = {
+  async generateCharacterImage(characterDescription) {
+    const { imageBase64 } = await requestJson<{ imageBase64: string }>('/image', { characterDescription });
+    return imageBase64;
+  },
+};
+
+export const proxySpeechProvider: SpeechProvider = {
+  voices: GEMINI_TTS_VOICES,
+  voiceTraits: GEMINI_TTS_VOICE_TRAITS,
+
+  async generateSpeech(text, voice, style) {
+    const { audioBase64, sampleRate } = await requestJson<{ audioBase64: string; sampleRate: number }>('/speech', { text, voice, style });
+    const audioContext = new (window.AudioContext || window.webkitAudioContext)({ sampleRate });
+    try {
+      const audioBuffer = await decodeAudioData(decodeBase64(audioBase64), audioContext, sampleRate, 1);
+      return audioBufferToWavBlobUrl(audioBuffer);
+    } finally {
+      audioContext.close();
+    }
+  },
+};
+
+export const proxyVideoProvider: VideoProvider = {
+  async generateActionVideo(request) {
+    const { jobId } = await requestJson<{ jobId: string }>('/video', request);
+    console.log(`[Proxy] Video job ${jobId} started, polling for completion...`);
+
+    const deadline = Date.now() + VIDEO_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, VIDEO_POLL_INTERVAL_MS));
+      const job = await requestJson<{ status: 'pending' | 'done' | 'error'; mediaId?: string; error?: string }>(
+        `/video/jobs/${jobId}`
+      );
+      if (job.status === 'done' && job.mediaId) {
+        return { videoUrl: `${getApiBase()}/media/${job.mediaId}`, videoDuration: undefined };
+      }
+      if (job.status === 'error') {
+        throw new Error(job.error || 'Video generation failed');
+      }
+    }
+    throw new Error('Video generation timed out after 6 minutes');
+  },
+};
+
+export const proxyReviewProvider: ReviewProvider = {
+  async reviewVideo(videoUrl, context): Promise<VideoReviewResult> {
+    // server 缓存的视频只需传 id；其他来源（如导入的项目）上传视频内容
+    const mediaPrefix = `${getApiBase()}/media/`;
+    if (videoUrl.startsWith(mediaPrefix)) {
+      return requestJson<VideoReviewResult>('/review', { context, mediaId: videoUrl.substring(mediaPrefix.length) });
+    }
+    const { base64, mimeType } = await fetchMediaAsBase64(videoUrl);
+    return requestJson<VideoReviewResult>('/review', { context, videoBase64: base64, mimeType });
+  },
+};
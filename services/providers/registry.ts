@@ -0,0 +1,88 @@
+/**
+ * Provider 注册表
+ *
+ * 每种能力可以注册多个后端（按名称），当前使用哪一个由配置决定：
+ * - VITE_<CAPABILITY>_PROVIDER：单项能力的后端，如 VITE_SPEECH_PROVIDER=mock
+ * - VITE_AI_PROVIDER：所有能力的默认后端
+ * - 都未配置时使用 'gemini'
+ * 运行时也可通过 setProviderSelection 覆盖。
+ */
+
+import type { Capability, ProviderMap } from './types';
+
+export const DEFAULT_PROVIDER = 'gemini';
+
+type ProviderFactory<K extends Capability> = () => ProviderMap[K];
+
+const factories: { [K in Capability]: Map<string, ProviderFactory<K>> } = {
+  script: new Map(),
+  image: new Map(),
+  speech: new Map(),
+  video: new Map(),
+  review: new Map(),
+};
+
+// 已实例化的 provider（按 capability + name 缓存）
+const instances = new Map<string, unknown>();
+const overrides: Partial<Record<Capability, string>> = {};
+
+const ENV_KEYS: Record<Capability, string> = {
+  script: 'VITE_SCRIPT_PROVIDER',
+  image: 'VITE_IMAGE_PROVIDER',
+  speech: 'VITE_SPEECH_PROVIDER',
+  video: 'VITE_VIDEO_PROVIDER',
+  review: 'VITE_REVIEW_PROVIDER',
+};
+
+export function registerProvider<K extends Capability>(
+  capability: K,
+  name: string,
+  factory: ProviderFactory<K>
+): void {
+  factories[capability].set(name, factory);
+  instances.delete(`${capability}:${name}`);
+}
+
+export function listProviders(capability: Capability): string[] {
+  return Array.from(factories[capability].keys());
+}
+
+/**
+ * 当前为某项能力选中的后端名称
+ */
+export function getProviderSelection(capability: Capability): string {
+  const env = import.meta.env;
+  const configured =
+    overrides[capability] ||
+    String(env?.[ENV_KEYS[capability]] || '').trim() ||
+    String(env?.VITE_AI_PROVIDER || '').trim();
+  return configured || DEFAULT_PROVIDER;
+}
+
+/**
+ * 运行时切换某项能力的后端；传 null 恢复为环境变量配置
+ */
+export function setProviderSelection(capability: Capability, name: string | null): void {
+  if (name && !factories[capability].has(name)) {
+    throw new Error(`Unknown ${capability} provider "${name}"`);
+  }
+  if (name) overrides[capability] = name;
+  else delete overrides[capability];
+}
+
+export function getProvider<K extends Capability>(capability: K): ProviderMap[K] {
+  const name = getProviderSelection(capability);
+  const key = `${capability}:${name}`;
+  const cached = instances.get(key);
+  if (cached) return cached as ProviderMap[K];
+
+  const factory = factories[capability].get(name);
+  if (!factory) {
+    throw new Error(
+      `No ${capability} provider named "${name}" (available: ${listProviders(capability).join(', ') || 'none'})`
+    );
+  }
+  const instance = factory();
+  instances.set(key, instance);
+  return instance;
+}
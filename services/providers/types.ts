@@ -0,0 +1,118 @@
+/**
+ * AI 能力提供方（Provider）接口定义
+ *
+ * 每种能力（脚本、定妆照、TTS、视频、审查）都有独立的接口，
+ * 应用层通过 capabilities.ts 调用能力，由 registry 根据配置选择具体后端。
+ */
+
+import type { GeminiScriptResponse, LanguageCode, QaResponse, ScriptAnnotationResponse, ScriptTranslationResponse, VoiceSuggestionResponse, ScriptExtensionResponse, ScriptOptions, ScriptViolation, Slide, VideoReviewContext, VideoReviewResult, WordTiming } from '../../types';
+
+/**
+ * 手势类型值 - 与 types.ts 保持一致
+ */
+export type GestureTypeValue = 'none' | 'beat' | 'deictic' | 'iconic' | 'metaphoric';
+
+export type Capability = 'script' | 'image' | 'speech' | 'video' | 'review';
+
+/**
+ * 视频生成请求参数
+ */
+export interface VideoGenerationRequest {
+  gestureType: GestureTypeValue;
+  spokenText: string;
+  gestureDescription?: string;
+  referenceImageBase64: string;
+  scenario?: string;
+  characterPersonality?: string;
+  reviewFeedback?: string;
+}
+
+/**
+ * 视频生成结果，包含URL和实际时长
+ */
+export interface VideoGenerationResult {
+  videoUrl: string;
+  videoDuration?: number; // 视频实际时长（秒）
+}
+
+export interface ScriptProvider {
+  /** 根据场景生成排练脚本与角色描述；options 为输入面板上的生成选项，slides 为导入的幻灯片大纲 */
+  generateScript(scenario: string, options?: ScriptOptions, slides?: Slide[]): Promise<GeminiScriptResponse>;
+  /** 可选：流式生成脚本，每收到一段原始文本就回调 onText；未实现时退回 generateScript */
+  streamScript?(
+    scenario: string,
+    onText: (chunk: string) => void,
+    options?: ScriptOptions,
+    slides?: Slide[]
+  ): Promise<GeminiScriptResponse>;
+  /** 根据校验发现的问题定向修正脚本，返回修正后的完整脚本 */
+  fixScript(scenario: string, previous: unknown, violations: ScriptViolation[]): Promise<GeminiScriptResponse>;
+  /** 总时长短于目标时补写 count 个段落（插入在结尾段落之前），只返回新段落 */
+  extendScript(
+    scenario: string,
+    script: GeminiScriptResponse['script'],
+    missingSeconds: number,
+    count: number,
+    options: ScriptOptions
+  ): Promise<ScriptExtensionResponse>;
+  /** 为用户提供的、已切分好的台词标注手势与角色（不改动台词） */
+  annotateScript(segments: string[]): Promise<ScriptAnnotationResponse>;
+  /** 把脚本逐段翻译成目标语言（段落数量与手势不变），只返回译文 */
+  translateScript(scenario: string, script: GeminiScriptResponse['script'], language: LanguageCode): Promise<ScriptTranslationResponse>;
+  /** 根据场景和台词预测观众问题，并生成分段的参考回答 */
+  generateQuestions(scenario: string, scriptLines: string[], count: number): Promise<QaResponse>;
+  /** 根据角色外观与性格从候选音色中推荐一个，并给出朗读风格 */
+  suggestVoice(
+    characterDescription: string,
+    characterPersonality: string,
+    voices: Array<{ name: string; traits?: string }>
+  ): Promise<VoiceSuggestionResponse>;
+  /** TTS 超时后缩短台词，保持语言和核心含义 */
+  shortenText(originalText: string, currentDuration: number, scenario: string): Promise<string>;
+}
+
+export interface ImageProvider {
+  /** 生成角色定妆照，返回不带 data URL 前缀的 PNG base64 */
+  generateCharacterImage(characterDescription: string): Promise<string>;
+}
+
+export interface SpeechProvider {
+  /** 可选：可用的音色名称（第一个为默认音色），多人对话时按顺序分配给各角色 */
+  readonly voices?: string[];
+  /** 可选：各音色的特点（如 "Warm, female"），显示在音色选择中并提供给音色推荐 */
+  readonly voiceTraits?: Record<string, string>;
+  /**
+   * 合成语音，返回可直接播放的 WAV blob URL；voice 为空时使用默认音色。
+   * style 为朗读风格指令（如 "calmly"），不支持的后端忽略
+   */
+  generateSpeech(text: string, voice?: string, style?: string): Promise<string>;
+  /**
+   * 可选：合成语音并返回逐词时间戳（见 WordTiming）。
+   * 未实现时由应用层在本地按音量包络对齐台词
+   */
+  generateTimedSpeech?(text: string, voice?: string, style?: string): Promise<TimedSpeech>;
+}
+
+/**
+ * 带逐词时间戳的 TTS 结果
+ */
+export interface TimedSpeech {
+  audioUrl: string;
+  wordTimings: WordTiming[];
+}
+
+export interface VideoProvider {
+  generateActionVideo(request: VideoGenerationRequest): Promise<VideoGenerationResult>;
+}
+
+export interface ReviewProvider {
+  reviewVideo(videoUrl: string, context: VideoReviewContext): Promise<VideoReviewResult>;
+}
+
+export interface ProviderMap {
+  script: ScriptProvider;
+  image: ImageProvider;
+  speech: SpeechProvider;
+  video: VideoProvider;
+  review: ReviewProvider;
+}
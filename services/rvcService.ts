@@ -2,8 +2,11 @@
  * RVC (Retrieval-based Voice Conversion) 服务
  * 调用本地或远程 RVC FastAPI 接口，将音频统一为指定音色。
  * 兼容 SocAIty/Retrieval-based-Voice-Conversion-FastAPI 的 POST /voice2voice 接口。
+ * 发送前可按 inputFormat 转换采样率、声道与编码（见 audioEncoding.ts）。
  */
 
+import { getAudioFileExtension, getAudioOutputFormatFromEnv, transcodeAudioBlob, type AudioOutputFormat } from './audioEncoding';
+
 export interface RvcOptions {
   /** RVC API 根地址，例如 http://localhost:8001 */
   apiUrl: string;
@@ -13,13 +16,15 @@ export interface RvcOptions {
   f0method?: string;
   /** 可选：index 检索比例 0–1 */
   indexRate?: number;
+  /** 可选：发送给 RVC 的音频格式，缺省时原样发送 */
+  inputFormat?: AudioOutputFormat;
 }
 
 /**
  * 将一段音频通过 RVC 转换为目标音色
- * @param audioBlob WAV 格式的音频 Blob
+ * @param audioBlob WAV 格式的音频 Blob（指定 inputFormat 时也可以是浏览器能解码的其他格式）
  * @param options RVC API 地址与模型配置
- * @returns 转换后的 WAV Blob
+ * @returns 转换后的音频 Blob（RVC 服务返回的格式）
  */
 export async function convertAudioWithRvc(
   audioBlob: Blob,
@@ -28,8 +33,11 @@ export async function convertAudioWithRvc(
   const baseUrl = options.apiUrl.replace(/\/$/, '');
   const url = `${baseUrl}/voice2voice`;
 
+  const inputFormat = options.inputFormat ?? { codec: 'wav' };
+  const inputBlob = await transcodeAudioBlob(audioBlob, inputFormat);
+
   const form = new FormData();
-  form.append('input_file', audioBlob, 'input.wav');
+  form.append('input_file', inputBlob, `input.${getAudioFileExtension(inputFormat)}`);
   form.append('model_name', options.modelName);
   if (options.f0method != null) form.append('f0method', options.f0method);
   if (options.indexRate != null) form.append('index_rate', String(options.indexRate));
@@ -71,5 +79,6 @@ export function getRvcOptionsFromEnv(): RvcOptions | null {
       import.meta.env?.VITE_RVC_INDEX_RATE != null
         ? Number(import.meta.env.VITE_RVC_INDEX_RATE)
         : 0.66,
+    inputFormat: getAudioOutputFormatFromEnv('rvc'),
   };
 }
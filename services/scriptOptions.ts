@@ -0,0 +1,152 @@
+/**
+ * 脚本生成选项与总时长校验
+ *
+ * 输入面板上的目标时长、听众、正式程度、语言和手势密度写入脚本 prompt；
+ * 生成并完成 TTS 时长验证后，再用各段 audioDuration 之和与目标时长对比，
+ * 超出容差时决定删减哪些段落或需要补写多少秒。
+ */
+
+import { GestureType, type AudienceType, type Formality, type GestureDensity, type ScriptLanguage, type ScriptOptions, type ScriptSegment, type SegmentLengthLimits } from '../types';
+import { LANGUAGE_CODES, LANGUAGE_PROFILES } from './language';
+
+export const DEFAULT_SCRIPT_OPTIONS: ScriptOptions = {
+  targetDurationSeconds: null,
+  audience: 'general',
+  formality: 'neutral',
+  language: 'auto',
+  gestureDensity: 'balanced',
+  durationTolerance: 0.2,
+};
+
+// 每段台词 4-7 秒，按 6 秒估算段落数
+export const SECONDS_PER_SEGMENT = 6;
+
+export const MIN_TARGET_SECONDS = 10;
+export const MAX_TARGET_SECONDS = 600;
+
+export const AUDIENCE_OPTIONS: Array<[AudienceType, string]> = [
+  ['general', 'General audience'],
+  ['executives', 'Executives'],
+  ['investors', 'Investors'],
+  ['technical', 'Technical peers'],
+  ['students', 'Students'],
+  ['customers', 'Customers'],
+];
+
+export const FORMALITY_OPTIONS: Array<[Formality, string]> = [
+  ['casual', 'Casual'],
+  ['neutral', 'Neutral'],
+  ['formal', 'Formal'],
+];
+
+export const LANGUAGE_OPTIONS: Array<[ScriptLanguage, string]> = [
+  ['auto', 'Same as scenario'],
+  ...LANGUAGE_CODES.map((code): [ScriptLanguage, string] => [code, LANGUAGE_PROFILES[code].label]),
+];
+
+export const GESTURE_DENSITY_OPTIONS: Array<[GestureDensity, string]> = [
+  ['minimal', 'Minimal'],
+  ['balanced', 'Balanced'],
+  ['expressive', 'Expressive'],
+];
+
+/** 目标时长对应的段落数 */
+export const estimateSegmentCount = (targetDurationSeconds: number): number =>
+  Math.max(1, Math.round(targetDurationSeconds / SECONDS_PER_SEGMENT));
+
+const pick = <T extends string>(value: unknown, options: Array<[T, string]>, fallback: T): T =>
+  options.some(([option]) => option === value) ? (value as T) : fallback;
+
+/**
+ * 校准后的台词长度：只保留支持的语言中 0 < min <= recommended <= max 的整数限制
+ */
+const normalizeSegmentLimits = (value: unknown): ScriptOptions['segmentLimits'] => {
+  if (!value || typeof value !== 'object') return undefined;
+  const entries = LANGUAGE_CODES.flatMap((code): Array<[string, SegmentLengthLimits]> => {
+    const limits = (value as Record<string, unknown>)[code] as Record<string, unknown> | undefined;
+    const [min, max, recommended] = [limits?.min, limits?.max, limits?.recommended].map(Number);
+    const valid = [min, max, recommended].every(Number.isInteger) && min > 0 && min <= recommended && recommended <= max;
+    return valid ? [[code, { min, max, recommended }]] : [];
+  });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+/**
+ * 将任意输入（旧项目、bundle、API 请求体）整理为合法的选项，非法字段取默认值
+ */
+export function normalizeScriptOptions(value: unknown): ScriptOptions {
+  const input = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const target = Number(input.targetDurationSeconds);
+  const tolerance = Number(input.durationTolerance);
+  const segmentLimits = normalizeSegmentLimits(input.segmentLimits);
+
+  return {
+    targetDurationSeconds:
+      input.targetDurationSeconds != null && Number.isFinite(target) && target > 0
+        ? Math.min(MAX_TARGET_SECONDS, Math.max(MIN_TARGET_SECONDS, Math.round(target)))
+        : null,
+    audience: pick(input.audience, AUDIENCE_OPTIONS, DEFAULT_SCRIPT_OPTIONS.audience),
+    formality: pick(input.formality, FORMALITY_OPTIONS, DEFAULT_SCRIPT_OPTIONS.formality),
+    language: pick(input.language, LANGUAGE_OPTIONS, DEFAULT_SCRIPT_OPTIONS.language),
+    gestureDensity: pick(input.gestureDensity, GESTURE_DENSITY_OPTIONS, DEFAULT_SCRIPT_OPTIONS.gestureDensity),
+    durationTolerance:
+      Number.isFinite(tolerance) && tolerance > 0 ? Math.min(0.5, tolerance) : DEFAULT_SCRIPT_OPTIONS.durationTolerance,
+    ...(segmentLimits ? { segmentLimits } : {}),
+  };
+}
+
+export type DurationAdjustment =
+  | { action: 'none'; totalSeconds: number }
+  | { action: 'trim'; totalSeconds: number; removeIds: string[]; trimmedSeconds: number }
+  | { action: 'extend'; totalSeconds: number; missingSeconds: number; segmentCount: number };
+
+/**
+ * 按各段 audioDuration 之和检查总时长，超出容差时给出调整方案：
+ * - 过长：删减段落，优先删无手势的过渡段，其余从倒数第二段往前删；开场和结尾段落保留，
+ *   删减后的总时长不低于容差下限
+ * - 过短：返回需要补写的秒数和段落数
+ * 没有目标时长或段落缺少音频时长时不做调整
+ */
+export function planDurationAdjustment(segments: ScriptSegment[], options: ScriptOptions): DurationAdjustment {
+  const totalSeconds = segments.reduce((sum, seg) => sum + (seg.audioDuration ?? 0), 0);
+  const target = options.targetDurationSeconds;
+  if (!target || segments.length === 0 || segments.some((seg) => !seg.audioDuration)) {
+    return { action: 'none', totalSeconds };
+  }
+
+  const lower = target * (1 - options.durationTolerance);
+  const upper = target * (1 + options.durationTolerance);
+
+  if (totalSeconds < lower) {
+    const missingSeconds = target - totalSeconds;
+    return {
+      action: 'extend',
+      totalSeconds,
+      missingSeconds,
+      segmentCount: Math.max(1, Math.round(missingSeconds / SECONDS_PER_SEGMENT)),
+    };
+  }
+
+  if (totalSeconds > upper && segments.length > 2) {
+    const middle = segments.slice(1, -1);
+    const candidates = [
+      ...middle.filter((seg) => seg.gestureType === GestureType.NONE),
+      ...middle.filter((seg) => seg.gestureType !== GestureType.NONE).reverse(),
+    ];
+
+    const removeIds: string[] = [];
+    let remaining = totalSeconds;
+    for (const seg of candidates) {
+      if (remaining <= upper) break;
+      if (remaining - seg.audioDuration! < lower) continue;
+      removeIds.push(seg.id);
+      remaining -= seg.audioDuration!;
+    }
+
+    if (removeIds.length > 0) {
+      return { action: 'trim', totalSeconds, removeIds, trimmedSeconds: totalSeconds - remaining };
+    }
+  }
+
+  return { action: 'none', totalSeconds };
+}
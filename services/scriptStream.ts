@@ -0,0 +1,76 @@
+/**
+ * 流式脚本解析
+ *
+ * 模型以流的形式逐段输出脚本 JSON。这里增量扫描已收到的文本，
+ * 每当 "script" 数组中的一个段落对象完整闭合，就立即把它解析出来，
+ * 不必等整个 JSON 结束。
+ */
+
+export interface ScriptStreamParser {
+  /** 追加一段文本，返回这段文本中新完成的段落（未经校验的原始对象） */
+  push(chunk: string): unknown[];
+}
+
+export function createScriptStreamParser(): ScriptStreamParser {
+  let buffer = '';
+  let pos = 0;
+
+  // 扫描状态
+  let inString = false;
+  let escaped = false;
+  let depth = 0;              // 当前括号深度
+  let stringStart = -1;       // 当前字符串的起始位置（用于识别键名）
+  let lastKey = '';           // 最近一个完整的字符串（可能是键名）
+  let scriptDepth = -1;       // "script" 数组所在深度（数组内部为 scriptDepth + 1）
+  let itemStart = -1;         // 当前段落对象的起始位置
+
+  return {
+    push(chunk) {
+      buffer += chunk;
+      const items: unknown[] = [];
+
+      for (; pos < buffer.length; pos++) {
+        const ch = buffer[pos];
+
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (ch === '\\') escaped = true;
+          else if (ch === '"') {
+            inString = false;
+            lastKey = buffer.substring(stringStart + 1, pos);
+          }
+          continue;
+        }
+
+        if (ch === '"') {
+          inString = true;
+          stringStart = pos;
+        } else if (ch === '[') {
+          // 顶层对象中 "script": [ 开始
+          if (scriptDepth < 0 && depth === 1 && lastKey === 'script') scriptDepth = depth;
+          depth++;
+        } else if (ch === '{') {
+          if (scriptDepth >= 0 && depth === scriptDepth + 1) itemStart = pos;
+          depth++;
+        } else if (ch === '}' || ch === ']') {
+          depth--;
+          if (ch === '}' && itemStart >= 0 && depth === scriptDepth + 1) {
+            try {
+              items.push(JSON.parse(buffer.substring(itemStart, pos + 1)));
+            } catch {
+              // 单个段落无法解析时跳过，最终以完整响应的校验结果为准
+            }
+            itemStart = -1;
+          } else if (ch === ']' && depth === scriptDepth) {
+            scriptDepth = -2; // script 数组已结束，不再识别
+          }
+        } else if (ch === ',') {
+          // 逗号之后开始新的键值对，避免把上一个字符串值误当键名
+          lastKey = '';
+        }
+      }
+
+      return items;
+    },
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * 脚本响应的运行时校验与修复
+ *
+ * 模型返回的脚本并不总是符合 GeminiScriptResponse 的约定：deictic/iconic/metaphoric 段缺少
+ * gesture_description、beat 段却带着描述、spoken_text 为空或超长等。这里先校验并报告问题，
+ * 能在本地修复的直接修复（删除多余描述、按 TEXT_LIMITS 拆分超长台词、缺描述的手势降级为 beat、
+ * 多人对话中未知的说话人归给第一个角色），其余问题交给模型做一次定向修正。
+ */
+
+import type { GeminiScriptResponse, ScriptValidationReport, ScriptViolation } from '../types';
+import { splitTextByLimits, validateTextLength } from './textLimits';
+
+type ScriptItem = GeminiScriptResponse['script'][number];
+type GestureTypeValue = ScriptItem['gesture_type'];
+type ScriptCast = NonNullable<GeminiScriptResponse['cast']>;
+
+const GESTURE_TYPES: GestureTypeValue[] = ['none', 'beat', 'deictic', 'iconic', 'metaphoric'];
+const DESCRIBED_GESTURES: GestureTypeValue[] = ['deictic', 'iconic', 'metaphoric'];
+
+/** 本地修复和模型修正都失败后无法继续的问题 */
+const FATAL_CODES: ScriptViolation['code'][] = ['invalid_root', 'missing_script', 'empty_script', 'missing_character_description'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * 整理多人对话的角色表：丢弃缺少 id / 外观描述的角色和重复 id；
+ * 少于两个角色时视为单人排练，返回空数组
+ */
+const normalizeCast = (value: unknown): ScriptCast => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const cast = value.flatMap((member) => {
+    if (!isRecord(member)) return [];
+    const id = nonEmptyString(member.id);
+    const description = nonEmptyString(member.description);
+    if (!id || !description || seen.has(id)) return [];
+    seen.add(id);
+    return [{
+      id,
+      name: nonEmptyString(member.name) || id,
+      description,
+      personality: nonEmptyString(member.personality) || '',
+    }];
+  });
+  return cast.length >= 2 ? cast : [];
+};
+
+/**
+ * 按 GeminiScriptResponse 的约定检查脚本，返回全部问题
+ */
+export function validateScriptResponse(value: unknown): ScriptViolation[] {
+  const violations: ScriptViolation[] = [];
+
+  if (!isRecord(value)) {
+    return [{ code: 'invalid_root', message: 'The response must be a JSON object' }];
+  }
+
+  if (!Array.isArray(value.script)) {
+    violations.push({ code: 'missing_script', message: "'script' must be an array of segments" });
+  } else if (value.script.length === 0) {
+    violations.push({ code: 'empty_script', message: "'script' must contain at least one segment" });
+  } else {
+    const speakerIds = new Set(normalizeCast(value.cast).map((member) => member.id));
+    value.script.forEach((item, index) => {
+      const label = `Segment ${index + 1}`;
+      if (!isRecord(item)) {
+        violations.push({ code: 'invalid_segment', segmentIndex: index, message: `${label} is not an object` });
+        return;
+      }
+
+      if (speakerIds.size > 0 && !speakerIds.has(nonEmptyString(item.speaker_id) || '')) {
+        violations.push({
+          code: 'unknown_speaker',
+          segmentIndex: index,
+          message: `${label}: 'speaker_id' must match a cast member (got ${JSON.stringify(item.speaker_id)})`,
+        });
+      }
+
+      const text = nonEmptyString(item.spoken_text);
+      if (!text) {
+        violations.push({ code: 'empty_text', segmentIndex: index, message: `${label}: 'spoken_text' is empty` });
+      } else if (validateTextLength(text).status === 'too-long') {
+        violations.push({
+          code: 'text_too_long',
+          segmentIndex: index,
+          message: `${label}: 'spoken_text' is too long (${validateTextLength(text).message})`,
+        });
+      }
+
+      const gestureType = item.gesture_type as GestureTypeValue;
+      const description = nonEmptyString(item.gesture_description);
+      if (!GESTURE_TYPES.includes(gestureType)) {
+        violations.push({
+          code: 'invalid_gesture_type',
+          segmentIndex: index,
+          message: `${label}: 'gesture_type' must be one of ${GESTURE_TYPES.join(', ')} (got ${JSON.stringify(item.gesture_type)})`,
+        });
+      } else if (DESCRIBED_GESTURES.includes(gestureType) && !description) {
+        violations.push({
+          code: 'missing_description',
+          segmentIndex: index,
+          message: `${label}: '${gestureType}' gesture requires a 'gesture_description'`,
+        });
+      } else if (!DESCRIBED_GESTURES.includes(gestureType) && description) {
+        violations.push({
+          code: 'stray_description',
+          segmentIndex: index,
+          message: `${label}: '${gestureType}' gesture must not have a 'gesture_description'`,
+        });
+      }
+    });
+  }
+
+  if (!nonEmptyString(value.character_description)) {
+    violations.push({ code: 'missing_character_description', message: "'character_description' is missing or empty" });
+  }
+  if (!nonEmptyString(value.character_personality)) {
+    violations.push({ code: 'missing_character_personality', message: "'character_personality' is missing or empty" });
+  }
+
+  return violations;
+}
+
+/**
+ * 本地修复单个段落：删除多余描述、缺描述的手势降级、超长台词拆分
+ * 流式生成时每收到一个段落就调用，保证先行显示的段落与最终结果一致
+ * @returns 修复后的段落（拆分后可能有多个，格式错误或空台词且 dropEmpty 时为空）
+ */
+export function repairScriptItem(
+  item: unknown,
+  index: number,
+  dropEmpty: boolean = false
+): { items: ScriptItem[]; repairs: string[] } {
+  const label = `Segment ${index + 1}`;
+  const repairs: string[] = [];
+  if (!isRecord(item)) {
+    return { items: [], repairs: [`${label}: removed malformed segment`] };
+  }
+
+  const text = nonEmptyString(item.spoken_text) || '';
+  if (!text && dropEmpty) {
+    return { items: [], repairs: [`${label}: removed segment with empty text`] };
+  }
+
+  let gestureType = item.gesture_type as GestureTypeValue;
+  let description = nonEmptyString(item.gesture_description);
+  if (!GESTURE_TYPES.includes(gestureType)) {
+    repairs.push(`${label}: unknown gesture type ${JSON.stringify(item.gesture_type)} changed to beat`);
+    gestureType = 'beat';
+  }
+  if (DESCRIBED_GESTURES.includes(gestureType) && !description) {
+    repairs.push(`${label}: ${gestureType} gesture without description downgraded to beat`);
+    gestureType = 'beat';
+  }
+  if (!DESCRIBED_GESTURES.includes(gestureType) && description) {
+    repairs.push(`${label}: removed gesture description from ${gestureType} segment`);
+    description = undefined;
+  }
+
+  // 超长台词拆成多段：第一段保留原手势，其余段落用 beat，说话人和幻灯片不变
+  const parts = text ? splitTextByLimits(text) : [text];
+  if (parts.length > 1) {
+    repairs.push(`${label}: split over-long text into ${parts.length} segments`);
+  }
+  const speakerId = nonEmptyString(item.speaker_id);
+  const slideIndex = Number(item.slide_index);
+  const items = parts.map((part, partIndex): ScriptItem => ({
+    spoken_text: part,
+    gesture_type: partIndex === 0 ? gestureType : 'beat',
+    ...(partIndex === 0 && description ? { gesture_description: description } : {}),
+    ...(speakerId ? { speaker_id: speakerId } : {}),
+    ...(Number.isInteger(slideIndex) && slideIndex >= 1 ? { slide_index: slideIndex } : {}),
+  }));
+  return { items, repairs };
+}
+
+interface RepairResult {
+  result: GeminiScriptResponse;
+  repairs: string[];
+  /** 本地无法修复、需要模型修正的问题 */
+  remaining: ScriptViolation[];
+}
+
+/**
+ * 在本地修复能修复的问题
+ * @param dropEmpty 为 true 时直接删除台词为空的段落（模型修正失败后的兜底）
+ */
+export function repairScriptResponse(value: unknown, dropEmpty: boolean = false): RepairResult {
+  const repairs: string[] = [];
+  const remaining = validateScriptResponse(value).filter((v) =>
+    FATAL_CODES.includes(v.code) || v.code === 'missing_character_personality' || (v.code === 'empty_text' && !dropEmpty)
+  );
+
+  const root = isRecord(value) ? value : {};
+  const rawScript = Array.isArray(root.script) ? root.script : [];
+  const cast = normalizeCast(root.cast);
+  const speakerIds = new Set(cast.map((member) => member.id));
+  const script: ScriptItem[] = [];
+
+  rawScript.forEach((item, index) => {
+    const repairedItem = repairScriptItem(item, index, dropEmpty);
+    script.push(...repairedItem.items.map((repaired) => {
+      if (cast.length === 0) {
+        // 单人排练：忽略多余的说话人标记
+        const { speaker_id, ...rest } = repaired;
+        return rest;
+      }
+      if (!speakerIds.has(repaired.speaker_id || '')) {
+        return { ...repaired, speaker_id: cast[0].id };
+      }
+      return repaired;
+    }));
+    repairs.push(...repairedItem.repairs);
+    if (cast.length > 0 && isRecord(item) && !speakerIds.has(nonEmptyString(item.speaker_id) || '')) {
+      repairs.push(`Segment ${index + 1}: unknown speaker assigned to ${cast[0].name}`);
+    }
+  });
+
+  if (Array.isArray(root.script) && rawScript.length > 0 && script.length === 0 && !remaining.some((v) => v.code === 'empty_script')) {
+    remaining.push({ code: 'empty_script', message: "'script' must contain at least one segment" });
+  }
+
+  return {
+    result: {
+      script,
+      character_description: nonEmptyString(root.character_description) || '',
+      character_personality: nonEmptyString(root.character_personality) || '',
+      ...(cast.length > 0 ? { cast } : {}),
+    },
+    repairs,
+    remaining,
+  };
+}
+
+/**
+ * 校验并修复脚本：先本地修复，剩余问题请求模型定向修正一次，仍失败则做兜底处理
+ * @param raw 模型返回的原始脚本
+ * @param requestFix 请求模型修正指定问题，返回修正后的完整脚本
+ * @throws 缺少脚本 / 角色描述等无法兜底的问题仍存在时
+ */
+export async function ensureValidScript(
+  raw: unknown,
+  requestFix: (previous: unknown, violations: ScriptViolation[]) => Promise<unknown>
+): Promise<{ response: GeminiScriptResponse; report: ScriptValidationReport }> {
+  const violations = validateScriptResponse(raw);
+  if (violations.length > 0) {
+    console.warn(`[ScriptValidation] ${violations.length} problem(s) in script response:\n  ${violations.map((v) => v.message).join('\n  ')}`);
+  }
+
+  let source = raw;
+  let repaired = repairScriptResponse(source);
+  let modelFixed = false;
+  let modelRepairs: string[] = [];
+
+  if (repaired.remaining.length > 0) {
+    const requested = repaired.remaining;
+    try {
+      console.log(`[ScriptValidation] Asking the model to fix ${requested.length} problem(s)...`);
+      const fixed = await requestFix(raw, requested);
+      const next = repairScriptResponse(fixed);
+      const stillOpen = new Set(next.remaining.map((v) => v.message));
+      modelRepairs = requested.filter((v) => !stillOpen.has(v.message)).map((v) => `Model fixed: ${v.message}`);
+      source = fixed;
+      repaired = next;
+      modelFixed = true;
+    } catch (e) {
+      console.warn('[ScriptValidation] Model fix request failed, falling back to local repair:', e);
+    }
+  }
+
+  if (repaired.remaining.length > 0) {
+    const fatal = repaired.remaining.filter((v) => FATAL_CODES.includes(v.code));
+    if (fatal.length > 0) {
+      throw new Error(`Invalid script response: ${fatal.map((v) => v.message).join('; ')}`);
+    }
+    // 兜底：删除空台词段落；缺少 personality 时保持为空字符串
+    repaired = repairScriptResponse(source, true);
+    if (repaired.result.script.length === 0) {
+      throw new Error('Invalid script response: no segment has spoken text');
+    }
+  }
+
+  const repairs = [...repaired.repairs, ...modelRepairs];
+  if (repairs.length > 0) {
+    console.log(`[ScriptValidation] Repaired script:\n  ${repairs.join('\n  ')}`);
+  }
+
+  return { response: repaired.result, report: { violations, repairs, modelFixed } };
+}
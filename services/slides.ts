@@ -0,0 +1,159 @@
+/**
+ * 幻灯片大纲导入与段落对齐
+ *
+ * 用户导入 Markdown 或纯文本大纲后，脚本 prompt 附上各页内容，模型为每个段落标注 slide_index；
+ * 播放和导出时在角色左侧显示当前段落对应的幻灯片，deictic 手势指向"左边的幻灯片"。
+ */
+
+import type { GeminiScriptResponse, ScriptSegment, Slide } from '../types';
+
+export const MAX_SLIDES = 30;
+const MAX_TITLE_LENGTH = 80;
+const MAX_BULLETS = 8;
+const MAX_BULLET_LENGTH = 160;
+
+const SEPARATOR = /^\s*(-{3,}|\*{3,}|_{3,})\s*$/;
+const HEADING = /^\s*#{1,2}\s+\S/;
+const SLIDE_HEADER = /^\s*(slide\s*\d+|幻灯片\s*\d+|第\s*[\d一二三四五六七八九十]+\s*[页张])/i;
+// Marp / reveal.js 等工具开头的 YAML front matter
+const FRONT_MATTER_LINE = /^\s*[\w-]+\s*:/;
+
+const clip = (text: string, max: number): string => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+/** 去掉 Markdown 标记和 "Slide 3:" / "第3页：" 之类的页码前缀 */
+const cleanLine = (line: string): string =>
+  line
+    .replace(/^\s*#+\s*/, '')
+    .replace(/^\s*([-*+•]|\d+[.)])\s+/, '')
+    .replace(/\*\*|__|`/g, '')
+    .trim();
+
+const stripSlidePrefix = (line: string): string =>
+  line.replace(SLIDE_HEADER, '').replace(/^\s*[:：.\-–—]\s*/, '').trim();
+
+/**
+ * 按优先级切分页面：--- 分隔线 > 一二级标题 > "Slide N" / "第N页" > 空行
+ */
+const splitBlocks = (lines: string[]): string[][] => {
+  const splitBefore = (isStart: (line: string) => boolean): string[][] => {
+    const blocks: string[][] = [[]];
+    for (const line of lines) {
+      if (isStart(line) && blocks[blocks.length - 1].length > 0) blocks.push([]);
+      blocks[blocks.length - 1].push(line);
+    }
+    return blocks;
+  };
+
+  if (lines.some((line) => SEPARATOR.test(line))) {
+    const blocks: string[][] = [[]];
+    for (const line of lines) {
+      if (SEPARATOR.test(line)) blocks.push([]);
+      else blocks[blocks.length - 1].push(line);
+    }
+    return blocks;
+  }
+  if (lines.some((line) => HEADING.test(line))) return splitBefore((line) => HEADING.test(line));
+  if (lines.some((line) => SLIDE_HEADER.test(line))) return splitBefore((line) => SLIDE_HEADER.test(line));
+
+  const blocks: string[][] = [[]];
+  for (const line of lines) {
+    if (!line.trim()) blocks.push([]);
+    else blocks[blocks.length - 1].push(line);
+  }
+  return blocks;
+};
+
+/**
+ * 解析幻灯片大纲：每页第一行为标题，其余行为要点
+ * @returns 幻灯片列表（index 从 1 开始，最多 MAX_SLIDES 页）；没有可用内容时为空数组
+ */
+export function parseSlideOutline(text: string): Slide[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks = splitBlocks(lines)
+    .map((block) => block.filter((line) => line.trim()))
+    .filter((block) => block.length > 0);
+
+  if (SEPARATOR.test(lines.find((line) => line.trim()) ?? '') && blocks.length > 1 && blocks[0].every((line) => FRONT_MATTER_LINE.test(line))) {
+    blocks.shift();
+  }
+
+  const slides: Slide[] = [];
+  for (const block of blocks) {
+    const cleaned = block.map(cleanLine).filter(Boolean);
+    if (cleaned.length === 0) continue;
+    // "Slide 3" 单独成行时，下一行才是标题
+    const first = stripSlidePrefix(cleaned[0]);
+    const [title, ...bullets] = first ? [first, ...cleaned.slice(1)] : cleaned.slice(1);
+    if (!title) continue;
+    slides.push({
+      index: slides.length + 1,
+      title: clip(title, MAX_TITLE_LENGTH),
+      bullets: bullets.slice(0, MAX_BULLETS).map((bullet) => clip(bullet, MAX_BULLET_LENGTH)),
+    });
+    if (slides.length === MAX_SLIDES) break;
+  }
+  return slides;
+}
+
+/**
+ * 将任意输入（旧项目、bundle、API 请求体）整理为合法的幻灯片列表，并按顺序重新编号
+ */
+export function normalizeSlides(value: unknown): Slide[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .flatMap((item) => {
+      if (!item || typeof item !== 'object') return [];
+      const { title, bullets } = item as Record<string, unknown>;
+      if (typeof title !== 'string' || !title.trim()) return [];
+      return [{
+        title: clip(title.trim(), MAX_TITLE_LENGTH),
+        bullets: (Array.isArray(bullets) ? bullets : [])
+          .filter((bullet): bullet is string => typeof bullet === 'string' && bullet.trim() !== '')
+          .slice(0, MAX_BULLETS)
+          .map((bullet) => clip(bullet.trim(), MAX_BULLET_LENGTH)),
+      }];
+    })
+    .slice(0, MAX_SLIDES)
+    .map((slide, i) => ({ index: i + 1, ...slide }));
+}
+
+type ScriptItem = GeminiScriptResponse['script'][number];
+
+/**
+ * 校正脚本段落的 slide_index：缺失或超出范围时沿用上一段的幻灯片（第一段为第 1 页）；
+ * 没有导入幻灯片时去掉全部 slide_index
+ */
+export function alignScriptToSlides(script: ScriptItem[], slideCount: number): { script: ScriptItem[]; repairs: string[] } {
+  if (slideCount === 0) {
+    return { script: script.map(({ slide_index, ...rest }) => rest), repairs: [] };
+  }
+
+  const repairs: string[] = [];
+  let previous = 1;
+  const aligned = script.map((item, index) => {
+    const slideIndex = item.slide_index;
+    if (slideIndex && slideIndex <= slideCount) {
+      previous = slideIndex;
+      return item;
+    }
+    repairs.push(
+      slideIndex
+        ? `Segment ${index + 1}: slide ${slideIndex} does not exist, using slide ${previous}`
+        : `Segment ${index + 1}: missing slide index, using slide ${previous}`
+    );
+    return { ...item, slide_index: previous };
+  });
+  return { script: aligned, repairs };
+}
+
+/**
+ * 第 index 段播放时屏幕上的幻灯片：该段或之前最近一段标注的幻灯片，都没有时为第一页
+ */
+export function findSlideAt(slides: Slide[], segments: ScriptSegment[], index: number): Slide | undefined {
+  if (slides.length === 0) return undefined;
+  for (let i = Math.min(index, segments.length - 1); i >= 0; i--) {
+    const slide = slides.find((s) => s.index === segments[i].slideIndex);
+    if (slide) return slide;
+  }
+  return slides[0];
+}
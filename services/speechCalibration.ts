@@ -0,0 +1,134 @@
+/**
+ * TTS 语速自校准
+ *
+ * LANGUAGE_PROFILES 的语速只是估计值，实际时长随音色、标点停顿变化。每次生成段落音频后记录
+ * （长度单位数、语言、音色、实测时长），按 TTS 后端 + 音色拟合语速，再按比例换算台词长度限制，
+ * 供编辑器提示、脚本校验（textLimits.ts）和脚本 prompt（ScriptOptions.segmentLimits）使用。
+ *
+ * 样本少时向先验收缩：音色的语速向该语言全部音色的语速收缩，后者再向 LANGUAGE_PROFILES 的语速收缩。
+ * 样本保存在 localStorage，跨项目共享。
+ */
+
+import type { LanguageCode, ScriptOptions, SegmentLengthLimits } from '../types';
+import { countTextUnits, detectLanguage, LANGUAGE_CODES, LANGUAGE_PROFILES } from './language';
+import { getProviderSelection } from './providers';
+import { getRecordMode } from './geminiRecorder';
+
+interface SpeechSample {
+  language: LanguageCode;
+  /** TTS 后端与音色，如 "gemini:Kore"；未选择音色时为 "gemini:" */
+  voice: string;
+  units: number;
+  seconds: number;
+}
+
+const STORAGE_KEY = 'rehearsal:speechCalibration';
+const MAX_SAMPLES_PER_VOICE = 40; // 每个音色 + 语言只保留最近的样本，跟随后端更新
+const MIN_SAMPLE_UNITS = 3; // 太短的台词受首尾静音影响大，不记录
+const PRIOR_SECONDS = 20; // 先验相当于 20 秒的样本
+const MAX_RATE_DEVIATION = 2; // 语速偏离先验超过 2 倍的样本视为异常（生成失败、静音等）
+
+let samples: SpeechSample[] | null = null;
+
+const loadSamples = (): SpeechSample[] => {
+  if (samples) return samples;
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    samples = Array.isArray(parsed)
+      ? parsed.filter((s): s is SpeechSample =>
+          !!s && LANGUAGE_CODES.includes(s.language) && typeof s.voice === 'string' && s.units > 0 && s.seconds > 0)
+      : [];
+  } catch {
+    // localStorage 不可用（隐私模式、服务端）或内容损坏时从空白开始
+    samples = [];
+  }
+  return samples;
+};
+
+const saveSamples = (): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(samples ?? []));
+  } catch {
+    // localStorage 不可用时只在本次会话内生效
+  }
+};
+
+const voiceKey = (voice?: string): string => `${getProviderSelection('speech')}:${voice || ''}`;
+
+/**
+ * 记录一段 TTS 的实测时长（时间压缩前的原始时长）
+ * @param voice 合成时使用的音色，未选择时为 undefined
+ */
+export function recordSpeechSample(text: string, seconds: number, voice?: string): void {
+  const language = detectLanguage(text);
+  const units = countTextUnits(text, language);
+  if (units < MIN_SAMPLE_UNITS || !Number.isFinite(seconds) || seconds <= 0) return;
+
+  const prior = LANGUAGE_PROFILES[language].unitsPerSecond;
+  const rate = units / seconds;
+  if (rate > prior * MAX_RATE_DEVIATION || rate < prior / MAX_RATE_DEVIATION) {
+    console.warn(`[SpeechCalibration] Ignoring outlier: ${units} units in ${seconds.toFixed(2)}s`);
+    return;
+  }
+
+  const key = voiceKey(voice);
+  const all = loadSamples();
+  all.push({ language, voice: key, units, seconds: Math.round(seconds * 1000) / 1000 });
+  const same = all.filter((s) => s.language === language && s.voice === key);
+  if (same.length > MAX_SAMPLES_PER_VOICE) {
+    all.splice(all.indexOf(same[0]), 1);
+  }
+  saveSamples();
+}
+
+/** 样本的总单位数与总时长按先验收缩后的语速 */
+const shrinkRate = (matching: SpeechSample[], prior: number): number => {
+  const units = matching.reduce((sum, s) => sum + s.units, 0);
+  const seconds = matching.reduce((sum, s) => sum + s.seconds, 0);
+  return (units + prior * PRIOR_SECONDS) / (seconds + PRIOR_SECONDS);
+};
+
+/** 当前 TTS 后端下某语言的全部样本 */
+const backendSamples = (language: LanguageCode): SpeechSample[] => {
+  const backend = voiceKey('');
+  return loadSamples().filter((s) => s.language === language && s.voice.startsWith(backend));
+};
+
+/**
+ * 当前 TTS 后端下某音色朗读某语言的语速（单位 / 秒）；没有样本时为 LANGUAGE_PROFILES 的语速
+ * @param voice 缺省时为后端默认音色
+ */
+export function getSpeechRate(language: LanguageCode, voice?: string): number {
+  const forLanguage = backendSamples(language);
+  const pooled = shrinkRate(forLanguage, LANGUAGE_PROFILES[language].unitsPerSecond);
+  const key = voiceKey(voice);
+  return shrinkRate(forLanguage.filter((s) => s.voice === key), pooled);
+}
+
+/**
+ * 按校准后的语速等比例换算 LANGUAGE_PROFILES 的长度限制（没有样本时即为 TEXT_LIMITS）
+ */
+export function getCalibratedLimits(language: LanguageCode, voice?: string): SegmentLengthLimits {
+  const { limits, unitsPerSecond } = LANGUAGE_PROFILES[language];
+  const scale = getSpeechRate(language, voice) / unitsPerSecond;
+  if (Math.abs(scale - 1) < 0.01) return limits;
+  const max = Math.max(2, Math.round(limits.max * scale));
+  const min = Math.min(max - 1, Math.max(1, Math.round(limits.min * scale)));
+  const recommended = Math.min(max, Math.max(min, Math.round(limits.recommended * scale)));
+  return { min, max, recommended };
+}
+
+/**
+ * 在生成选项中附上已有样本的语言的校准长度（写入脚本 prompt 的长度规则）。
+ * 录制 / 回放模式下不附加：样本随每次生成变化，会改变 prompt 从而找不到录制的响应
+ * @param voice 朗读脚本的音色，缺省时为后端默认音色
+ */
+export function withCalibratedLimits(options: ScriptOptions, voice?: string): ScriptOptions {
+  if (getRecordMode() !== 'off') return options;
+  const calibrated = LANGUAGE_CODES.filter((code) => backendSamples(code).length > 0);
+  if (calibrated.length === 0) return options;
+  return {
+    ...options,
+    segmentLimits: Object.fromEntries(calibrated.map((code) => [code, getCalibratedLimits(code, voice)])),
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * SRT / WebVTT 字幕
+ *
+ * 时间轴与播放器和导出视频一致：段落依次排列，每段占音频与手势视频中较长者；
+ * 开启静音裁剪时（见 audioProcessing.ts），TTS 音频按裁剪后的区间计算。
+ * 有逐词时间戳的段落按长度拆成多条字幕，WebVTT 额外写入逐词时间标记（卡拉 OK）。
+ */
+
+import { GestureType, SegmentStatus, type CastMember, type ScriptSegment, type SegmentTimelineEntry, type WordTiming } from '../types';
+import { findSpeaker } from './cast';
+import { detectLanguage, LANGUAGE_PROFILES } from './language';
+import { getAudibleWordTimings } from './wordTiming';
+import { getAudioProcessingOptionsFromEnv, measureTrimBounds } from './audioProcessing';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  /** 多人对话的说话人名称 */
+  speaker?: string;
+  /** 逐词时间（总时间轴上的秒数） */
+  words?: WordTiming[];
+}
+
+/** 段落 TTS 音频裁剪静音后保留的区间（秒） */
+export interface AudioSpan {
+  start: number;
+  end: number;
+}
+
+// 单条字幕的最大长度（字符数，含空格）：中日文较短
+const MAX_CUE_CHARS = { char: 18, word: 42 };
+
+/** 段落是否有已生成的手势视频（时间轴按音频与视频中较长者计算） */
+export const hasSegmentVideo = (segment: ScriptSegment): boolean =>
+  segment.gestureType !== GestureType.NONE && segment.videoStatus === SegmentStatus.COMPLETED && !!segment.videoUrl;
+
+/**
+ * 段落在时间轴上占用的时长（与 exportComposedVideo 相同：音频与视频中较长者）
+ * @param span 裁剪静音后的 TTS 音频区间
+ */
+export const getSegmentTimelineDuration = (segment: ScriptSegment, span?: AudioSpan): number => {
+  const audioDuration = span ? span.end - span.start : segment.audioDuration ?? 0;
+  return Math.max(audioDuration, hasSegmentVideo(segment) ? segment.videoDuration ?? 0 : 0);
+};
+
+/**
+ * 已有音频的段落在总时间轴上的位置，与 buildSubtitleCues 的时间轴一致
+ * @param spans 各段（按段落 id）裁剪静音后的 TTS 音频区间，未裁剪的段落不传
+ */
+export function buildSegmentTimeline(segments: ScriptSegment[], spans: Map<string, AudioSpan> = new Map()): SegmentTimelineEntry[] {
+  const timeline: SegmentTimelineEntry[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    if (segment.audioStatus !== SegmentStatus.COMPLETED || !segment.audioUrl) continue;
+    const duration = getSegmentTimelineDuration(segment, spans.get(segment.id));
+    timeline.push({ id: segment.id, start: offset, end: offset + duration });
+    offset += duration;
+  }
+  return timeline;
+}
+
+/**
+ * 按长度把逐词时间分组，优先在标点后断开
+ */
+const groupWords = (words: WordTiming[], maxChars: number): WordTiming[][] => {
+  const groups: WordTiming[][] = [];
+  let current: WordTiming[] = [];
+  let length = 0;
+  for (const word of words) {
+    const wordLength = word.text.length;
+    if (current.length > 0 && length + wordLength > maxChars) {
+      // 后半段有标点时在标点处断开，剩余的词移到下一条
+      let cut = current.length;
+      for (let i = current.length - 1; i > 0; i--) {
+        if (/[,.!?;:，。！？；：、]\s*$/u.test(current[i - 1].text)) {
+          cut = i;
+          break;
+        }
+      }
+      if (cut < current.length / 2) cut = current.length;
+      groups.push(current.slice(0, cut));
+      current = current.slice(cut);
+      length = current.reduce((sum, w) => sum + w.text.length, 0);
+    }
+    current.push(word);
+    length += wordLength;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+};
+
+/**
+ * 生成已有音频的段落的字幕条目
+ * @param spans 各段（按段落 id）裁剪静音后的 TTS 音频区间，未裁剪的段落不传
+ */
+export function buildSubtitleCues(segments: ScriptSegment[], cast: CastMember[] = [], spans: Map<string, AudioSpan> = new Map()): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let offset = 0;
+
+  for (const segment of segments) {
+    if (segment.audioStatus !== SegmentStatus.COMPLETED || !segment.audioUrl) continue;
+    const span = spans.get(segment.id);
+    const duration = getSegmentTimelineDuration(segment, span);
+    const speaker = findSpeaker(cast, segment.speakerId)?.name;
+    const trimStart = span?.start ?? 0;
+    const words = getAudibleWordTimings(segment)?.map((w) => ({ ...w, start: Math.max(0, w.start - trimStart), end: Math.max(0, w.end - trimStart) }));
+
+    if (words?.length) {
+      const profile = LANGUAGE_PROFILES[detectLanguage(segment.spokenText)];
+      const groups = groupWords(words, MAX_CUE_CHARS[profile.joiner === '' ? 'char' : 'word']);
+      groups.forEach((group, i) => {
+        const next = groups[i + 1];
+        cues.push({
+          start: offset + (i === 0 ? 0 : group[0].start),
+          // 每条显示到下一条开始；最后一条显示到段落结束
+          end: offset + (next ? next[0].start : duration),
+          text: group.map((w) => w.text).join('').trim(),
+          speaker,
+          words: group.map((w) => ({ ...w, start: offset + w.start, end: offset + w.end })),
+        });
+      });
+    } else {
+      cues.push({ start: offset, end: offset + duration, text: segment.spokenText.trim(), speaker });
+    }
+    offset += duration;
+  }
+  return cues;
+}
+
+const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, size: number = 2) => String(value).padStart(size, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+/** SubRip：说话人名称写在台词前 */
+export const formatSrt = (cues: SubtitleCue[]): string =>
+  cues
+    .map((cue, i) =>
+      `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}\n`
+    )
+    .join('\n');
+
+/** WebVTT：说话人用 <v> 标签，逐词时间用内联时间标记 */
+export const formatWebVtt = (cues: SubtitleCue[]): string => {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues.map((cue) => {
+    const text = cue.words
+      ? cue.words.map((w, i) => (i === 0 ? '' : `<${formatTimestamp(w.start, '.')}>`) + escape(w.text)).join('').trim()
+      : escape(cue.text);
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.speaker ? `<v ${escape(cue.speaker)}>` : ''}${text}\n`;
+  });
+  return ['WEBVTT\n', ...body].join('\n');
+};
+
+/**
+ * 按当前的音频处理配置计算 TTS 音频（无手势视频或翻译沿用视频的段落）裁剪后的区间，
+ * 与 exportComposedVideo 的裁剪一致；计算失败的段落按原音频计算
+ */
+async function measureAudioSpans(segments: ScriptSegment[]): Promise<Map<string, AudioSpan>> {
+  const spans = new Map<string, AudioSpan>();
+  const processing = getAudioProcessingOptionsFromEnv();
+  if (!processing?.trimSilence) return spans;
+
+  for (const segment of segments) {
+    if (segment.audioStatus !== SegmentStatus.COMPLETED || !segment.audioUrl) continue;
+    if (hasSegmentVideo(segment) && !segment.dubbed) continue;
+    try {
+      spans.set(segment.id, await measureTrimBounds(segment.audioUrl, processing));
+    } catch (e) {
+      console.warn(`[Subtitles] Failed to measure silence for ${segment.id}:`, e);
+    }
+  }
+  return spans;
+}
+
+/**
+ * 生成字幕文件并触发浏览器下载
+ * @returns 各段在时间轴上的位置
+ */
+export async function downloadSubtitles(segments: ScriptSegment[], format: SubtitleFormat, cast: CastMember[] = []): Promise<SegmentTimelineEntry[]> {
+  const spans = await measureAudioSpans(segments);
+  const cues = buildSubtitleCues(segments, cast, spans);
+  if (cues.length === 0) throw new Error('No segments with completed audio available for subtitles');
+  const content = format === 'srt' ? formatSrt(cues) : formatWebVtt(cues);
+
+  const blob = new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rehearsal-subtitles-${Date.now()}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+  return buildSegmentTimeline(segments, spans);
+}
@@ -0,0 +1,160 @@
+/**
+ * 台词长度规则
+ *
+ * 每段视频固定 8 秒，台词需要在 4-7 秒内说完。编辑器的长度提示、
+ * 脚本校验和超长台词拆分共用这里的限制；语言检测与计数单位见 language.ts。
+ * TEXT_LIMITS 是按估计语速得到的默认值；长度校验与编辑器提示使用按实测语速校准后的限制（见 speechCalibration.ts），
+ * 拆分台词始终使用 TEXT_LIMITS，保证同一份演讲稿每次切分结果相同。
+ */
+
+import type { LanguageCode } from '../types';
+import { LANGUAGE_CODES, LANGUAGE_PROFILES, countTextUnits, detectLanguage, type LanguageProfile } from './language';
+import { getCalibratedLimits } from './speechCalibration';
+
+// 文本长度限制配置
+// 基于 TTS 时长估算：4-7 秒的音频对应的文本长度（各语言的语速见 LANGUAGE_PROFILES）
+export const TEXT_LIMITS = Object.fromEntries(
+  LANGUAGE_CODES.map((code) => [code, LANGUAGE_PROFILES[code].limits])
+) as Record<LanguageCode, LanguageProfile['limits']>;
+
+/**
+ * 获取文本的"单位"数量（中文、日文按字符，韩文按音节，其余按单词）
+ */
+export const getTextUnitCount = (text: string): { count: number; language: LanguageCode } => {
+  const language = detectLanguage(text);
+  return { count: countTextUnits(text, language), language };
+};
+
+/**
+ * 验证文本长度是否在合理范围内
+ * @param voice 朗读这段台词的音色（按该音色的实测语速校准），缺省时为默认音色
+ */
+export const validateTextLength = (text: string, voice?: string): { 
+  valid: boolean; 
+  status: 'too-short' | 'ok' | 'warning' | 'too-long';
+  message: string;
+  count: number;
+  language: LanguageCode;
+} => {
+  const { count, language } = getTextUnitCount(text);
+  const limits = getCalibratedLimits(language, voice);
+  const unit = LANGUAGE_PROFILES[language].unitLabel;
+  
+  if (count < limits.min) {
+    return {
+      valid: false,
+      status: 'too-short',
+      message: `文本过短（${count} ${unit}），建议至少 ${limits.min} ${unit}（约 4 秒）`,
+      count,
+      language
+    };
+  } else if (count > limits.max) {
+    return {
+      valid: false,
+      status: 'too-long',
+      message: `文本过长（${count} ${unit}），最多 ${limits.max} ${unit}（约 7 秒）`,
+      count,
+      language
+    };
+  } else if (count > limits.recommended) {
+    return {
+      valid: true,
+      status: 'warning',
+      message: `文本较长（${count} ${unit}），建议不超过 ${limits.recommended} ${unit}（约 5-6 秒）`,
+      count,
+      language
+    };
+  } else {
+    return {
+      valid: true,
+      status: 'ok',
+      message: `${count} ${unit}`,
+      count,
+      language
+    };
+  }
+};
+
+// 句末标点（优先在这里拆分）与句中停顿标点
+const SENTENCE_BREAK = /(?<=[。！？!?.…])\s*/;
+const CLAUSE_BREAK = /(?<=[，、；：,;:—])\s*/;
+
+const joinPieces = (pieces: string[], language: LanguageCode): string =>
+  pieces.join(LANGUAGE_PROFILES[language].joiner);
+
+/**
+ * 把没有标点可断的超长片段按单位数硬切成若干等长部分
+ */
+const hardSplit = (text: string, language: LanguageCode, maxUnits: number): string[] => {
+  const byChar = LANGUAGE_PROFILES[language].unit === 'char';
+  const units = byChar ? Array.from(text.trim()) : text.trim().split(/\s+/).filter(Boolean);
+  const parts = Math.ceil(units.length / maxUnits);
+  const size = Math.ceil(units.length / parts);
+  const result: string[] = [];
+  for (let i = 0; i < units.length; i += size) {
+    const part = units.slice(i, i + size);
+    result.push(byChar ? part.join('').trim() : part.join(' '));
+  }
+  return result;
+};
+
+/**
+ * 将超长台词拆成多段，每段不超过 TEXT_LIMITS.max。
+ * 优先在句末断开，其次在逗号等停顿处，实在没有标点时按字 / 词硬切；
+ * 拆分后的各段长度尽量均匀（目标为 recommended 左右）。
+ */
+export const splitTextByLimits = (text: string): string[] => {
+  const trimmed = text.trim();
+  const { count, language } = getTextUnitCount(trimmed);
+  const limits = TEXT_LIMITS[language];
+  if (count <= limits.max) return [trimmed];
+
+  // 片段沿用整段的语言计数，避免短片段被误判为其他语言
+  const unitsOf = (piece: string) => countTextUnits(piece, language);
+
+  // 1. 拆成不超过 max 的最小片段
+  const pieces = trimmed
+    .split(SENTENCE_BREAK)
+    .filter(Boolean)
+    .flatMap((sentence) =>
+      unitsOf(sentence) <= limits.max ? [sentence] : sentence.split(CLAUSE_BREAK).filter(Boolean)
+    )
+    .flatMap((clause) => (unitsOf(clause) <= limits.max ? [clause] : hardSplit(clause, language, limits.max)));
+
+  // 2. 贪心合并相邻片段，使每段接近目标长度且不超过 max
+  const target = count / Math.ceil(count / limits.recommended);
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentUnits = 0;
+  for (const piece of pieces) {
+    const units = unitsOf(piece);
+    if (current.length > 0 && (currentUnits + units > limits.max || currentUnits >= target)) {
+      chunks.push(joinPieces(current, language));
+      current = [];
+      currentUnits = 0;
+    }
+    current.push(piece.trim());
+    currentUnits += units;
+  }
+  if (current.length > 0) {
+    // 过短的尾段能并入前一段时就合并，避免拆出一句很短的台词
+    const previous = chunks[chunks.length - 1];
+    if (previous && currentUnits < limits.min && unitsOf(previous) + currentUnits <= limits.max) {
+      chunks[chunks.length - 1] = joinPieces([previous, ...current], language);
+    } else {
+      chunks.push(joinPieces(current, language));
+    }
+  }
+  return chunks;
+};
+
+/**
+ * 把用户提供的完整演讲稿确定性地切分成段落（不改动任何文字）：
+ * 先按换行分段，再对每段按 TEXT_LIMITS 拆分，保证每段不超过上限
+ */
+export const segmentSpeech = (speech: string): string[] =>
+  speech
+    .split(/\n+/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap(splitTextByLimits);
@@ -1,10 +1,14 @@
-import { ScriptSegment, SegmentStatus, GestureType } from '../types';
-import { base64ToDataUrl } from './geminiService';
-import { extractAudioBlobFromVideo } from './audioUtils';
+import { ScriptSegment, SegmentStatus, GestureType, CastMember, Slide, SegmentTimelineEntry } from '../types';
+import { base64ToDataUrl } from './mediaUtils';
+import { findSpeaker } from './cast';
+import { findSlideAt } from './slides';
+import { audioBufferToWavBlobUrl, extractAudioBlobFromVideo } from './audioUtils';
 import { convertAudioWithRvc, getRvcOptionsFromEnv, type RvcOptions } from './rvcService';
+import { findActiveWordIndex, getAudibleWordTimings, splitTimingUnits } from './wordTiming';
+import { getAudioProcessingOptionsFromEnv, processAudioUrl, type AudioProcessingOptions } from './audioProcessing';
 
 interface ExportProgress {
-  stage: 'preparing' | 'loading' | 'rvc' | 'rendering' | 'encoding' | 'complete';
+  stage: 'preparing' | 'loading' | 'rvc' | 'normalizing' | 'rendering' | 'encoding' | 'complete';
   progress: number; // 0-100
   currentSegment?: number;
   totalSegments?: number;
@@ -18,8 +22,19 @@ type ProgressCallback = (progress: ExportProgress) => void;
 export interface ExportOptions {
   /** 启用 RVC 时传入；不传则使用环境变量 VITE_RVC_*；为 null 则禁用 */
   rvcOptions?: RvcOptions | null;
+  /** 多人对话的角色表：无视频段落显示该段说话人的定妆照 */
+  cast?: CastMember[];
+  /** 导入的幻灯片：不为空时导出 16:9 画面，左侧为当前段落的幻灯片，右侧为 9:16 角色画面 */
+  slides?: Slide[];
+  /** 在画面底部烧录字幕；有逐词时间戳的段落逐词高亮 */
+  subtitles?: boolean;
+  /** 响度统一与静音裁剪；不传则使用环境变量 VITE_AUDIO_*；为 null 则禁用 */
+  audioProcessing?: AudioProcessingOptions | null;
 }
 
+// 带幻灯片导出时的画面布局 (1080p, 16:9)
+const SLIDE_LAYOUT = { width: 1920, height: 1080, characterWidth: 608 };
+
 /**
  * 段落媒体数据结构
  */
@@ -27,6 +42,10 @@ interface SegmentMedia {
   segment: ScriptSegment;
   ttsAudio: HTMLAudioElement;
   ttsDuration: number;
+  /** 无视频时显示的静态图片（多人对话时为说话人的定妆照） */
+  stillImage: HTMLImageElement;
+  /** 该段落讲解时显示的幻灯片（未导入幻灯片时为空） */
+  slide?: Slide;
   // 视频相关（仅对有视频的段落）
   video?: HTMLVideoElement;
   videoDuration?: number;
@@ -36,6 +55,12 @@ interface SegmentMedia {
   unifiedDuration?: number;
   /** RVC 生成的 blob URL，导出结束后需 revoke */
   unifiedAudioUrl?: string;
+  /** 响度统一（及静音裁剪）后的音频，优先于 unifiedAudio 使用 */
+  processedAudio?: HTMLAudioElement;
+  processedDuration?: number;
+  processedAudioUrl?: string;
+  /** 处理时开头裁掉的秒数 */
+  trimStart?: number;
 }
 
 /**
@@ -45,16 +70,21 @@ interface SegmentMedia {
  *
  * 合成逻辑：
  * 1. TTS音频作为"绝对时间轴主尺"
- * 2. 无手势段落：使用静态角色图片
+ * 2. 无手势段落：使用静态角色图片（多人对话时切换为该段说话人的定妆照）
  * 3. 有视频段落：播放视频并用视频音频替换TTS音频
  * 4. 若启用 RVC：各段音频（TTS 或视频音轨）先经 RVC 转为统一音色再参与合成
+ * 5. 导入了幻灯片：画面改为 16:9，当前幻灯片在左，角色在右
+ * 6. 开启字幕时在画面底部绘制台词（卡拉 OK 高亮）
+ * 7. 各段音频（RVC 之后）统一响度并限制真峰值，TTS 裁剪首尾静音（见 audioProcessing.ts）
+ *
+ * @returns 各段在时间轴上的位置
  */
 export async function exportComposedVideo(
   segments: ScriptSegment[],
   characterImageBase64: string,
   onProgress?: ProgressCallback,
   options?: ExportOptions
-): Promise<void> {
+): Promise<SegmentTimelineEntry[]> {
   // 过滤有音频的段落
   const readySegments = segments.filter(
     s => s.audioStatus === SegmentStatus.COMPLETED && s.audioUrl
@@ -66,19 +96,23 @@ export async function exportComposedVideo(
 
   onProgress?.({ stage: 'preparing', progress: 0 });
 
-  // 创建渲染画布 (720p, 9:16)
+  // 创建渲染画布：只有角色时为 720p 9:16，带幻灯片时为 1080p 16:9（角色区域仍为 9:16）
+  const slides = options?.slides ?? [];
   const canvas = document.createElement('canvas');
-  canvas.width = 720;
-  canvas.height = 1280;
+  canvas.width = slides.length > 0 ? SLIDE_LAYOUT.width : 720;
+  canvas.height = slides.length > 0 ? SLIDE_LAYOUT.height : 1280;
   const ctx = canvas.getContext('2d')!;
-
-  // 加载角色静态图片
-  const characterImage = new Image();
-  characterImage.src = base64ToDataUrl(characterImageBase64);
-  await new Promise<void>((resolve, reject) => {
-    characterImage.onload = () => resolve();
-    characterImage.onerror = () => reject(new Error('Failed to load character image'));
-  });
+  const characterWidth = slides.length > 0 ? SLIDE_LAYOUT.characterWidth : canvas.width;
+  const characterX = canvas.width - characterWidth;
+
+  // 加载角色静态图片；多人对话时每个有定妆照的角色各加载一张
+  const characterImage = await loadImage(characterImageBase64, 'character');
+  const speakerImages = new Map<string, HTMLImageElement>();
+  for (const member of options?.cast ?? []) {
+    if (member.imageBase64) {
+      speakerImages.set(member.id, await loadImage(member.imageBase64, member.name));
+    }
+  }
 
   onProgress?.({ stage: 'loading', progress: 5 });
 
@@ -127,10 +161,13 @@ export async function exportComposedVideo(
       videoDuration = video.duration;
     }
 
+    const speaker = findSpeaker(options?.cast, segment.speakerId);
     mediaData.push({
       segment,
       ttsAudio,
       ttsDuration,
+      stillImage: (speaker && speakerImages.get(speaker.id)) || characterImage,
+      slide: findSlideAt(slides, readySegments, i),
       video,
       videoDuration,
       hasVideo
@@ -139,6 +176,9 @@ export async function exportComposedVideo(
 
   // 可选：RVC 统一音色（使用传入的 rvcOptions 或环境变量）
   const rvcOptions = options?.rvcOptions !== undefined ? options.rvcOptions : getRvcOptionsFromEnv();
+  if (rvcOptions && speakerImages.size > 1) {
+    console.warn('[Export] RVC converts every speaker to the same voice; multi-speaker voices will not be distinct');
+  }
   if (rvcOptions) {
     for (let i = 0; i < mediaData.length; i++) {
       const data = mediaData[i];
@@ -150,7 +190,7 @@ export async function exportComposedVideo(
       });
 
       let sourceBlob: Blob;
-      if (data.hasVideo && data.video) {
+      if (data.hasVideo && data.video && !data.segment.dubbed) {
         sourceBlob = await extractAudioBlobFromVideo(data.video);
       } else {
         const res = await fetch(data.segment.audioUrl!);
@@ -172,7 +212,42 @@ export async function exportComposedVideo(
     }
   }
 
-  onProgress?.({ stage: 'rendering', progress: rvcOptions ? 40 : 25 });
+  // 响度统一与静音裁剪：对实际播放的音频（RVC 结果、视频音轨或 TTS）处理；失败时沿用原音频
+  const processing = options?.audioProcessing !== undefined ? options.audioProcessing : getAudioProcessingOptionsFromEnv();
+  if (processing) {
+    for (let i = 0; i < mediaData.length; i++) {
+      const data = mediaData[i];
+      onProgress?.({
+        stage: 'normalizing',
+        progress: 40 + (i / mediaData.length) * 5,
+        currentSegment: i + 1,
+        totalSegments: mediaData.length
+      });
+
+      const useVideoAudio = data.hasVideo && !!data.video && !data.segment.dubbed;
+      const sourceUrl = data.unifiedAudioUrl ?? (useVideoAudio ? data.segment.videoUrl! : data.segment.audioUrl!);
+      try {
+        // 视频音轨要与口型同步，不裁剪
+        const processed = await processAudioUrl(sourceUrl, processing, !useVideoAudio);
+        const processedUrl = audioBufferToWavBlobUrl(processed.buffer);
+        const processedAudio = document.createElement('audio');
+        await new Promise<void>((resolve, reject) => {
+          processedAudio.onloadedmetadata = () => resolve();
+          processedAudio.onerror = () => reject(new Error(`Failed to load processed audio for segment ${i + 1}`));
+          processedAudio.src = processedUrl;
+        });
+        data.processedAudio = processedAudio;
+        data.processedDuration = processedAudio.duration;
+        data.processedAudioUrl = processedUrl;
+        data.trimStart = processed.trimStart;
+        console.log(`[Export] Segment ${i + 1}: ${processed.loudness.toFixed(1)} LUFS, gain ${processed.gainDb.toFixed(1)} dB, trimmed ${processed.trimStart.toFixed(2)}s`);
+      } catch (e) {
+        console.warn(`[Export] Audio processing failed for segment ${i + 1}, using original audio:`, e);
+      }
+    }
+  }
+
+  onProgress?.({ stage: 'rendering', progress: 45 });
 
   // 设置MediaRecorder和音频上下文
   // 使用固定帧率的 captureStream，交给浏览器根据实际刷新率采样，更容易和媒体播放对齐
@@ -205,26 +280,30 @@ export async function exportComposedVideo(
   // 开始录制
   mediaRecorder.start(100);
 
-  // 逐段渲染
+  // 逐段渲染，同时记录各段在时间轴上的位置
+  const timeline: SegmentTimelineEntry[] = [];
+  let offset = 0;
   for (let i = 0; i < mediaData.length; i++) {
-    const { ttsAudio, ttsDuration, video, videoDuration, hasVideo, unifiedAudio, unifiedDuration } = mediaData[i];
+    const { segment, ttsAudio, ttsDuration, stillImage, slide, video, videoDuration, hasVideo, unifiedAudio, unifiedDuration, processedAudio, processedDuration, trimStart = 0 } = mediaData[i];
 
-    // 若已做 RVC 统一音色，则用统一后的音频；否则有视频用视频音轨，无视频用 TTS
-    const effectiveAudio = unifiedAudio ?? (hasVideo && video ? undefined : ttsAudio);
-    const effectiveDuration = unifiedDuration ?? ttsDuration;
-    const useUnifiedAudio = !!unifiedAudio;
+    // 若已做响度处理或 RVC 统一音色，则单独播放处理后的音频（视频静音）；否则有视频用视频音轨，无视频用 TTS。
+    // 翻译时沿用的视频音轨是原语言，视频静音、使用 TTS
+    const separateAudio = processedAudio ?? unifiedAudio;
+    const useVideoAudio = hasVideo && !!video && !segment.dubbed;
+    const effectiveDuration = processedDuration ?? unifiedDuration ?? ttsDuration;
+    const useSeparateAudio = !!separateAudio;
 
     onProgress?.({
       stage: 'rendering',
-      progress: (rvcOptions ? 40 : 25) + (i / mediaData.length) * 45,
+      progress: 45 + (i / mediaData.length) * 40,
       currentSegment: i + 1,
       totalSegments: mediaData.length
     });
 
     let audioSource: MediaElementAudioSourceNode;
-    if (useUnifiedAudio && unifiedAudio) {
-      audioSource = audioContext.createMediaElementSource(unifiedAudio);
-    } else if (hasVideo && video) {
+    if (useSeparateAudio && separateAudio) {
+      audioSource = audioContext.createMediaElementSource(separateAudio);
+    } else if (useVideoAudio && video) {
       video.muted = false;
       audioSource = audioContext.createMediaElementSource(video);
     } else {
@@ -234,17 +313,18 @@ export async function exportComposedVideo(
     audioSource.connect(audioDestination);
     audioSource.connect(audioContext.destination);
 
-    if (useUnifiedAudio && unifiedAudio) {
-      unifiedAudio.currentTime = 0;
-      await unifiedAudio.play();
+    if (useSeparateAudio && separateAudio) {
+      separateAudio.currentTime = 0;
+      await separateAudio.play();
       if (hasVideo && video) {
         video.muted = true;
         video.currentTime = 0;
         await video.play();
       }
     } else if (hasVideo && video) {
+      video.muted = !useVideoAudio;
       video.currentTime = 0;
-      ttsAudio.muted = true;
+      ttsAudio.muted = useVideoAudio;
       ttsAudio.currentTime = 0;
       await Promise.all([video.play(), ttsAudio.play()]);
     } else {
@@ -252,13 +332,20 @@ export async function exportComposedVideo(
       await ttsAudio.play();
     }
 
+    // 字幕按 TTS 时间轴高亮：加回裁掉的开头；RVC 转换后的音频时长略有不同，按比例换算
+    const subtitleScale = unifiedAudio && unifiedDuration ? ttsDuration / unifiedDuration : 1;
+    const speakerName = findSpeaker(options?.cast, segment.speakerId)?.name;
+
     const actualVideoDuration = videoDuration || 0;
     const segmentDuration = Math.max(effectiveDuration, actualVideoDuration);
+    timeline.push({ id: segment.id, start: offset, end: offset + segmentDuration });
+    offset += segmentDuration;
 
     console.log(
       `[Export] Segment ${i + 1}: Audio=${effectiveDuration.toFixed(2)}s, ` +
       `Video=${actualVideoDuration.toFixed(2)}s, Using=${segmentDuration.toFixed(2)}s` +
-      (useUnifiedAudio ? ' (RVC)' : '')
+      (unifiedAudio ? ' (RVC)' : '') +
+      (processedAudio ? ' (normalized)' : '')
     );
 
     await new Promise<void>((resolve) => {
@@ -266,13 +353,23 @@ export async function exportComposedVideo(
         ctx.fillStyle = '#000000';
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
+        if (slide) {
+          drawSlide(ctx, slide, slides.length, characterX, canvas.height);
+        }
+
+        ctx.save();
+        ctx.translate(characterX, 0);
         if (hasVideo && video && !video.ended) {
-          drawVideoFrame(ctx, video, canvas.width, canvas.height);
+          drawVideoFrame(ctx, video, characterWidth, canvas.height);
         } else {
-          drawImage(ctx, characterImage, canvas.width, canvas.height);
+          drawImage(ctx, stillImage, characterWidth, canvas.height);
         }
+        ctx.restore();
 
-        const audioEl = useUnifiedAudio ? unifiedAudio! : ttsAudio;
+        const audioEl = useSeparateAudio ? separateAudio! : ttsAudio;
+        if (options?.subtitles) {
+          drawSubtitle(ctx, segment, speakerName, (audioEl.currentTime + trimStart) * subtitleScale, canvas.width, canvas.height);
+        }
         const audioDur = effectiveDuration;
         const audioDone =
           audioEl.ended || audioEl.currentTime >= Math.max(0, audioDur - 0.05);
@@ -290,7 +387,7 @@ export async function exportComposedVideo(
           }
           ttsAudio.pause();
           ttsAudio.muted = false;
-          if (unifiedAudio) unifiedAudio.pause();
+          if (separateAudio) separateAudio.pause();
           audioSource.disconnect();
           resolve();
         } else {
@@ -304,11 +401,10 @@ export async function exportComposedVideo(
 
   onProgress?.({ stage: 'encoding', progress: 85 });
 
-  // 释放 RVC 阶段创建的 blob URL
-  if (rvcOptions) {
-    for (const data of mediaData) {
-      if (data.unifiedAudioUrl) URL.revokeObjectURL(data.unifiedAudioUrl);
-    }
+  // 释放 RVC 与响度处理阶段创建的 blob URL
+  for (const data of mediaData) {
+    if (data.unifiedAudioUrl) URL.revokeObjectURL(data.unifiedAudioUrl);
+    if (data.processedAudioUrl) URL.revokeObjectURL(data.processedAudioUrl);
   }
 
   // 停止录制并获取 blob
@@ -337,6 +433,20 @@ export async function exportComposedVideo(
   a.click();
   document.body.removeChild(a);
   URL.revokeObjectURL(url);
+  return timeline;
+}
+
+/**
+ * 加载 base64 图片
+ */
+async function loadImage(base64: string, label: string): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.src = base64ToDataUrl(base64);
+  await new Promise<void>((resolve, reject) => {
+    image.onload = () => resolve();
+    image.onerror = () => reject(new Error(`Failed to load ${label} image`));
+  });
+  return image;
 }
 
 /**
@@ -397,6 +507,156 @@ function drawImage(
   ctx.drawImage(image, drawX, drawY, drawWidth, drawHeight);
 }
 
+/**
+ * 按宽度折行：英文按单词，中日韩文字按字
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const tokens = text.match(/[\u3000-\u9fff\uff00-\uffef]|[^\s\u3000-\u9fff\uff00-\uffef]+|\s+/g) ?? [];
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    const candidate = line + token;
+    if (line.trim() && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line.trimEnd());
+      line = token.trimStart();
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+/**
+ * 在画布底部居中绘制字幕：有逐词时间戳时已读的词为白色、正在读的词高亮、未读的词为灰色，
+ * 否则整句白色。按计时单位折行
+ */
+function drawSubtitle(
+  ctx: CanvasRenderingContext2D,
+  segment: ScriptSegment,
+  speaker: string | undefined,
+  time: number,
+  width: number,
+  height: number
+) {
+  const words = getAudibleWordTimings(segment);
+  const units = words ? words.map((word) => word.text) : splitTimingUnits(segment.spokenText);
+  if (units.length === 0) return;
+  const active = words ? findActiveWordIndex(words, time) : -1;
+
+  const fontSize = Math.round(Math.min(width, height) * 0.045);
+  const lineHeight = fontSize * 1.35;
+  const padding = fontSize * 0.6;
+  const maxWidth = width * 0.86;
+  const font = '"Helvetica Neue", Arial, "PingFang SC", "Microsoft YaHei", sans-serif';
+  ctx.font = `bold ${fontSize}px ${font}`;
+
+  const lines: Array<Array<{ text: string; index: number; width: number }>> = [[]];
+  let lineWidth = 0;
+  units.forEach((text, index) => {
+    const unitWidth = ctx.measureText(text).width;
+    if (lineWidth > 0 && lineWidth + ctx.measureText(text.trimEnd()).width > maxWidth) {
+      lines.push([]);
+      lineWidth = 0;
+    }
+    lines[lines.length - 1].push({ text, index, width: unitWidth });
+    lineWidth += unitWidth;
+  });
+
+  const speakerSize = Math.round(fontSize * 0.6);
+  const textHeight = lines.length * lineHeight + (speaker ? speakerSize * 1.4 : 0);
+  const boxWidth = Math.min(width - padding * 2, maxWidth + padding * 2);
+  const boxY = height - height * 0.05 - textHeight - padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+  ctx.fillRect((width - boxWidth) / 2, boxY, boxWidth, textHeight + padding * 2);
+
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  let cursorY = boxY + padding;
+  if (speaker) {
+    ctx.font = `bold ${speakerSize}px ${font}`;
+    ctx.fillStyle = '#fcd34d';
+    ctx.textAlign = 'center';
+    ctx.fillText(speaker, width / 2, cursorY);
+    ctx.textAlign = 'left';
+    cursorY += speakerSize * 1.4;
+    ctx.font = `bold ${fontSize}px ${font}`;
+  }
+
+  for (const line of lines) {
+    const last = line[line.length - 1];
+    const total = line.reduce((sum, unit) => sum + unit.width, 0) - last.width + ctx.measureText(last.text.trimEnd()).width;
+    let cursorX = (width - total) / 2;
+    for (const unit of line) {
+      ctx.fillStyle = !words || unit.index < active ? '#ffffff' : unit.index === active ? '#fcd34d' : '#9ca3af';
+      ctx.fillText(unit.text, cursorX, cursorY);
+      cursorX += unit.width;
+    }
+    cursorY += lineHeight;
+  }
+}
+
+/**
+ * 在画布左侧 width x height 的区域内绘制一页 16:9 幻灯片：标题、要点和页码
+ */
+function drawSlide(
+  ctx: CanvasRenderingContext2D,
+  slide: Slide,
+  slideCount: number,
+  width: number,
+  height: number
+) {
+  const margin = 48;
+  const cardWidth = Math.min(width - margin * 2, ((height - margin * 2) * 16) / 9);
+  const cardHeight = (cardWidth * 9) / 16;
+  const x = (width - cardWidth) / 2;
+  const y = (height - cardHeight) / 2;
+  const padding = cardWidth * 0.06;
+  const textWidth = cardWidth - padding * 2;
+  const font = '"Helvetica Neue", Arial, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#f9fafb';
+  ctx.fillRect(x, y, cardWidth, cardHeight);
+  ctx.fillStyle = '#4f46e5';
+  ctx.fillRect(x, y, cardWidth, cardHeight * 0.015);
+
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'left';
+  const titleSize = Math.round(cardHeight * 0.08);
+  ctx.font = `bold ${titleSize}px ${font}`;
+  ctx.fillStyle = '#111827';
+  let cursorY = y + padding;
+  for (const line of wrapText(ctx, slide.title, textWidth).slice(0, 2)) {
+    ctx.fillText(line, x + padding, cursorY);
+    cursorY += titleSize * 1.2;
+  }
+  cursorY += titleSize * 0.6;
+
+  const bulletSize = Math.round(cardHeight * 0.048);
+  const bottom = y + cardHeight - padding;
+  ctx.font = `${bulletSize}px ${font}`;
+  ctx.fillStyle = '#374151';
+  for (const bullet of slide.bullets) {
+    const lines = wrapText(ctx, bullet, textWidth - bulletSize * 1.5);
+    if (cursorY + bulletSize * 1.4 > bottom) break;
+    ctx.fillText('•', x + padding, cursorY);
+    for (const line of lines) {
+      if (cursorY + bulletSize * 1.4 > bottom) break;
+      ctx.fillText(line, x + padding + bulletSize * 1.5, cursorY);
+      cursorY += bulletSize * 1.4;
+    }
+    cursorY += bulletSize * 0.4;
+  }
+
+  ctx.font = `${Math.round(bulletSize * 0.7)}px ${font}`;
+  ctx.fillStyle = '#9ca3af';
+  ctx.textAlign = 'right';
+  ctx.fillText(`${slide.index} / ${slideCount}`, x + cardWidth - padding / 2, y + cardHeight - padding / 2);
+  ctx.textAlign = 'left';
+}
+
 /**
  * 获取浏览器支持的 MIME 类型
  * 优先使用 MP4（如果支持），否则使用 WebM
@@ -0,0 +1,51 @@
+/**
+ * TTS 音色与朗读风格
+ *
+ * 单人排练的音色设置保存在 RehearsalProject.voice，多人对话保存在各 CastMember 上；
+ * 脚本时长验证、重新生成音频、问答和翻译都按这里解析出的设置合成，保证同一角色前后一致。
+ */
+
+import type { LanguageCode, VoiceSettings } from '../types';
+import { detectLanguage } from './language';
+
+/** 朗读风格预设（value 接在 "Say ... :" 之后），也可以输入任意风格 */
+export const VOICE_STYLE_PRESETS: Array<[string, string]> = [
+  ['', 'Natural'],
+  ['calmly', 'Calm'],
+  ['excitedly', 'Excited'],
+  ['in a whisper', 'Whispering'],
+  ['warmly', 'Warm'],
+  ['confidently, with authority', 'Authoritative'],
+  ['slowly and clearly', 'Slow & clear'],
+];
+
+const MAX_STYLE_LENGTH = 80;
+
+const AUDITION_SAMPLES: Record<LanguageCode, string> = {
+  en: "Hi everyone, thanks for being here. Let's get started.",
+  zh: '大家好，感谢各位的到来，我们现在开始。',
+  ja: '皆さん、こんにちは。お集まりいただきありがとうございます。',
+  ko: '안녕하세요, 여러분. 와 주셔서 감사합니다. 시작하겠습니다.',
+  es: 'Hola a todos, gracias por estar aquí. Empecemos.',
+  fr: 'Bonjour à tous, merci d’être là. Commençons.',
+  de: 'Hallo zusammen, danke, dass Sie da sind. Fangen wir an.',
+};
+
+/**
+ * 试听用的台词：优先使用该角色的第一句台词，否则按场景语言选一句开场白
+ */
+export const getAuditionText = (firstLine: string | undefined, scenario: string): string =>
+  firstLine?.trim() || AUDITION_SAMPLES[detectLanguage(scenario)];
+
+/**
+ * 将任意输入（旧项目、bundle）整理为合法的音色设置；没有任何设置时返回 undefined
+ */
+export function normalizeVoiceSettings(value: unknown): VoiceSettings | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { voice, style } = value as Record<string, unknown>;
+  const settings: VoiceSettings = {
+    ...(typeof voice === 'string' && voice.trim() ? { voice: voice.trim() } : {}),
+    ...(typeof style === 'string' && style.trim() ? { style: style.trim().slice(0, MAX_STYLE_LENGTH) } : {}),
+  };
+  return settings.voice || settings.style ? settings : undefined;
+}
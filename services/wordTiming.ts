@@ -0,0 +1,201 @@
+/**
+ * 台词逐词时间戳（卡拉 OK 字幕）
+ *
+ * 时间戳优先使用 TTS 后端返回的结果（SpeechProvider.generateTimedSpeech），
+ * 后端不提供时在本地按音量包络对齐已知台词：把音频中的停顿匹配到词边界（优先标点处），再按各词长度比例分配发声时间。
+ * 中文、日文逐字计时，其他语言逐词计时。
+ */
+
+import { GestureType, SegmentStatus, type ScriptSegment, type WordTiming } from '../types';
+import { decodeWavData } from './audioUtils';
+import { detectLanguage, LANGUAGE_PROFILES } from './language';
+
+const FRAME_SECONDS = 0.01;
+const SILENCE_RATIO = 0.08; // 低于最响帧 8% 的帧视为静音
+const MIN_PAUSE_SECONDS = 0.12; // 更短的静音是音节间的起伏，不算停顿
+const PAUSE_MATCH_TOLERANCE = 0.15; // 停顿与词边界的位置（占全句比例）相差更多时，不在此处断开
+const PUNCTUATION_BONUS = 0.08; // 停顿优先匹配标点后的词边界
+const ENDS_WITH_PUNCTUATION = /[,.!?;:，。！？；：、…]\s*$/u;
+
+// 中日文逐字计时；夹在其中的拉丁字母 / 数字按整串计时
+const CJK_UNIT = /(?:[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}])+)[^\p{L}\p{N}]*/gu;
+const WORD_UNIT = /\S+\s*/gu;
+
+/**
+ * 把台词切成计时单位，首尾相接即为去掉首尾空白的原文
+ */
+export const splitTimingUnits = (text: string): string[] => {
+  const trimmed = text.trim();
+  const perChar = LANGUAGE_PROFILES[detectLanguage(trimmed)].joiner === '';
+  const units = trimmed.match(perChar ? CJK_UNIT : WORD_UNIT) ?? [];
+  // 开头的引号等标点并入第一个单位
+  const leading = perChar ? trimmed.match(/^[^\p{L}\p{N}]*/u)?.[0] ?? '' : '';
+  if (leading && units.length > 0) units[0] = leading + units[0];
+  return units;
+};
+
+/** 单位的发声长度权重：汉字 / 假名为 1，拉丁字母约 3 个算 1 */
+const unitWeight = (unit: string): number => {
+  const cjk = unit.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu)?.length ?? 0;
+  const other = (unit.match(/[\p{L}\p{N}]/gu)?.length ?? 0) - cjk;
+  return Math.max(0.5, cjk + other / 3);
+};
+
+const sumLengths = (intervals: Array<[number, number]>): number => intervals.reduce((sum, [a, b]) => sum + (b - a), 0);
+
+/**
+ * 在一组发声区间内按权重比例排布单位；区间之间的停顿落在词与词之间
+ */
+const spreadUnits = (units: string[], weights: number[], voiced: Array<[number, number]>): WordTiming[] => {
+  const totalVoiced = sumLengths(voiced);
+  // 把累计发声时长换算回实际时间；preferNext 时正好落在停顿前的位置取停顿后的时刻
+  const toTime = (position: number, preferNext: boolean): number => {
+    let remaining = position;
+    for (const [a, b] of voiced) {
+      const length = b - a;
+      if (preferNext ? remaining < length - 1e-6 : remaining <= length + 1e-6) return a + Math.min(remaining, length);
+      remaining -= length;
+    }
+    return voiced[voiced.length - 1][1];
+  };
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  let cumulative = 0;
+  return units.map((unit, i) => {
+    const start = toTime((cumulative / totalWeight) * totalVoiced, true);
+    cumulative += weights[i];
+    const end = toTime((cumulative / totalWeight) * totalVoiced, false);
+    return { text: unit, start: round(start), end: round(Math.max(start, end)) };
+  });
+};
+
+/**
+ * 把台词分配到发声区间：先把每个停顿匹配到位置最接近的词边界（优先标点处），
+ * 再在各段内按长度比例分配时间
+ * @param voiced 发声区间 [开始, 结束]（秒），按时间排序
+ */
+export const distributeWordTimings = (text: string, voiced: Array<[number, number]>): WordTiming[] => {
+  const units = splitTimingUnits(text);
+  if (units.length === 0 || voiced.length === 0) return [];
+
+  const weights = units.map(unitWeight);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const totalVoiced = sumLengths(voiced);
+  // boundaryAt[j]：第 j 个单位之后的边界在全句中的位置比例
+  const boundaryAt: number[] = [];
+  weights.reduce((sum, w) => {
+    boundaryAt.push((sum + w) / totalWeight);
+    return sum + w;
+  }, 0);
+
+  const timings: WordTiming[] = [];
+  let unitStart = 0;
+  let intervalStart = 0;
+  let voicedBefore = 0;
+  for (let gap = 0; gap < voiced.length - 1; gap++) {
+    voicedBefore += voiced[gap][1] - voiced[gap][0];
+    const position = voicedBefore / totalVoiced;
+    let best = -1;
+    let bestScore = Infinity;
+    for (let j = unitStart; j < units.length - 1; j++) {
+      const distance = Math.abs(boundaryAt[j] - position);
+      if (distance > PAUSE_MATCH_TOLERANCE) continue;
+      const score = distance - (ENDS_WITH_PUNCTUATION.test(units[j]) ? PUNCTUATION_BONUS : 0);
+      if (score < bestScore) {
+        best = j;
+        bestScore = score;
+      }
+    }
+    if (best < 0) continue; // 找不到合适的词边界：视为词内的停顿
+    timings.push(...spreadUnits(units.slice(unitStart, best + 1), weights.slice(unitStart, best + 1), voiced.slice(intervalStart, gap + 1)));
+    unitStart = best + 1;
+    intervalStart = gap + 1;
+  }
+  timings.push(...spreadUnits(units.slice(unitStart), weights.slice(unitStart), voiced.slice(intervalStart)));
+  return timings;
+};
+
+const round = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * 按 10ms 帧的音量找出发声区间，合并短于 MIN_PAUSE_SECONDS 的静音
+ */
+const findVoicedIntervals = (buffer: AudioBuffer): Array<[number, number]> => {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frameCount = Math.floor(buffer.length / frameSize);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const energy = new Float32Array(frameCount);
+  let peak = 0;
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = f * frameSize; i < (f + 1) * frameSize; i++) sum += data[i] * data[i];
+    }
+    energy[f] = Math.sqrt(sum / (frameSize * channels.length));
+    peak = Math.max(peak, energy[f]);
+  }
+  if (peak === 0) return [[0, buffer.duration]];
+
+  const threshold = peak * SILENCE_RATIO;
+  const intervals: Array<[number, number]> = [];
+  let runStart = -1;
+  for (let f = 0; f <= frameCount; f++) {
+    const voiced = f < frameCount && energy[f] >= threshold;
+    if (voiced && runStart < 0) runStart = f;
+    if (!voiced && runStart >= 0) {
+      const start = runStart * FRAME_SECONDS;
+      const end = f * FRAME_SECONDS;
+      const last = intervals[intervals.length - 1];
+      if (last && start - last[1] < MIN_PAUSE_SECONDS) last[1] = end;
+      else intervals.push([start, end]);
+      runStart = -1;
+    }
+  }
+  return intervals.length > 0 ? intervals : [[0, buffer.duration]];
+};
+
+/**
+ * 在本地把已知台词对齐到音频（基于音量包络的近似对齐）
+ */
+export const alignWordTimings = (buffer: AudioBuffer, text: string): WordTiming[] =>
+  distributeWordTimings(text, findVoicedIntervals(buffer));
+
+/**
+ * 得到段落最终音频的逐词时间戳：有后端时间戳时按时间压缩倍率换算，否则在本地对齐。
+ * 对齐失败时返回 undefined（字幕退回整句显示）
+ * @param timeStretch 音频做过时间压缩时的加速倍率（见 fitAudioToWindow）
+ */
+export async function resolveWordTimings(
+  audioUrl: string,
+  text: string,
+  backendTimings?: WordTiming[],
+  timeStretch: number = 1
+): Promise<WordTiming[] | undefined> {
+  if (backendTimings?.length) {
+    return backendTimings.map((word) => ({ ...word, start: round(word.start / timeStretch), end: round(word.end / timeStretch) }));
+  }
+  try {
+    const response = await fetch(audioUrl);
+    const buffer = await decodeWavData(await response.arrayBuffer());
+    return alignWordTimings(buffer, text);
+  } catch (e) {
+    console.warn('[WordTiming] Local alignment failed:', e);
+    return undefined;
+  }
+}
+
+/**
+ * 段落实际听到的是 TTS 音频时（无手势视频，或翻译沿用的静音视频）才返回逐词时间戳；
+ * 手势视频自带的音轨与 TTS 节奏不同，此时字幕整句显示
+ */
+export const getAudibleWordTimings = (segment: ScriptSegment): WordTiming[] | undefined => {
+  const hasVideo = segment.gestureType !== GestureType.NONE && segment.videoStatus === SegmentStatus.COMPLETED && !!segment.videoUrl;
+  return hasVideo && !segment.dubbed ? undefined : segment.wordTimings;
+};
+
+/** 当前时刻正在朗读（或最近读完）的单位序号，尚未开始时为 -1 */
+export const findActiveWordIndex = (timings: WordTiming[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < timings.length && timings[i].start <= time; i++) index = i;
+  return index;
+};
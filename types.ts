@@ -24,10 +24,66 @@ export interface ScriptSegment {
   audioUrl?: string; // Blob URL for audio
   videoUrl?: string; // Remote URL for Veo video
   audioDuration?: number;
+  timeStretch?: number; // 音频超过 8 秒时做了保持音高的时间压缩，记录加速倍率
+  lockText?: boolean; // 用户要求不改动台词：超时只压缩音频，不让模型缩短
+  wordTimings?: WordTiming[]; // 音频中每个词（中日文为每个字）的时间戳，用于卡拉 OK 字幕
   // 视频相关的时间信息
-  videoStartTime?: number; // 在总时间轴上的开始时间
+  videoStartTime?: number; // 在总时间轴上的开始时间（最近一次导出音轨、字幕或视频时按导出的时间轴记录）
   videoEndTime?: number;   // 在总时间轴上的结束时间
   videoDuration?: number;  // 视频实际时长
+  videoReview?: VideoReviewResult; // 最近一次视频内容审查结果
+  speakerId?: string; // 多人对话中的说话人（CastMember.id），单人排练为空
+  slideIndex?: number; // 该段落讲解时屏幕上的幻灯片（Slide.index，从 1 开始），未导入幻灯片时为空
+  dubbed?: boolean; // 翻译时沿用了原语言的手势视频：视频音轨与台词不一致，播放和导出时静音视频、使用 TTS 音频
+}
+
+/** 段落在导出的总时间轴上的位置（秒） */
+export interface SegmentTimelineEntry {
+  id: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 台词中一个词（中日文为一个字）在段落音频中的时间（秒，从段落开头算起）
+ * 各项 text 首尾相接即为原台词，空白与标点附在前一个词后
+ */
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * 从 Markdown / 纯文本大纲导入的一页幻灯片
+ */
+export interface Slide {
+  index: number; // 从 1 开始
+  title: string;
+  bullets: string[];
+}
+
+/**
+ * 多人对话排练（访谈、辩论、圆桌等）中的一个角色
+ * 每个角色有独立的定妆照与 TTS 音色，视频生成按段落的说话人选择参考图
+ */
+export interface CastMember {
+  id: string;
+  name: string;                  // 角色称呼，如 "Host"、"Guest"
+  description: string;           // 外观描述，用于生成定妆照
+  personality: string;           // 性格与动作风格
+  voice?: string;                // TTS 音色，未设置时使用后端默认音色
+  voiceStyle?: string;           // 朗读风格指令（见 VoiceSettings.style）
+  imageBase64: string | null;    // 定妆照
+  imageStatus: CharacterStatus;
+}
+
+/**
+ * TTS 音色设置：音色名称取自当前语音后端的 voices，style 为朗读风格指令
+ */
+export interface VoiceSettings {
+  voice?: string; // 未设置时使用后端默认音色
+  style?: string; // 如 "calmly"、"excitedly"、"in a whisper"；为空时自然朗读
 }
 
 export interface RehearsalState {
@@ -35,14 +91,189 @@ export interface RehearsalState {
   status: 'input' | 'scripting' | 'validating_timing' | 'generating_character' | 'editing' | 'generating_media' | 'ready';
 }
 
+/**
+ * 一个完整的排练项目快照（编辑器 + 播放器所需的全部状态）
+ * 用于 IndexedDB 持久化与刷新后恢复
+ */
+export interface RehearsalProject {
+  id: string;
+  name?: string; // 用户自定义名称，未设置时由场景文本生成
+  scenario: string;
+  status: RehearsalState['status'];
+  segments: ScriptSegment[];
+  characterImageBase64: string | null;
+  characterDescription: string | null;
+  characterPersonality: string | null;
+  characterStatus: CharacterStatus;
+  scriptResponse?: GeminiScriptResponse | null; // 生成脚本时的原始 LLM 响应
+  inputMode?: ScriptInputMode; // 缺省为 'scenario'
+  scriptOptions?: ScriptOptions; // 缺省为 DEFAULT_SCRIPT_OPTIONS
+  cast?: CastMember[]; // 多人对话的角色表；单人排练为空，使用 character* 字段
+  qa?: QaItem[]; // 观众问答排练
+  voice?: VoiceSettings; // 单人排练的音色与朗读风格；多人对话使用 CastMember.voice / voiceStyle
+  slides?: Slide[]; // 导入的幻灯片大纲
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 项目库列表中展示的轻量摘要（不含段落和媒体）
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  scenario: string;
+  thumbnail: string | null; // 角色定妆照缩略图 data URL
+  status: RehearsalState['status'];
+  segmentCount: number;
+  audioCompleted: number;
+  videoRequired: number;   // 需要视频的段落数（非 none 手势）
+  videoCompleted: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface GeminiScriptResponse {
   script: Array<{
     spoken_text: string;
     gesture_type: 'none' | 'beat' | 'deictic' | 'iconic' | 'metaphoric';
     gesture_description?: string; // 仅当 gesture_type 为 deictic/iconic/metaphoric 时存在
+    speaker_id?: string; // 多人对话时对应 cast 中的 id
+    slide_index?: number; // 导入幻灯片时，该段落对应的幻灯片序号（从 1 开始）
   }>;
   character_description: string;
   character_personality: string; // 角色的性格、动作风格、能量水平等行为特征
+  // 多人对话时的角色表；此时 character_description / character_personality 为第一个角色
+  cast?: Array<{
+    id: string;
+    name: string;
+    description: string;
+    personality: string;
+  }>;
+}
+
+/**
+ * 脚本来源：根据场景描述生成，或使用用户自己的演讲稿
+ */
+export type ScriptInputMode = 'scenario' | 'speech';
+
+export type AudienceType = 'general' | 'executives' | 'investors' | 'technical' | 'students' | 'customers';
+export type Formality = 'casual' | 'neutral' | 'formal';
+/** 支持的台词语言（长度规则、语言检测见 services/language.ts） */
+export type LanguageCode = 'en' | 'zh' | 'ja' | 'ko' | 'es' | 'fr' | 'de';
+export type ScriptLanguage = 'auto' | LanguageCode; // auto：与场景描述的语言一致
+export type GestureDensity = 'minimal' | 'balanced' | 'expressive';
+
+/**
+ * 单段台词的长度限制（单位见 LanguageProfile.unit）：min / max 对应 4-7 秒，recommended 约 5-6 秒
+ */
+export interface SegmentLengthLimits {
+  min: number;
+  max: number;
+  recommended: number;
+}
+
+/**
+ * 脚本生成选项：写入 prompt，生成后按 targetDurationSeconds 校验总时长
+ */
+export interface ScriptOptions {
+  targetDurationSeconds: number | null; // 目标总时长（秒），null 表示由模型决定（3-5 段）
+  audience: AudienceType;
+  formality: Formality;
+  language: ScriptLanguage;
+  gestureDensity: GestureDensity;
+  durationTolerance: number; // 总时长允许偏离目标的比例（0.2 = ±20%），超出时自动增删段落
+  segmentLimits?: Partial<Record<LanguageCode, SegmentLengthLimits>>; // 按实测语速校准的台词长度（见 speechCalibration.ts），缺省的语言使用 TEXT_LIMITS
+}
+
+/**
+ * 总时长不足时模型补写的段落（插入在结尾段落之前）
+ */
+export interface ScriptExtensionResponse {
+  script: GeminiScriptResponse['script'];
+}
+
+/**
+ * 观众问答：模型预测的问题及分段的参考回答（回答段落格式与脚本相同）
+ */
+export interface QaResponse {
+  questions: Array<{
+    question: string;
+    answer: GeminiScriptResponse['script'];
+  }>;
+}
+
+/**
+ * 观众问答排练中的一个问题：提问用单独的音色朗读，参考回答沿用段落 / 手势 / 视频流程
+ */
+export interface QaItem {
+  id: string;
+  question: string;
+  questionAudioStatus: SegmentStatus;
+  questionAudioUrl?: string; // Blob URL
+  answer: ScriptSegment[];
+}
+
+/**
+ * "使用自己的演讲稿" 模式下模型返回的标注：只为已切分好的段落分配手势，不改动台词
+ */
+export interface ScriptAnnotationResponse {
+  annotations: Array<{
+    index: number; // 段落序号（从 0 开始）
+    gesture_type: GeminiScriptResponse['script'][number]['gesture_type'];
+    gesture_description?: string;
+  }>;
+  character_description: string;
+  character_personality: string;
+}
+
+/**
+ * 排练翻译响应：按段落序号一一对应的译文，不合并、不拆分
+ */
+export interface ScriptTranslationResponse {
+  translations: Array<{
+    index: number; // 段落序号（从 0 开始）
+    spoken_text: string;
+  }>;
+}
+
+/**
+ * 根据角色外观与性格推荐的 TTS 音色
+ */
+export interface VoiceSuggestionResponse {
+  voice: string; // 必须是候选音色之一
+  style: string; // 朗读风格指令，自然朗读时为空字符串
+  reason: string;
+}
+
+/**
+ * 脚本响应校验发现的问题
+ */
+export interface ScriptViolation {
+  code:
+    | 'invalid_root'
+    | 'missing_script'
+    | 'empty_script'
+    | 'invalid_segment'
+    | 'empty_text'
+    | 'invalid_gesture_type'
+    | 'missing_description'
+    | 'stray_description'
+    | 'text_too_long'
+    | 'unknown_speaker'
+    | 'missing_character_description'
+    | 'missing_character_personality';
+  segmentIndex?: number; // 问题所在的段落下标（整体问题时为空）
+  message: string;
+}
+
+/**
+ * 脚本校验与修复报告
+ */
+export interface ScriptValidationReport {
+  violations: ScriptViolation[]; // 原始响应中发现的全部问题
+  repairs: string[];             // 已自动修复的内容（面向用户的说明）
+  modelFixed: boolean;           // 是否请求模型做了定向修正
 }
 
 // Character image generation status
@@ -2,17 +2,35 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const CAPABILITY_ENV_KEYS = [
+  'VITE_SCRIPT_PROVIDER',
+  'VITE_IMAGE_PROVIDER',
+  'VITE_SPEECH_PROVIDER',
+  'VITE_VIDEO_PROVIDER',
+  'VITE_REVIEW_PROVIDER',
+];
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // 只有浏览器直连 Gemini 的能力才需要把 key 打进 bundle；
+    // 全部走 proxy / mock 时 key 只留在 server 端
+    const needsBrowserKey = CAPABILITY_ENV_KEYS.some(
+      (key) => (env[key] || env.VITE_AI_PROVIDER || 'gemini') === 'gemini'
+    );
+    const browserKey = needsBrowserKey ? env.GEMINI_API_KEY : undefined;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // server 默认只监听 127.0.0.1；localhost 可能解析到 ::1
+          '/api': `http://${!env.API_SERVER_HOST || ['0.0.0.0', '::'].includes(env.API_SERVER_HOST) ? '127.0.0.1' : env.API_SERVER_HOST}:${env.API_SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(browserKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(browserKey)
       },
       resolve: {
         alias: {